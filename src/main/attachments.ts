@@ -0,0 +1,97 @@
+import { net, shell } from 'electron';
+import { pathToFileURL } from 'url';
+import { attachmentFileType, type Attachment } from '../shared/attachment';
+import { IpcError } from '../shared/ipc';
+import type { StickyNote } from '../shared/note';
+import type { AttachmentStore, NoteEvent, NoteRepository } from './storage';
+
+const SWEEP_DELAY_MS = 5000;
+
+const filesOf = (attachments: Attachment[] | undefined): string[] =>
+  (attachments ?? []).map(attachment => attachment.file);
+
+/**
+ * Files pasted or dropped onto notes. Notes keep references; the content is
+ * in the AttachmentStore, shared between notes that attach the same file,
+ * and is swept once no note, Trash included, refers to it any more.
+ */
+export class Attachments {
+  private sweepTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly repository: NoteRepository,
+    readonly store: AttachmentStore
+  ) {}
+
+  async add(noteId: string, name: string, type: string, data: Uint8Array): Promise<StickyNote> {
+    const note = await this.liveNote(noteId);
+    const attachment = await this.store.add(name, type, data);
+    const others = (note.attachments ?? []).filter(existing => existing.file !== attachment.file);
+    return this.repository.update(noteId, { attachments: [...others, attachment] });
+  }
+
+  async remove(noteId: string, file: string): Promise<StickyNote> {
+    const note = await this.liveNote(noteId);
+    const attachments = (note.attachments ?? []).filter(attachment => attachment.file !== file);
+    return this.repository.update(noteId, { attachments: attachments.length > 0 ? attachments : undefined });
+  }
+
+  /** Opens an attachment of the note in the app the system picks for it. */
+  async open(noteId: string, file: string): Promise<void> {
+    const note = await this.liveNote(noteId);
+    if (!filesOf(note.attachments).includes(file)) {
+      throw new IpcError('NOT_FOUND', `Note ${noteId} has no attachment ${file}`);
+    }
+    const failure = await shell.openPath(this.store.pathOf(file));
+    if (failure) {
+      throw new Error(failure);
+    }
+  }
+
+  /** Answers a `note-attachment://file/<file>` request from a renderer. */
+  async respond(url: string): Promise<Response> {
+    const { hostname, pathname } = new URL(url);
+    try {
+      if (hostname !== 'file') throw new Error(`Unknown attachment URL ${url}`);
+      const file = decodeURIComponent(pathname.slice(1));
+      const response = await net.fetch(pathToFileURL(this.store.pathOf(file)).toString());
+      if (!response.ok) throw new Error(`Attachment ${file} is missing`);
+      return new Response(response.body, {
+        headers: { 'Content-Type': attachmentFileType(file), 'X-Content-Type-Options': 'nosniff' }
+      });
+    } catch {
+      return new Response(null, { status: 404 });
+    }
+  }
+
+  /** Sweeps soon after a note is purged or loses an attachment. */
+  apply(event: NoteEvent): void {
+    const before = filesOf(event.type === 'deleted' ? event.note.attachments : event.previous?.attachments);
+    const after = event.type === 'deleted' ? [] : filesOf(event.note.attachments);
+    if (before.some(file => !after.includes(file))) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = setTimeout(() => {
+        this.sweep().catch(error => console.error('Error removing unused attachments:', error));
+      }, SWEEP_DELAY_MS);
+    }
+  }
+
+  /** Removes attachment files no note refers to. */
+  async sweep(): Promise<number> {
+    clearTimeout(this.sweepTimer);
+    const inUse = new Set((await this.repository.list()).flatMap(note => filesOf(note.attachments)));
+    return this.store.sweep(inUse);
+  }
+
+  stop(): void {
+    clearTimeout(this.sweepTimer);
+  }
+
+  private async liveNote(noteId: string): Promise<StickyNote> {
+    const note = await this.repository.get(noteId);
+    if (!note || note.deletedAt) {
+      throw new IpcError('NOT_FOUND', `Note ${noteId} does not exist`);
+    }
+    return note;
+  }
+}
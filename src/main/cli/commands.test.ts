@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CliUsageError, commandLineArgs, parseCommand, type CliCommand } from './commands';
+
+describe('commandLineArgs', () => {
+  it('drops the executable, the app path when run as `electron .` and Finder serial numbers', () => {
+    expect(commandLineArgs(['Sticky Notes', 'list', '-psn_0_12345'], false)).toEqual(['list']);
+    expect(commandLineArgs(['electron', '.', 'list'], true)).toEqual(['list']);
+  });
+});
+
+describe('parseCommand', () => {
+  it.each<[string[], CliCommand | null]>([
+    [[], null],
+    [['add', 'Groceries'], { name: 'add', draft: { title: 'Groceries', content: '' }, json: false }],
+    [['add', 'Call', 'the', 'plumber'], { name: 'add', draft: { title: 'Call the plumber', content: '' }, json: false }],
+    [['add', 'Groceries\nmilk'], { name: 'add', draft: { title: 'Groceries', content: 'milk' }, json: false }],
+    [['add', '--title', 'Groceries', 'milk'], { name: 'add', draft: { title: 'Groceries', content: 'milk' }, json: false }],
+    [['add', '--title=Empty'], { name: 'add', draft: { title: 'Empty', content: '' }, json: false }],
+    [['add', '--color', 'Blue', '--json', 'x'], { name: 'add', draft: { title: 'x', content: '', color: '#bae1ff' }, json: true }],
+    [['add', '--color=#AABBCC', 'x'], { name: 'add', draft: { title: 'x', content: '', color: '#aabbcc' }, json: false }],
+    [['add', '--', '--json'], { name: 'add', draft: { title: '--json', content: '' }, json: false }],
+    [['list'], { name: 'list', json: false }],
+    [['list', '--json'], { name: 'list', json: true }],
+    [['open', 'abc123'], { name: 'open', noteId: 'abc123' }],
+    [['stickynotes://note/abc123'], { name: 'link', url: 'stickynotes://note/abc123' }],
+    [['--allow-file-access', 'stickynotes://new?text=x'], { name: 'link', url: 'stickynotes://new?text=x' }],
+    [['export'], { name: 'export', format: 'bundle', noteId: undefined, output: undefined }],
+    [['export', '--note', 'abc', '--output', 'a.json'], { name: 'export', format: 'bundle', noteId: 'abc', output: 'a.json' }],
+    [['export', '--format=markdown', '--output', 'notes'], { name: 'export', format: 'markdown', noteId: undefined, output: 'notes' }],
+    [['export', '--format', 'pdf', '--output', 'board.pdf'], { name: 'export', format: 'pdf', noteId: undefined, output: 'board.pdf' }],
+    [['export', '--format', 'png', '--note', 'abc', '--output', 'a.png'], { name: 'export', format: 'png', noteId: 'abc', output: 'a.png' }],
+    [['help'], { name: 'help' }],
+    [['--help'], { name: 'help' }],
+    [['-h'], { name: 'help' }]
+  ])('reads %j', (args, expected) => {
+    expect(parseCommand(args)).toEqual(expected);
+  });
+
+  it.each([
+    [['remove', 'abc'], 'Unknown command "remove"'],
+    [['add'], 'add needs the text of the note'],
+    [['add', '--color', 'mauve', 'x'], 'Unknown color "mauve"'],
+    [['add', '--color'], '--color needs a value'],
+    [['add', '--verbose', 'x'], 'Unknown option --verbose'],
+    [['add', '--json=yes', 'x'], 'Unknown option --json=yes'],
+    [['list', 'extra'], 'list takes no arguments'],
+    [['list', '--color', 'pink'], 'Unknown option --color'],
+    [['open'], 'open needs exactly one note id'],
+    [['open', 'a', 'b'], 'open needs exactly one note id'],
+    [['export', 'notes.json'], 'export takes no arguments'],
+    [['export', '--format', 'docx'], 'Unknown export format "docx"'],
+    [['export', '--format', 'png', '--output', 'a.png'], 'PNG export needs --note <id>'],
+    [['export', '--format', 'pdf'], 'PDF export needs --output <path>'],
+    [['export', '--format', 'markdown'], 'Markdown export needs --output <path>']
+  ])('rejects %j', (args, message) => {
+    expect(() => parseCommand(args)).toThrow(CliUsageError);
+    expect(() => parseCommand(args)).toThrow(message);
+  });
+});
@@ -0,0 +1,227 @@
+import * as path from 'path';
+import type { ExportFormat, NoteFileFormat } from '../../shared/exchange';
+import { draftFromText, NOTE_COLORS, parseNoteColor, type NoteDraft, type StickyNote } from '../../shared/note';
+import { isDeepLink } from '../deepLinks';
+import type { NoteBundle } from '../exchange';
+
+export const USAGE = `Usage: sticky-notes <command> [options]
+
+Commands:
+  add [--color <color>] [--title <title>] [--json] <text...>
+                      Create a note; prints its id, or the note with --json
+  list [--json]       Print the id and title of every note, or the notes as JSON
+  open <id>           Open a note's window
+  stickynotes://…     Follow a link to a note, a new note or a search
+  export [--format json|markdown|pdf|png] [--note <id>] [--output <path>]
+                      Export every note, or the one given; a JSON bundle goes to
+                      stdout without --output. A PDF of every note prints them
+                      as a board; png needs --note
+  help                Show this help
+
+Colors: ${NOTE_COLORS.map(color => color.name.toLowerCase()).join(', ')}, or #rrggbb`;
+
+export type CliCommand =
+  | { name: 'add'; draft: NoteDraft; json: boolean }
+  | { name: 'list'; json: boolean }
+  | { name: 'open'; noteId: string }
+  | { name: 'link'; url: string }
+  | { name: 'export'; format: ExportFormat | 'png'; noteId?: string; output?: string }
+  | { name: 'help' };
+
+export interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/** The command line is not one `parseCommand` understands. */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/** What commands act on; the running app or a headless store. */
+export interface CommandHost {
+  createNote(draft: NoteDraft): Promise<StickyNote>;
+  listNotes(): Promise<StickyNote[]>;
+  openNote(noteId: string): Promise<void>;
+  openLink(url: string): Promise<void>;
+  createBundle(noteIds?: string[]): Promise<NoteBundle>;
+  exportNotes(format: ExportFormat, target: string, noteIds?: string[]): Promise<number>;
+  exportNote(noteId: string, format: NoteFileFormat, target: string): Promise<void>;
+}
+
+/**
+ * The arguments after the executable, and after the app path when started
+ * as `electron .`. macOS adds a process serial number when the app is
+ * launched from Finder on older systems.
+ */
+export const commandLineArgs = (argv: readonly string[], defaultApp: boolean): string[] =>
+  argv.slice(defaultApp ? 2 : 1).filter(arg => !arg.startsWith('-psn_'));
+
+/** Only commands that show a window need the app running. */
+export const needsWindows = (command: CliCommand): boolean => command.name === 'open' || command.name === 'link';
+
+/**
+ * Splits `args` into positional arguments and `--name value`,
+ * `--name=value` or bare `--flag` options; `--` ends the options.
+ */
+function splitOptions(args: readonly string[], valued: readonly string[], flags: readonly string[]) {
+  const positional: string[] = [];
+  const options = new Map<string, string>();
+  const seen = new Set<string>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const name = arg.slice(2, equals === -1 ? undefined : equals);
+    const inline = equals === -1 ? undefined : arg.slice(equals + 1);
+    if (flags.includes(name) && inline === undefined) {
+      seen.add(name);
+    } else if (valued.includes(name)) {
+      const value = inline ?? args[++i];
+      if (value === undefined) {
+        throw new CliUsageError(`--${name} needs a value`);
+      }
+      options.set(name, value);
+    } else {
+      throw new CliUsageError(`Unknown option ${arg}`);
+    }
+  }
+  return { positional, options, flags: seen };
+}
+
+/** The command in `args`, or null for a plain launch without one. */
+export function parseCommand(args: readonly string[]): CliCommand | null {
+  if (args.length === 0) return null;
+  // Windows and Linux start the app with a clicked link among its arguments
+  const url = args.find(isDeepLink);
+  if (url) return { name: 'link', url };
+  const [name, ...rest] = args;
+  switch (name) {
+    case 'add': {
+      const { positional, options, flags } = splitOptions(rest, ['color', 'title'], ['json']);
+      const content = positional.join(' ');
+      const title = options.get('title');
+      if (!content && title === undefined) {
+        throw new CliUsageError('add needs the text of the note');
+      }
+      // Like quick capture, the first line becomes the title unless one is given
+      const draft: NoteDraft = title !== undefined ? { title: title.slice(0, 500), content } : draftFromText(content);
+      const color = options.get('color');
+      if (color !== undefined) {
+        draft.color = parseNoteColor(color);
+        if (!draft.color) {
+          throw new CliUsageError(`Unknown color "${color}"`);
+        }
+      }
+      return { name, draft, json: flags.has('json') };
+    }
+    case 'list': {
+      const { positional, flags } = splitOptions(rest, [], ['json']);
+      if (positional.length > 0) {
+        throw new CliUsageError('list takes no arguments');
+      }
+      return { name, json: flags.has('json') };
+    }
+    case 'open': {
+      const { positional } = splitOptions(rest, [], []);
+      if (positional.length !== 1) {
+        throw new CliUsageError('open needs exactly one note id');
+      }
+      return { name, noteId: positional[0] };
+    }
+    case 'export': {
+      const { positional, options } = splitOptions(rest, ['format', 'note', 'output'], []);
+      if (positional.length > 0) {
+        throw new CliUsageError('export takes no arguments');
+      }
+      const format = options.get('format') ?? 'json';
+      if (format !== 'json' && format !== 'markdown' && format !== 'pdf' && format !== 'png') {
+        throw new CliUsageError(`Unknown export format "${format}"`);
+      }
+      const noteId = options.get('note');
+      if (format === 'png' && noteId === undefined) {
+        throw new CliUsageError('PNG export needs --note <id>');
+      }
+      const output = options.get('output');
+      if (format !== 'json' && output === undefined) {
+        throw new CliUsageError(`${format === 'markdown' ? 'Markdown' : format.toUpperCase()} export needs --output <path>`);
+      }
+      return { name, format: format === 'json' ? 'bundle' : format, noteId, output };
+    }
+    case 'help':
+    case '--help':
+    case '-h':
+      return { name: 'help' };
+    default:
+      throw new CliUsageError(`Unknown command "${name}"`);
+  }
+}
+
+const succeeded = (stdout: string): CommandResult => ({ exitCode: 0, stdout, stderr: '' });
+
+export const usageFailure = (error: CliUsageError): CommandResult =>
+  ({ exitCode: 2, stdout: '', stderr: `${error.message}\n\n${USAGE}\n` });
+
+/** Runs `command` against `host`; relative paths are resolved against `cwd`. */
+export async function runCommand(command: CliCommand, host: CommandHost, cwd: string): Promise<CommandResult> {
+  try {
+    switch (command.name) {
+      case 'add': {
+        const note = await host.createNote(command.draft);
+        return succeeded(command.json ? `${JSON.stringify(note, null, 2)}\n` : `${note.id}\n`);
+      }
+      case 'list': {
+        const notes = (await host.listNotes()).sort((a, b) => b.updated.localeCompare(a.updated));
+        if (command.json) {
+          return succeeded(`${JSON.stringify(notes, null, 2)}\n`);
+        }
+        return succeeded(notes.map(note => `${note.id}\t${note.title || 'Untitled'}\n`).join(''));
+      }
+      case 'open':
+        await host.openNote(command.noteId);
+        return succeeded('');
+      case 'link':
+        await host.openLink(command.url);
+        return succeeded('');
+      case 'export': {
+        const noteIds = command.noteId === undefined ? undefined : [command.noteId];
+        if (command.output === undefined) {
+          return succeeded(`${JSON.stringify(await host.createBundle(noteIds), null, 2)}\n`);
+        }
+        const target = path.resolve(cwd, command.output);
+        // One note as Markdown, PDF or PNG is a single file rather than a folder or board
+        if (command.noteId !== undefined && command.format !== 'bundle') {
+          await host.exportNote(command.noteId, command.format, target);
+          return succeeded(`Exported note ${command.noteId} to ${target}\n`);
+        }
+        if (command.format === 'png') {
+          throw new CliUsageError('PNG export needs --note <id>');
+        }
+        const count = await host.exportNotes(command.format, target, noteIds);
+        return succeeded(`Exported ${count} note${count === 1 ? '' : 's'} to ${target}\n`);
+      }
+      case 'help':
+        return succeeded(`${USAGE}\n`);
+    }
+  } catch (error) {
+    return { exitCode: 1, stdout: '', stderr: `${error instanceof Error ? error.message : String(error)}\n` };
+  }
+}
+
+/** Writes a result to this process's terminal, waiting until it is flushed. */
+export function printResult({ stdout, stderr }: CommandResult): Promise<void> {
+  const write = (stream: NodeJS.WriteStream, text: string) =>
+    new Promise<void>(resolve => (text ? stream.write(text, () => resolve()) : resolve()));
+  return write(process.stdout, stdout).then(() => write(process.stderr, stderr));
+}
@@ -0,0 +1,100 @@
+import { app } from 'electron';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { array, object, string } from '../../shared/validation';
+import type { CommandResult } from './commands';
+
+// How long a second launch waits for the running instance to answer
+const REPLY_TIMEOUT_MS = 30_000;
+
+/** Sent from a second launch to the running instance along with the lock request. */
+export interface ForwardedCommand {
+  args: string[];
+  /** The second launch's working directory, for relative paths. */
+  cwd: string;
+  /** Socket or named pipe the second launch waits on for the result. */
+  replyTo: string;
+}
+
+export const forwardedCommandValidator = object({
+  args: array(string({ maxLength: 100_000 }), { maxLength: 1000 }),
+  cwd: string({ maxLength: 4096 }),
+  replyTo: string({ nonEmpty: true, maxLength: 4096 })
+});
+
+const replyAddress = (): string => {
+  const name = `sticky-notes-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+};
+
+/**
+ * Takes the single-instance lock, which Electron keeps per user data
+ * directory. When another instance already holds it, `args` are handed to
+ * that instance through `second-instance` and the result it sends back is
+ * returned; null means this process is the only instance.
+ */
+export async function forwardToRunningInstance(args: string[]): Promise<CommandResult | null> {
+  const replyTo = replyAddress();
+  let answer: (result: CommandResult) => void = () => undefined;
+  const answered = new Promise<CommandResult>(resolve => (answer = resolve));
+  const server = net.createServer(socket => {
+    let text = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', chunk => (text += chunk));
+    socket.on('end', () => {
+      try {
+        answer(JSON.parse(text) as CommandResult);
+      } catch {
+        answer({ exitCode: 1, stdout: '', stderr: 'Sticky Notes sent an unreadable answer\n' });
+      }
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(replyTo, resolve);
+  });
+
+  const request: ForwardedCommand = { args, cwd: process.cwd(), replyTo };
+  if (app.requestSingleInstanceLock(request)) {
+    server.close();
+    return null;
+  }
+
+  const timer = setTimeout(() => {
+    answer({ exitCode: 1, stdout: '', stderr: 'Sticky Notes is running but did not answer\n' });
+  }, REPLY_TIMEOUT_MS);
+  try {
+    return await answered;
+  } finally {
+    clearTimeout(timer);
+    server.close();
+  }
+}
+
+/** Sends a forwarded command's result back to the launch waiting on `replyTo`. */
+export function replyToInstance(replyTo: string, result: CommandResult): void {
+  const socket = net.createConnection(replyTo, () => socket.end(JSON.stringify(result)));
+  socket.on('error', error => console.error('Error answering command line:', error));
+}
+
+/**
+ * Answers later launches while this process runs one command without the
+ * app. It cannot run theirs, so they are told to try again rather than left
+ * waiting for an answer that would never come.
+ */
+export function refuseForwardedCommands(): void {
+  app.on('second-instance', (_event, _argv, _workingDirectory, data) => {
+    let request: ForwardedCommand;
+    try {
+      request = forwardedCommandValidator(data, 'command');
+    } catch {
+      return;
+    }
+    replyToInstance(request.replyTo, {
+      exitCode: 1,
+      stdout: '',
+      stderr: 'Sticky Notes is busy with another command; try again once it has finished\n'
+    });
+  });
+}
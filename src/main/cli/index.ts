@@ -0,0 +1,19 @@
+export {
+  CliUsageError,
+  commandLineArgs,
+  needsWindows,
+  parseCommand,
+  printResult,
+  runCommand,
+  usageFailure,
+  type CliCommand,
+  type CommandHost,
+  type CommandResult
+} from './commands';
+export {
+  forwardToRunningInstance,
+  forwardedCommandValidator,
+  refuseForwardedCommands,
+  replyToInstance,
+  type ForwardedCommand
+} from './forwarding';
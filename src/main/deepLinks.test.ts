@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CONTENT_LENGTH } from '../shared/note';
+import { DeepLinkError, isDeepLink, parseDeepLink, type DeepLink } from './deepLinks';
+
+describe('isDeepLink', () => {
+  it.each([
+    ['stickynotes://note/abc', true],
+    ['StickyNotes://new', true],
+    ['stickynotes:search?q=x', true],
+    ['https://example.com', false],
+    ['--json', false]
+  ])('%s is %s', (value, expected) => {
+    expect(isDeepLink(value)).toBe(expected);
+  });
+});
+
+describe('parseDeepLink', () => {
+  it.each<[string, DeepLink]>([
+    ['stickynotes://note/abc123', { action: 'note', noteId: 'abc123' }],
+    ['stickynotes:note/abc123', { action: 'note', noteId: 'abc123' }],
+    ['stickynotes://NOTE/abc123', { action: 'note', noteId: 'abc123' }],
+    ['stickynotes://note/a%20b', { action: 'note', noteId: 'a b' }],
+    ['stickynotes://new', { action: 'new', draft: {} }],
+    ['stickynotes://new?text=%20%20', { action: 'new', draft: {} }],
+    ['stickynotes://new?text=Groceries%0Amilk%0Aeggs', { action: 'new', draft: { title: 'Groceries', content: 'milk\neggs' } }],
+    ['stickynotes://new?text=Call&color=pink', { action: 'new', draft: { title: 'Call', content: '', color: '#ffb3ba' } }],
+    ['stickynotes://new?color=%23AABBCC', { action: 'new', draft: { color: '#aabbcc' } }],
+    ['stickynotes://search?q=milk', { action: 'search', query: 'milk' }],
+    ['stickynotes://search', { action: 'search', query: '' }]
+  ])('reads %s', (url, expected) => {
+    expect(parseDeepLink(url)).toEqual(expected);
+  });
+
+  it('cuts search queries short', () => {
+    const link = parseDeepLink(`stickynotes://search?q=${'a'.repeat(600)}`);
+    expect(link).toEqual({ action: 'search', query: 'a'.repeat(500) });
+  });
+
+  it.each([
+    ['not a link', 'is not a valid link'],
+    ['https://note/abc', 'is not a stickynotes:// link'],
+    ['stickynotes://note', 'exactly one note id'],
+    ['stickynotes://note/a/b', 'exactly one note id'],
+    [`stickynotes://note/${'a'.repeat(129)}`, 'is not a note id'],
+    ['stickynotes://note/%E0%A4%A', 'is not a valid link'],
+    ['stickynotes://delete/abc', 'Unknown link action "delete"'],
+    ['stickynotes://', 'Unknown link action ""'],
+    ['stickynotes://new?text=x&color=mauve', 'Unknown color "mauve"'],
+    ['stickynotes://new?color=%23abc', 'Unknown color "#abc"'],
+    [`stickynotes://new?text=${'a'.repeat(MAX_CONTENT_LENGTH + 1)}`, 'too long']
+  ])('rejects %s', (url, message) => {
+    expect(() => parseDeepLink(url)).toThrow(DeepLinkError);
+    expect(() => parseDeepLink(url)).toThrow(message);
+  });
+});
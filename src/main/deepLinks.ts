@@ -0,0 +1,78 @@
+import { DEEP_LINK_SCHEME } from '../shared/deepLink';
+import { draftFromText, MAX_CONTENT_LENGTH, noteIdValidator, parseNoteColor, type NoteDraft } from '../shared/note';
+import { ValidationError } from '../shared/validation';
+
+export type DeepLink =
+  | { action: 'note'; noteId: string }
+  | { action: 'new'; draft: NoteDraft }
+  | { action: 'search'; query: string };
+
+/** A stickynotes:// link that does not name one of the actions below. */
+export class DeepLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeepLinkError';
+  }
+}
+
+export const isDeepLink = (value: string): boolean =>
+  value.toLowerCase().startsWith(`${DEEP_LINK_SCHEME}:`);
+
+/**
+ * Reads `stickynotes://note/<id>`, `stickynotes://new?text=…&color=…` and
+ * `stickynotes://search?q=…`. Links come from anywhere a user can click, so
+ * everything in them is checked here before it reaches a note or a window.
+ */
+export function parseDeepLink(url: string): DeepLink {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new DeepLinkError(`${url} is not a valid link`);
+  }
+  if (parsed.protocol !== `${DEEP_LINK_SCHEME}:`) {
+    throw new DeepLinkError(`${url} is not a ${DEEP_LINK_SCHEME}:// link`);
+  }
+  // `stickynotes://note/x` puts the action in the host, `stickynotes:note/x` in the path
+  let action: string | undefined;
+  let segments: string[];
+  try {
+    [action, ...segments] = [parsed.hostname, ...parsed.pathname.split('/')]
+      .filter(Boolean)
+      .map(segment => decodeURIComponent(segment));
+  } catch {
+    throw new DeepLinkError(`${url} is not a valid link`);
+  }
+  const params = parsed.searchParams;
+
+  switch (action?.toLowerCase()) {
+    case 'note': {
+      if (segments.length !== 1) {
+        throw new DeepLinkError('A note link needs exactly one note id');
+      }
+      try {
+        return { action: 'note', noteId: noteIdValidator(segments[0], 'noteId') };
+      } catch (error) {
+        if (error instanceof ValidationError) throw new DeepLinkError(`${segments[0]} is not a note id`);
+        throw error;
+      }
+    }
+    case 'new': {
+      const text = params.get('text') ?? '';
+      if (text.length > MAX_CONTENT_LENGTH) {
+        throw new DeepLinkError('The text of the new note is too long');
+      }
+      const draft: NoteDraft = text.trim() ? draftFromText(text) : {};
+      const color = params.get('color');
+      if (color !== null) {
+        draft.color = parseNoteColor(color);
+        if (!draft.color) throw new DeepLinkError(`Unknown color "${color}"`);
+      }
+      return { action: 'new', draft };
+    }
+    case 'search':
+      return { action: 'search', query: (params.get('q') ?? '').slice(0, 500) };
+    default:
+      throw new DeepLinkError(`Unknown link action "${action ?? ''}"`);
+  }
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import { NOTE_BUNDLE_FORMAT, NOTE_BUNDLE_VERSION } from '../../shared/exchange';
+import type { Notebook } from '../../shared/notebook';
+import { NOTE_SCHEMA_VERSION, type StickyNote } from '../../shared/note';
+import type { AttachmentStore } from '../storage';
+import { writeFileAtomic } from '../storage/atomicFile';
+import { migrateStore } from '../storage/migrations';
+import { ImportFormatError, type ParsedImport } from './types';
+
+/** A self-contained export: notes plus the notebooks they refer to. */
+export interface NoteBundle {
+  format: typeof NOTE_BUNDLE_FORMAT;
+  version: number;
+  /** StickyNote schema the notes were written with; older ones are migrated on import. */
+  schemaVersion: number;
+  exportedAt: string;
+  notebooks: Notebook[];
+  notes: StickyNote[];
+  /** Base64 content of the notes' attachments by file name; missing before attachments existed. */
+  attachments?: Record<string, string>;
+}
+
+export async function createBundle(
+  notes: StickyNote[],
+  notebooks: Notebook[],
+  attachments: AttachmentStore
+): Promise<NoteBundle> {
+  const used = new Set(notes.map(note => note.notebookId));
+  const files: Record<string, string> = {};
+  for (const { file } of notes.flatMap(note => note.attachments ?? [])) {
+    if (files[file] === undefined && await attachments.has(file)) {
+      files[file] = (await attachments.read(file)).toString('base64');
+    }
+  }
+  return {
+    format: NOTE_BUNDLE_FORMAT,
+    version: NOTE_BUNDLE_VERSION,
+    schemaVersion: NOTE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    notebooks: notebooks.filter(notebook => used.has(notebook.id)),
+    notes,
+    attachments: files
+  };
+}
+
+export async function writeBundle(
+  filePath: string,
+  notes: StickyNote[],
+  notebooks: Notebook[],
+  attachments: AttachmentStore
+): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(await createBundle(notes, notebooks, attachments), null, 2));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a bundle, upgrading its notes through the same migrations as the
+ * note store. Notes that fail validation are reported, not imported.
+ */
+export async function readBundle(filePath: string): Promise<ParsedImport> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch {
+    throw new ImportFormatError(`${filePath} is not a readable JSON file`);
+  }
+  if (!isRecord(data) || data.format !== NOTE_BUNDLE_FORMAT) {
+    throw new ImportFormatError(`${filePath} is not a Sticky Notes bundle`);
+  }
+  if (typeof data.version !== 'number' || data.version > NOTE_BUNDLE_VERSION) {
+    throw new ImportFormatError(`${filePath} was written by a newer version of Sticky Notes`);
+  }
+
+  let migrated;
+  try {
+    migrated = migrateStore({ schemaVersion: data.schemaVersion, notes: data.notes });
+  } catch (error) {
+    throw new ImportFormatError(error instanceof Error ? error.message : String(error));
+  }
+
+  const notebookNames = new Map<string, string>();
+  if (Array.isArray(data.notebooks)) {
+    for (const notebook of data.notebooks) {
+      if (isRecord(notebook) && typeof notebook.id === 'string' && typeof notebook.name === 'string') {
+        notebookNames.set(notebook.id, notebook.name);
+      }
+    }
+  }
+
+  const attachments = isRecord(data.attachments) ? data.attachments : {};
+  return {
+    source: filePath,
+    format: 'bundle',
+    notes: migrated.notes.map(note => ({ note, notebookName: notebookNames.get(note.notebookId) })),
+    invalid: migrated.quarantined.map(({ reason }) => ({ source: filePath, reason })),
+    readAttachment: async (file) => {
+      const encoded = attachments[file];
+      return typeof encoded === 'string' ? Buffer.from(encoded, 'base64') : null;
+    }
+  };
+}
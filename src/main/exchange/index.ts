@@ -0,0 +1,204 @@
+import * as path from 'path';
+import type { Attachment } from '../../shared/attachment';
+import type {
+  CollisionStrategy,
+  ExportFormat,
+  ImportPreview,
+  ImportResult,
+  ImportSourceKind,
+  NoteFileFormat
+} from '../../shared/exchange';
+import { DEFAULT_NOTEBOOK_ID } from '../../shared/notebook';
+import type { StickyNote } from '../../shared/note';
+import type { Notebooks } from '../notebooks';
+import { AttachmentsEncryptedError, NoteNotFoundError, type AttachmentStore, type NoteRepository, type RevisionStore } from '../storage';
+import { createBundle, readBundle, writeBundle, type NoteBundle } from './bundle';
+import { readMarkdown, writeMarkdownFile, writeMarkdownFolder } from './markdownFiles';
+import type { NotePrinter } from './printing';
+import { ImportFormatError, type ImportedNote, type ParsedImport } from './types';
+
+export type { NoteBundle } from './bundle';
+export { NotePrinter, type PrintFonts } from './printing';
+export { ImportFormatError } from './types';
+
+const withoutTrashState = (note: StickyNote): StickyNote => {
+  const copy = { ...note };
+  delete copy.deletedAt;
+  return copy;
+};
+
+/**
+ * Moves notes in and out of the app as JSON bundles or Markdown files, and
+ * out of it as PDFs and images.
+ * Imports happen in two steps: `preview` reads and validates the source,
+ * then `apply` writes it with the chosen collision strategy.
+ */
+export class NoteExchange {
+  private pending: { token: string; parsed: ParsedImport } | null = null;
+
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly notebooks: Notebooks,
+    private readonly revisions: RevisionStore,
+    private readonly attachments: AttachmentStore,
+    private readonly printer: NotePrinter,
+    /** A fresh note with a new id, used for defaults and duplicates. */
+    private readonly newNote: () => StickyNote
+  ) {}
+
+  /**
+   * Exports live notes, or only `noteIds` when given, to a bundle file, a
+   * Markdown folder or a PDF board.
+   */
+  async exportNotes(format: ExportFormat, target: string, noteIds?: string[]): Promise<number> {
+    const notes = await this.liveNotes(noteIds);
+    if (format === 'bundle') {
+      await writeBundle(target, notes, this.notebooks.list(), this.attachments);
+    } else if (format === 'pdf') {
+      await this.printer.writeBoard(notes, target);
+    } else {
+      await writeMarkdownFolder(target, notes, note => this.notebookName(note), this.attachments);
+    }
+    return notes.length;
+  }
+
+  /** The bundle `exportNotes` would write, for callers that send it elsewhere. */
+  async createBundle(noteIds?: string[]): Promise<NoteBundle> {
+    return createBundle(await this.liveNotes(noteIds), this.notebooks.list(), this.attachments);
+  }
+
+  async exportNote(noteId: string, format: NoteFileFormat, filePath: string): Promise<void> {
+    const note = await this.repository.get(noteId);
+    if (!note) {
+      throw new NoteNotFoundError(noteId);
+    }
+    if (format === 'pdf') {
+      await this.printer.writeNotePdf(note, filePath);
+    } else if (format === 'png') {
+      await this.printer.writeNotePng(note, filePath);
+    } else {
+      await writeMarkdownFile(filePath, note, this.notebookName(note), this.attachments);
+    }
+  }
+
+  async preview(source: string, kind: ImportSourceKind): Promise<ImportPreview> {
+    const extension = path.extname(source).toLowerCase();
+    let parsed: ParsedImport;
+    if (kind === 'folder' || extension === '.md' || extension === '.markdown') {
+      parsed = await readMarkdown(source, this.newNote);
+    } else if (extension === '.json') {
+      parsed = await readBundle(source);
+    } else {
+      throw new ImportFormatError(`Cannot import ${path.basename(source)}: choose a .json bundle or a .md file`);
+    }
+
+    const token = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    this.pending = { token, parsed };
+
+    const entries = [];
+    for (const { note, notebookName } of parsed.notes) {
+      entries.push({
+        id: note.id,
+        title: note.title,
+        notebookName: notebookName ?? this.notebookName(note),
+        exists: (await this.repository.get(note.id)) !== undefined
+      });
+    }
+    return { token, source, format: parsed.format, entries, invalid: parsed.invalid };
+  }
+
+  async apply(token: string, strategy: CollisionStrategy): Promise<ImportResult> {
+    if (!this.pending || this.pending.token !== token) {
+      throw new ImportFormatError('This import preview has expired; choose the file again');
+    }
+    const { parsed } = this.pending;
+    this.pending = null;
+
+    const result: ImportResult = { created: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+    for (const imported of parsed.notes) {
+      const note = withoutTrashState({ ...imported.note, notebookId: await this.resolveNotebook(imported) });
+      const attachments = await this.importAttachments(imported.note, parsed);
+      if (attachments) {
+        note.attachments = attachments;
+      } else {
+        delete note.attachments;
+      }
+      const existing = await this.repository.get(note.id);
+      if (!existing) {
+        await this.repository.create(note);
+        result.created++;
+      } else if (strategy === 'skip') {
+        result.skipped++;
+      } else if (strategy === 'duplicate') {
+        await this.repository.create({ ...note, id: this.newNote().id });
+        result.duplicated++;
+      } else {
+        const {
+          title, content, color, x, y, width, height, displayId, group, alwaysOnTop, notebookId, tags, dueAt, reminder, attachments,
+          typography
+        } = note;
+        // Fields missing from the import are cleared rather than kept
+        const overwritten = await this.repository.update(note.id, {
+          title, content, color, x, y, width, height, displayId, group, alwaysOnTop, notebookId, tags, dueAt, reminder, attachments,
+          typography, deletedAt: undefined
+        });
+        // Keep what was there so an unwanted overwrite can be undone from History
+        await this.revisions.capture(existing, overwritten, true);
+        result.overwritten++;
+      }
+    }
+    return result;
+  }
+
+  private async liveNotes(noteIds?: string[]): Promise<StickyNote[]> {
+    const wanted = noteIds && new Set(noteIds);
+    return (await this.repository.list())
+      .filter(note => !note.deletedAt && (!wanted || wanted.has(note.id)));
+  }
+
+  /**
+   * Stores the attachments an imported note refers to. Ones the source does
+   * not carry, or whose content does not match its name, are left off, and
+   * so are new files while notes are encrypted.
+   */
+  private async importAttachments(note: StickyNote, parsed: ParsedImport): Promise<Attachment[] | undefined> {
+    const kept: Attachment[] = [];
+    for (const attachment of note.attachments ?? []) {
+      if (await this.attachments.has(attachment.file)) {
+        kept.push(attachment);
+        continue;
+      }
+      const data = await parsed.readAttachment(attachment.file);
+      try {
+        if (data && await this.attachments.put(attachment.file, data)) {
+          kept.push(attachment);
+        } else {
+          console.warn(`Leaving out attachment ${attachment.name} of note ${note.id}: not in ${parsed.source}`);
+        }
+      } catch (error) {
+        if (!(error instanceof AttachmentsEncryptedError)) throw error;
+        console.warn(`Leaving out attachment ${attachment.name} of note ${note.id}: notes are encrypted`);
+      }
+    }
+    return kept.length > 0 ? kept : undefined;
+  }
+
+  private notebookName(note: StickyNote): string | undefined {
+    return this.notebooks.list().find(notebook => notebook.id === note.notebookId)?.name;
+  }
+
+  /**
+   * Keeps the note's notebook id when it names the same notebook here, and
+   * otherwise files it by notebook name, creating the notebook if needed.
+   */
+  private async resolveNotebook({ note, notebookName }: ImportedNote): Promise<string> {
+    const local = this.notebookName(note);
+    if (local !== undefined && (notebookName === undefined || local === notebookName)) {
+      return note.notebookId;
+    }
+    if (notebookName) {
+      return (await this.notebooks.ensureNamed(notebookName)).id;
+    }
+    return DEFAULT_NOTEBOOK_ID;
+  }
+}
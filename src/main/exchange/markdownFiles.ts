@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { attachmentFileValidator } from '../../shared/attachment';
+import { noteValidator, type StickyNote } from '../../shared/note';
+import type { AttachmentStore } from '../storage';
+import { writeFileAtomic } from '../storage/atomicFile';
+import type { ImportedNote, ParsedImport } from './types';
+
+// One note per `.md` file. The front-matter holds everything but the content,
+// one `key: value` per line with JSON values, which YAML readers accept too.
+// Attachment files go into an `attachments/` folder next to the notes.
+
+const FRONT_MATTER_KEYS = [
+  'id', 'title', 'color', 'x', 'y', 'width', 'height', 'alwaysOnTop',
+  'created', 'updated', 'tags', 'dueAt', 'reminder', 'attachments', 'typography'
+] as const;
+
+const ATTACHMENTS_FOLDER = 'attachments';
+
+/** Copies the notes' attachment files into `attachments/` inside `directory`. */
+async function copyAttachments(directory: string, notes: StickyNote[], attachments: AttachmentStore): Promise<void> {
+  const files = new Set(notes.flatMap(note => note.attachments ?? []).map(attachment => attachment.file));
+  for (const file of files) {
+    if (await attachments.has(file)) {
+      await fs.promises.mkdir(path.join(directory, ATTACHMENTS_FOLDER), { recursive: true });
+      await fs.promises.copyFile(attachments.pathOf(file), path.join(directory, ATTACHMENTS_FOLDER, file));
+    }
+  }
+}
+
+export function noteToMarkdown(note: StickyNote, notebookName?: string): string {
+  const lines = ['---'];
+  for (const key of FRONT_MATTER_KEYS) {
+    if (note[key] !== undefined) {
+      lines.push(`${key}: ${JSON.stringify(note[key])}`);
+    }
+  }
+  if (notebookName) {
+    lines.push(`notebook: ${JSON.stringify(notebookName)}`);
+  }
+  lines.push('---', '');
+  return `${lines.join('\n')}${note.content}`;
+}
+
+function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+  const data: Record<string, unknown> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!field) continue;
+    try {
+      data[field[1]] = JSON.parse(field[2]);
+    } catch {
+      // Hand-edited files may use bare YAML scalars and lists
+      const raw = field[2].trim();
+      data[field[1]] = raw.startsWith('[') && raw.endsWith(']')
+        ? raw.slice(1, -1).split(',').map(item => item.trim()).filter(Boolean)
+        : raw.replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+/**
+ * Builds a note from a Markdown file. Front-matter fields override
+ * `defaults`; a file without front-matter becomes a new note titled after
+ * the file. Throws a ValidationError when a field has the wrong shape.
+ */
+export function markdownToNote(text: string, fileName: string, defaults: StickyNote): ImportedNote {
+  const { data, body } = parseFrontMatter(text);
+  const candidate: Record<string, unknown> = {
+    ...defaults,
+    title: path.parse(fileName).name,
+    content: body
+  };
+  for (const key of FRONT_MATTER_KEYS) {
+    if (data[key] !== undefined) {
+      candidate[key] = data[key];
+    }
+  }
+  return {
+    note: noteValidator(candidate, fileName),
+    notebookName: typeof data.notebook === 'string' ? data.notebook : undefined
+  };
+}
+
+const slugify = (title: string): string =>
+  title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'untitled';
+
+/** Writes one `<title>.md` per note into `directory`, suffixing repeated titles. */
+export async function writeMarkdownFolder(
+  directory: string,
+  notes: StickyNote[],
+  notebookName: (note: StickyNote) => string | undefined,
+  attachments: AttachmentStore
+): Promise<void> {
+  await fs.promises.mkdir(directory, { recursive: true });
+  const used = new Set<string>();
+  for (const note of notes) {
+    const base = slugify(note.title);
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name);
+    await writeFileAtomic(path.join(directory, `${name}.md`), noteToMarkdown(note, notebookName(note)));
+  }
+  await copyAttachments(directory, notes, attachments);
+}
+
+export async function writeMarkdownFile(
+  filePath: string,
+  note: StickyNote,
+  notebookName: string | undefined,
+  attachments: AttachmentStore
+): Promise<void> {
+  await writeFileAtomic(filePath, noteToMarkdown(note, notebookName));
+  await copyAttachments(path.dirname(filePath), [note], attachments);
+}
+
+/** Reads a single `.md` file or every `.md` file directly inside a folder. */
+export async function readMarkdown(source: string, defaults: () => StickyNote): Promise<ParsedImport> {
+  const stat = await fs.promises.stat(source);
+  const files = stat.isDirectory()
+    ? (await fs.promises.readdir(source))
+      .filter(name => name.toLowerCase().endsWith('.md'))
+      .sort()
+      .map(name => path.join(source, name))
+    : [source];
+
+  const folder = stat.isDirectory() ? source : path.dirname(source);
+  const parsed: ParsedImport = {
+    source,
+    format: 'markdown',
+    notes: [],
+    invalid: [],
+    readAttachment: async (file) => {
+      try {
+        return await fs.promises.readFile(path.join(folder, ATTACHMENTS_FOLDER, attachmentFileValidator(file, 'file')));
+      } catch {
+        return null;
+      }
+    }
+  };
+  for (const file of files) {
+    try {
+      const text = await fs.promises.readFile(file, 'utf-8');
+      parsed.notes.push(markdownToNote(text, path.basename(file), defaults()));
+    } catch (error) {
+      parsed.invalid.push({ source: file, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return parsed;
+}
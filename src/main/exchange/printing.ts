@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { app, BrowserWindow } from 'electron';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../../shared/markdown';
+import type { StickyNote } from '../../shared/note';
+import type { Preferences } from '../../shared/preferences';
+import { FONT_FAMILIES } from '../../shared/typography';
+import { writeFileAtomic } from '../storage/atomicFile';
+
+/** The font preferences notes without their own text style are set in. */
+export type PrintFonts = Pick<Preferences, 'fontFamily' | 'fontSize'>;
+
+// Chromium lays pages out at 96 CSS pixels to the inch
+const PIXELS_PER_INCH = 96;
+// PNGs are drawn at twice the note's size so they stay sharp on Retina screens
+const PNG_SCALE = 2;
+// How long to wait for a resized offscreen window to paint before capturing it anyway
+const PAINT_TIMEOUT_MS = 2000;
+// Countries whose printers take US Letter paper; the rest of the world uses A4
+const LETTER_COUNTRIES = new Set(['US', 'CA', 'MX', 'PH', 'CL', 'CO', 'VE']);
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+function inlineHtml(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.text);
+      case 'break':
+        return '<br>';
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case 'strong':
+        return `<strong>${inlineHtml(node.children)}</strong>`;
+      case 'emphasis':
+        return `<em>${inlineHtml(node.children)}</em>`;
+      case 'strike':
+        return `<del>${inlineHtml(node.children)}</del>`;
+      // Links cannot be followed from an image, and navigation is blocked
+      // while rendering, so they are drawn as links but not made live
+      case 'link':
+        return `<span class="link">${inlineHtml(node.children)}</span>`;
+      case 'wikiLink':
+        return `<span class="link">${escapeHtml(node.title)}</span>`;
+    }
+  }).join('');
+}
+
+function blocksHtml(blocks: MarkdownBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${inlineHtml(block.children)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${inlineHtml(block.children)}</p>`;
+      case 'code':
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case 'quote':
+        return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+      case 'rule':
+        return '<hr>';
+      case 'list': {
+        const items = block.items.map(item => {
+          const indent = item.depth > 0 ? ` style="margin-left: ${item.depth * 1.25}em"` : '';
+          const task = item.task
+            ? `<input type="checkbox" disabled${item.task.checked ? ' checked' : ''}>`
+            : '';
+          const className = item.task ? ` class="task-item${item.task.checked ? ' done' : ''}"` : '';
+          return `<li${className}${indent}>${task}${inlineHtml(item.children)}</li>`;
+        }).join('');
+        return block.ordered ? `<ol>${items}</ol>` : `<ul>${items}</ul>`;
+      }
+    }
+  }).join('');
+}
+
+const STYLES = `
+* { box-sizing: border-box; }
+html, body { margin: 0; }
+body { -webkit-print-color-adjust: exact; color: #1d1d1f; }
+.note {
+  padding: 12px 14px;
+  overflow-wrap: anywhere;
+  line-height: 1.45;
+}
+.note-title { margin: 0 0 8px; font-size: 1.15em; font-weight: 600; }
+.note > .markdown > :first-child { margin-top: 0; }
+h1, h2, h3, h4, h5, h6 { margin: 0.8em 0 0.4em; line-height: 1.2; }
+h1 { font-size: 1.5em; }
+h2 { font-size: 1.3em; }
+h3 { font-size: 1.15em; }
+h4, h5, h6 { font-size: 1em; }
+p, ul, ol, pre, blockquote { margin: 0 0 0.6em; }
+ul, ol { padding-left: 1.4em; }
+code { padding: 1px 4px; border-radius: 4px; background: rgba(0, 0, 0, 0.06); font-family: 'SF Mono', Menlo, monospace; font-size: 0.9em; }
+pre { padding: 8px; border-radius: 6px; background: rgba(0, 0, 0, 0.06); white-space: pre-wrap; }
+pre code { padding: 0; background: none; }
+blockquote { padding-left: 10px; border-left: 3px solid rgba(0, 0, 0, 0.2); color: #555; }
+hr { border: none; border-top: 1px solid rgba(0, 0, 0, 0.2); }
+.link { color: #0a5fcc; text-decoration: underline; }
+.task-item { list-style: none; margin-left: -1.4em; }
+.task-item input { margin: 0 6px 0 0; }
+.task-item.done { color: #555; text-decoration: line-through; }
+.board { padding: 0; }
+.board .note {
+  display: inline-block;
+  vertical-align: top;
+  max-width: 100%;
+  margin: 0 12px 12px 0;
+  border-radius: 6px;
+  box-shadow: 0 0 0 1px rgba(0, 0, 0, 0.12);
+  break-inside: avoid;
+}
+`;
+
+/**
+ * One note as an HTML card, in its light color and text style. `boxed` notes
+ * keep their size as a minimum, so short notes still look like the note.
+ */
+function noteHtml(note: StickyNote, fonts: PrintFonts, boxed: boolean): string {
+  const typography = note.typography ?? {};
+  const style = [
+    `background: ${note.color}`,
+    `font-family: ${FONT_FAMILIES[typography.fontFamily ?? fonts.fontFamily].stack}`,
+    `font-size: ${typography.fontSize ?? fonts.fontSize}px`,
+    `text-align: ${typography.textAlign ?? 'left'}`,
+    boxed ? `width: ${note.width}px; min-height: ${note.height}px` : 'min-height: 100vh'
+  ].join('; ');
+  const title = note.title ? `<h1 class="note-title">${escapeHtml(note.title)}</h1>` : '';
+  return `<article class="note" style="${escapeHtml(style)}">${title}<div class="markdown">${blocksHtml(parseMarkdown(note.content))}</div></article>`;
+}
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+/**
+ * Renders notes to PDF and PNG files in a hidden, offscreen window, so
+ * exports look like the note whether or not it is open, and work from the
+ * command line with no window on screen.
+ */
+export class NotePrinter {
+  constructor(private readonly fonts: () => PrintFonts) {}
+
+  /** One page the size of the note, longer if its text runs past the bottom. */
+  async writeNotePdf(note: StickyNote, filePath: string): Promise<void> {
+    const data = await this.render(page(note.title, noteHtml(note, this.fonts(), false)), note.width, note.height, 1,
+      async window => {
+        const height = Math.max(note.height, await contentHeight(window));
+        return window.webContents.printToPDF({
+          printBackground: true,
+          pageSize: { width: note.width / PIXELS_PER_INCH, height: height / PIXELS_PER_INCH },
+          margins: { top: 0, bottom: 0, left: 0, right: 0 }
+        });
+      });
+    await writeFileAtomic(filePath, data);
+  }
+
+  /** The whole note as an image, longer than its window if its text runs past the bottom. */
+  async writeNotePng(note: StickyNote, filePath: string): Promise<void> {
+    const data = await this.render(page(note.title, noteHtml(note, this.fonts(), false)), note.width, note.height, PNG_SCALE,
+      async window => {
+        const height = Math.max(note.height, await contentHeight(window));
+        await resizeAndPaint(window, note.width * PNG_SCALE, height * PNG_SCALE);
+        return (await window.webContents.capturePage()).toPNG();
+      });
+    await writeFileAtomic(filePath, data);
+  }
+
+  /** `notes` as cards flowing across as many pages as they need; no note is split between pages. */
+  async writeBoard(notes: StickyNote[], filePath: string): Promise<void> {
+    const fonts = this.fonts();
+    const body = `<main class="board">${notes.map(note => noteHtml(note, fonts, true)).join('')}</main>`;
+    const data = await this.render(page('Sticky Notes', body), 800, 600, 1, window =>
+      window.webContents.printToPDF({
+        printBackground: true,
+        pageSize: LETTER_COUNTRIES.has(app.getLocaleCountryCode()) ? 'Letter' : 'A4'
+      }));
+    await writeFileAtomic(filePath, data);
+  }
+
+  /**
+   * Loads `html` in a hidden window `width` by `height` CSS pixels, drawn at
+   * `scale`, hands it to `use` and then closes it. The page is written to a
+   * temporary file because long notes exceed what a data URL can carry, in
+   * a directory of its own so exports running at once never share one.
+   */
+  private async render<T>(
+    html: string,
+    width: number,
+    height: number,
+    scale: number,
+    use: (window: BrowserWindow) => Promise<T>
+  ): Promise<T> {
+    const directory = await fs.promises.mkdtemp(path.join(app.getPath('temp'), 'sticky-notes-print-'));
+    const file = path.join(directory, 'page.html');
+    await fs.promises.writeFile(file, html, 'utf-8');
+    const window = new BrowserWindow({
+      width: Math.round(width * scale),
+      height: Math.round(height * scale),
+      useContentSize: true,
+      show: false,
+      webPreferences: {
+        offscreen: true,
+        sandbox: true,
+        contextIsolation: true,
+        nodeIntegration: false,
+        zoomFactor: scale
+      }
+    });
+    window.webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+    window.webContents.on('will-navigate', event => event.preventDefault());
+    try {
+      await window.loadFile(file);
+      return await use(window);
+    } finally {
+      window.destroy();
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+/** Height of the rendered page in CSS pixels. */
+async function contentHeight(window: BrowserWindow): Promise<number> {
+  const height: unknown = await window.webContents.executeJavaScript('document.documentElement.scrollHeight');
+  return typeof height === 'number' ? Math.ceil(height) : 0;
+}
+
+/**
+ * Resizes an offscreen window and waits for a frame of the new size, so a
+ * capture does not get the old one.
+ */
+function resizeAndPaint(window: BrowserWindow, width: number, height: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, PAINT_TIMEOUT_MS);
+    function onPaint(_event: Electron.Event, _dirty: Electron.Rectangle, image: Electron.NativeImage) {
+      const size = image.getSize();
+      if (size.width >= width && size.height >= height) done();
+    }
+    function done() {
+      clearTimeout(timer);
+      window.webContents.off('paint', onPaint);
+      resolve();
+    }
+    window.webContents.on('paint', onPaint);
+    window.setContentSize(Math.round(width), Math.round(height));
+    window.webContents.invalidate();
+  });
+}
@@ -0,0 +1,26 @@
+import type { ImportFormat } from '../../shared/exchange';
+import type { StickyNote } from '../../shared/note';
+
+/** The file or folder being imported is not in a format we can read. */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+export interface ImportedNote {
+  note: StickyNote;
+  /** Name of the notebook the note came from, used when its id is unknown here. */
+  notebookName?: string;
+}
+
+/** An import source read into memory and validated, ready to preview or apply. */
+export interface ParsedImport {
+  source: string;
+  format: ImportFormat;
+  notes: ImportedNote[];
+  invalid: { source: string; reason: string }[];
+  /** Content of an attachment the notes refer to, or null if the source lacks it. */
+  readAttachment(file: string): Promise<Uint8Array | null>;
+}
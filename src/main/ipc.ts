@@ -0,0 +1,78 @@
+import { ipcMain, type IpcMainInvokeEvent } from 'electron';
+import {
+  IpcError,
+  validateIpcArgs,
+  type IpcArgs,
+  type IpcChannel,
+  type IpcResponse,
+  type IpcResult
+} from '../shared/ipc';
+import { ImportFormatError } from './exchange';
+import {
+  AttachmentsEncryptedError,
+  DuplicateNotebookError,
+  DuplicateNoteError,
+  DuplicateTemplateError,
+  NotebookNotFoundError,
+  NoteNotFoundError,
+  StoreLockedError,
+  TemplateNotFoundError,
+  WrongPassphraseError
+} from './storage';
+
+export type IpcHandlers = {
+  [C in IpcChannel]: (
+    event: IpcMainInvokeEvent,
+    ...args: IpcArgs<C>
+  ) => IpcResult<C> | Promise<IpcResult<C>>;
+};
+
+function toIpcError(error: unknown): IpcError {
+  if (error instanceof NoteNotFoundError || error instanceof NotebookNotFoundError || error instanceof TemplateNotFoundError) {
+    return new IpcError('NOT_FOUND', error.message);
+  }
+  if (
+    error instanceof DuplicateNoteError || error instanceof DuplicateNotebookError || error instanceof DuplicateTemplateError
+    || error instanceof AttachmentsEncryptedError
+  ) {
+    return new IpcError('CONFLICT', error.message);
+  }
+  if (error instanceof ImportFormatError || error instanceof WrongPassphraseError) {
+    return new IpcError('INVALID_PAYLOAD', error.message);
+  }
+  if (error instanceof StoreLockedError) {
+    return new IpcError('LOCKED', error.message);
+  }
+  return IpcError.from(error);
+}
+
+/**
+ * Registers one handler per channel in the shared contract. Arguments are
+ * validated before the handler runs and every outcome is returned as an
+ * IpcResponse envelope, so renderer calls never hang on a missing handler
+ * or lose the error code on the way back. `guard` runs before every handler
+ * and may throw to refuse the call, e.g. while notes are locked.
+ */
+export function registerIpcHandlers(handlers: IpcHandlers, guard?: (channel: IpcChannel) => void): void {
+  for (const channel of Object.keys(handlers) as IpcChannel[]) {
+    const handler = handlers[channel] as (
+      event: IpcMainInvokeEvent,
+      ...args: unknown[]
+    ) => unknown;
+
+    ipcMain.handle(channel, async (event, ...rawArgs: unknown[]): Promise<IpcResponse<unknown>> => {
+      try {
+        const args = validateIpcArgs(channel, rawArgs) as unknown[];
+        guard?.(channel);
+        const value = await handler(event, ...args);
+        return { ok: true, value };
+      } catch (error) {
+        const ipcError = toIpcError(error);
+        if (ipcError.code === 'INTERNAL') {
+          console.error(`IPC handler for '${channel}' failed:`, error);
+        }
+        return { ok: false, error: ipcError.toJSON() };
+      }
+    });
+  }
+}
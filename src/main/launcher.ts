@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import { app, globalShortcut, Menu, Tray } from 'electron';
+import { IpcError } from '../shared/ipc';
+import { DEFAULT_LAUNCHER_SETTINGS, launcherSettingsValidator, type LauncherSettings } from '../shared/launcher';
+import type { StickyNote } from '../shared/note';
+import { writeFileAtomic } from './storage/atomicFile';
+import { createTrayIcon } from './trayIcon';
+
+const RECENT_NOTES = 8;
+
+/** What the tray menu and the shortcut do; implemented by the app. */
+export interface LauncherActions {
+  quickCapture(): void;
+  /** Live notes, or null while they are locked. */
+  listNotes(): Promise<StickyNote[] | null>;
+  openNote(noteId: string): void;
+  openManager(): void;
+  notesVisible(): boolean;
+  setNotesVisible(visible: boolean): void;
+}
+
+/**
+ * Ways into the app from outside its windows: the global quick-capture
+ * shortcut, the tray icon and its menu, and whether the app shows in the
+ * Dock or taskbar at all. Settings are kept in `launcher.json`.
+ */
+export class Launcher {
+  private settings: LauncherSettings = DEFAULT_LAUNCHER_SETTINGS;
+  private tray: Tray | null = null;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly settingsPath: string,
+    private readonly actions: LauncherActions
+  ) {}
+
+  async open(): Promise<void> {
+    try {
+      const text = await fs.promises.readFile(this.settingsPath, 'utf-8');
+      this.settings = launcherSettingsValidator(JSON.parse(text), 'launcher');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Ignoring unreadable launcher settings:', error);
+      }
+    }
+    this.tray = new Tray(createTrayIcon());
+    this.tray.setToolTip(app.getName());
+    // Another app may hold the shortcut; the tray still offers quick capture
+    try {
+      if (!this.register(this.settings.captureShortcut)) {
+        console.warn(`Quick capture shortcut ${this.settings.captureShortcut} is not available`);
+      }
+    } catch (error) {
+      console.warn('Ignoring quick capture shortcut:', error);
+    }
+    this.applyDockPresence();
+    await this.refresh();
+  }
+
+  getSettings(): LauncherSettings {
+    return { ...this.settings };
+  }
+
+  async setSettings(settings: LauncherSettings): Promise<LauncherSettings> {
+    const previous = this.settings;
+    const captureShortcut = settings.captureShortcut.trim();
+    if (captureShortcut !== previous.captureShortcut) {
+      this.unregister(previous.captureShortcut);
+      let registered = false;
+      try {
+        registered = this.register(captureShortcut);
+      } finally {
+        if (!registered) this.register(previous.captureShortcut);
+      }
+      if (!registered) {
+        throw new IpcError('CONFLICT', `${captureShortcut} is already used by another app`);
+      }
+    }
+    this.settings = { ...settings, captureShortcut };
+    await writeFileAtomic(this.settingsPath, JSON.stringify(this.settings, null, 2));
+    this.applyDockPresence();
+    await this.refresh();
+    return this.getSettings();
+  }
+
+  /** Rebuilds the tray menu soon; cheap to call on every note change. */
+  scheduleRefresh(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refresh().catch(error => console.error('Error updating tray menu:', error));
+    }, 500);
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.tray) return;
+    const notes = await this.actions.listNotes();
+    const recent = (notes ?? [])
+      .sort((a, b) => b.updated.localeCompare(a.updated))
+      .slice(0, RECENT_NOTES);
+    const visible = this.actions.notesVisible();
+
+    const template: Electron.MenuItemConstructorOptions[] = [
+      {
+        label: 'Quick Capture…',
+        accelerator: this.settings.captureShortcut || undefined,
+        click: () => this.actions.quickCapture()
+      },
+      { type: 'separator' }
+    ];
+    if (notes === null) {
+      template.push({ label: 'Unlock Notes…', click: () => this.actions.openManager() });
+    } else {
+      template.push(
+        { label: 'Recent Notes', enabled: false },
+        ...recent.map(note => ({
+          label: (note.title || note.content.split('\n')[0] || 'Untitled').slice(0, 60),
+          click: () => this.actions.openNote(note.id)
+        })),
+        { type: 'separator' },
+        {
+          label: visible ? 'Hide All Notes' : 'Show All Notes',
+          click: () => {
+            this.actions.setNotesVisible(!visible);
+            this.scheduleRefresh();
+          }
+        }
+      );
+    }
+    template.push(
+      { label: 'Notes Manager', click: () => this.actions.openManager() },
+      { type: 'separator' },
+      { label: 'Quit', click: () => app.quit() }
+    );
+    this.tray.setContextMenu(Menu.buildFromTemplate(template));
+  }
+
+  stop(): void {
+    clearTimeout(this.refreshTimer);
+    this.unregister(this.settings.captureShortcut);
+  }
+
+  private register(accelerator: string): boolean {
+    if (!accelerator) return true;
+    try {
+      return globalShortcut.register(accelerator, () => this.actions.quickCapture());
+    } catch {
+      throw new IpcError('INVALID_PAYLOAD', `${accelerator} is not a valid shortcut`);
+    }
+  }
+
+  private unregister(accelerator: string): void {
+    if (accelerator && globalShortcut.isRegistered(accelerator)) {
+      globalShortcut.unregister(accelerator);
+    }
+  }
+
+  /** Windows read `showInDock` when they open; this covers the Dock itself. */
+  private applyDockPresence(): void {
+    if (!app.dock) return;
+    if (this.settings.showInDock) {
+      app.dock.show().catch(error => console.error('Error showing Dock icon:', error));
+    } else {
+      app.dock.hide();
+    }
+  }
+}
@@ -1,49 +1,341 @@
-import { app, BrowserWindow, Menu, ipcMain, shell } from 'electron';
+import { app, BrowserWindow, clipboard, dialog, Menu, Notification, powerMonitor, protocol, screen, shell } from 'electron';
 import * as path from 'path';
-import * as fs from 'fs';
-
-interface StickyNote {
-  id: string;
-  content: string;
-  color: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  created: string;
-  updated: string;
-}
+import { Attachments } from './attachments';
+import {
+  CliUsageError,
+  commandLineArgs,
+  forwardedCommandValidator,
+  forwardToRunningInstance,
+  needsWindows,
+  parseCommand,
+  printResult,
+  refuseForwardedCommands,
+  replyToInstance,
+  runCommand,
+  usageFailure,
+  type CliCommand,
+  type CommandHost,
+  type CommandResult,
+  type ForwardedCommand
+} from './cli';
+import { parseDeepLink, type DeepLink } from './deepLinks';
+import { NoteExchange, NotePrinter } from './exchange';
+import { registerIpcHandlers } from './ipc';
+import { ATTACHMENT_SCHEME } from '../shared/attachment';
+import { DEEP_LINK_SCHEME, noteLink } from '../shared/deepLink';
+import type { LockState } from '../shared/encryption';
+import type { ExportFormat, ImportPreview, ImportSourceKind, NoteFileFormat } from '../shared/exchange';
+import { IpcError, type IpcChannel } from '../shared/ipc';
+import { isSafeLinkUrl } from '../shared/markdown';
+import { DEFAULT_NOTEBOOK_ID, normalizeTags } from '../shared/notebook';
+import { editConflicts, type NoteDraft, type NotePatch, type StickyNote } from '../shared/note';
+import type { PaletteColor } from '../shared/palette';
+import type { ReminderInput } from '../shared/reminder';
+import type { SyncStatus } from '../shared/sync';
+import { draftFromTemplate, type NoteTemplate } from '../shared/template';
+import { FONT_FAMILIES, TEXT_ALIGNMENTS, type FontFamily, type NoteTypography } from '../shared/typography';
+import type { WindowPlacement, Workspace } from '../shared/workspace';
+import { Launcher } from './launcher';
+import { Notebooks } from './notebooks';
+import { COLLAPSED_NOTE_HEIGHT, NoteGroups } from './noteGroups';
+import {
+  cascadeBounds,
+  gatherBounds,
+  placeWindow,
+  sameRect,
+  tileBounds,
+  type DisplayArea,
+  type Placement,
+  type Rect
+} from './placement';
+import { PreferenceStore, readPaletteFile, writePaletteFile } from './preferences';
+import { ReminderScheduler } from './reminderScheduler';
+import {
+  AttachmentStore,
+  createNoteRepository,
+  isStorageBackend,
+  NotebookStore,
+  RecoveryJournal,
+  NoteNotFoundError,
+  RevisionStore,
+  StoreLockedError,
+  TemplateNotFoundError,
+  TemplateStore,
+  type NoteEvent,
+  type NoteRepository
+} from './storage';
+import { SearchIndex } from './searchIndex';
+import { FolderSync } from './sync';
+import { Trash } from './trash';
+import { Vault } from './vault';
+import { WikiLinks } from './wikiLinks';
+import { Workspaces } from './workspaces';
+
+// Channels that work while notes are locked; everything else needs the key
+const LOCKED_CHANNELS: ReadonlySet<IpcChannel> = new Set<IpcChannel>([
+  'get-lock-state',
+  'unlock',
+  'lock',
+  'save-all',
+  // Preferences hold no note contents
+  'get-preferences',
+  'set-preferences',
+  'open-preferences',
+  'import-palette',
+  'export-palette'
+]);
+
+// How long quitting or locking waits for a window to save its edits
+const FLUSH_TIMEOUT_MS = 5000;
+
+// Save dialog names and extensions for the formats a single note exports as
+const NOTE_FILE_TYPES: Record<NoteFileFormat, { name: string; extension: string }> = {
+  markdown: { name: 'Markdown', extension: 'md' },
+  pdf: { name: 'PDF', extension: 'pdf' },
+  png: { name: 'PNG', extension: 'png' }
+};
 
 class StickyNotesApp {
   private windows: Map<string, BrowserWindow> = new Map();
-  private notesFilePath: string;
+  // Windows shown away from their disconnected display, with the bounds they
+  // were given, so that position is not saved over the note's own
+  private displaced = new Map<string, Rect>();
+  private managerWindow: BrowserWindow | null = null;
+  private captureWindow: BrowserWindow | null = null;
+  private preferencesWindow: BrowserWindow | null = null;
+  private repository: NoteRepository;
+  private revisions: RevisionStore;
+  private recovery: RecoveryJournal;
+  private templates: TemplateStore;
+  private trash: Trash;
+  private notebooks: Notebooks;
+  private exchange: NoteExchange;
+  private searchIndex = new SearchIndex();
+  private groups: NoteGroups;
+  private attachments: Attachments;
+  private wikiLinks: WikiLinks;
+  private reminders: ReminderScheduler;
+  private folderSync: FolderSync;
+  private vault: Vault;
+  private workspaces: Workspaces;
+  private launcher: Launcher;
+  private preferences: PreferenceStore;
+  private locking = false;
+  // Bumped on every repository change and sent along with it
+  private noteVersion = 0;
+  // Electron drops click handlers of notifications that get garbage collected
+  private notifications = new Set<Notification>();
+  private quitting = false;
+  // stickynotes:// links that arrive on macOS before the app has started
+  private pendingLinks: string[] | null = [];
+  // Windows asked to save their edits, by webContents id, until they confirm
+  private flushWaiters = new Map<number, () => void>();
 
   constructor() {
-    this.notesFilePath = path.join(app.getPath('userData'), 'notes.json');
+    // STICKY_NOTES_USER_DATA gives an instance its own store, so two can run
+    // side by side, e.g. to try out folder sync on one machine
+    if (process.env.STICKY_NOTES_USER_DATA) {
+      app.setPath('userData', path.resolve(process.env.STICKY_NOTES_USER_DATA));
+    }
+    const userDataPath = app.getPath('userData');
+    this.vault = new Vault(path.join(userDataPath, 'encryption.json'));
+    // STICKY_NOTES_STORAGE=journal selects the append-only backend for large boards
+    const backend = process.env.STICKY_NOTES_STORAGE;
+    this.repository = createNoteRepository(isStorageBackend(backend) ? backend : 'file', userDataPath, this.vault);
+    this.revisions = new RevisionStore({ filePath: path.join(userDataPath, 'revisions.json'), codec: this.vault });
+    this.recovery = new RecoveryJournal({ filePath: path.join(userDataPath, 'recovery.json'), codec: this.vault });
+    this.templates = new TemplateStore({ filePath: path.join(userDataPath, 'templates.json'), codec: this.vault });
+    this.preferences = new PreferenceStore(path.join(userDataPath, 'preferences.json'), (preferences) => {
+      for (const window of BrowserWindow.getAllWindows()) {
+        window.webContents.send('preferences-changed', preferences);
+      }
+    });
+    this.launcher = new Launcher(path.join(userDataPath, 'launcher.json'), {
+      quickCapture: () => this.openQuickCapture(),
+      listNotes: async () => this.vault.isLocked() ? null : this.loadNotes(),
+      openNote: (noteId) => {
+        this.openNoteWindow(noteId)
+          .then(() => this.windows.get(noteId)?.focus())
+          .catch(error => console.error('Error opening note:', error));
+      },
+      openManager: () => this.openManagerWindow(),
+      notesVisible: () => [...this.windows.values()].some(window => !window.isDestroyed() && window.isVisible()),
+      setNotesVisible: (visible) => this.setNotesVisible(visible)
+    });
+    this.groups = new NoteGroups(this.repository, this.windows, () => this.generateId());
+    this.workspaces = new Workspaces(path.join(userDataPath, 'workspaces.json'), this.vault);
+    this.trash = new Trash(this.repository, this.revisions, path.join(userDataPath, 'trash.json'));
+    const notebookStore = new NotebookStore({ filePath: path.join(userDataPath, 'notebooks.json'), codec: this.vault });
+    this.notebooks = new Notebooks(this.repository, notebookStore);
+    const attachmentStore = new AttachmentStore(path.join(userDataPath, 'attachments'), () => this.vault.getState().encrypted);
+    this.attachments = new Attachments(this.repository, attachmentStore);
+    this.wikiLinks = new WikiLinks((noteId, patch) => this.updateNote(noteId, patch), () => {
+      for (const window of BrowserWindow.getAllWindows()) {
+        window.webContents.send('links-changed');
+      }
+    });
+    this.exchange = new NoteExchange(
+      this.repository,
+      this.notebooks,
+      this.revisions,
+      attachmentStore,
+      new NotePrinter(() => this.preferences.get()),
+      () => this.buildNote()
+    );
+    this.reminders = new ReminderScheduler(this.repository, {
+      notify: (note, missed) => this.showReminder(note, missed)
+    });
+    this.folderSync = new FolderSync(this.repository, notebookStore, {
+      configPath: path.join(userDataPath, 'sync.json'),
+      statePath: path.join(userDataPath, 'sync-state.json'),
+      newId: () => this.generateId(),
+      attachments: attachmentStore,
+      onSynced: (status, changed) => this.managerWindow?.webContents.send('sync-status', status, changed)
+    });
     this.setupApp();
   }
 
+  /**
+   * Runs the command line: a second launch hands it to the running instance,
+   * commands that need no window run headless against the store, and
+   * anything else starts the app.
+   */
   private setupApp(): void {
-    app.whenReady().then(() => {
+    // Attachments are served to renderers from main, never read as file:// URLs
+    protocol.registerSchemesAsPrivileged([
+      { scheme: ATTACHMENT_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+    ]);
+
+    // macOS hands links over as events, including the one that launched the app
+    app.on('open-url', (event, url) => {
+      event.preventDefault();
+      if (this.pendingLinks) {
+        this.pendingLinks.push(url);
+      } else {
+        this.followLink(url).catch(error => console.error('Error opening link:', error));
+      }
+    });
+
+    const args = commandLineArgs(process.argv, process.defaultApp === true);
+    let command: CliCommand | null;
+    try {
+      command = parseCommand(args);
+    } catch (error) {
+      if (!(error instanceof CliUsageError)) throw error;
+      this.exitWith(Promise.resolve(usageFailure(error)));
+      return;
+    }
+    if (command?.name === 'help') {
+      this.exitWith(runCommand(command, this.commandHost(), process.cwd()));
+      return;
+    }
+    forwardToRunningInstance(args)
+      .then(result => {
+        if (result) {
+          this.exitWith(Promise.resolve(result));
+        } else if (command && !needsWindows(command)) {
+          this.runHeadless(command);
+        } else {
+          this.start(command);
+        }
+      })
+      .catch(error => {
+        console.error('Error starting:', error);
+        app.exit(1);
+      });
+  }
+
+  private start(command: CliCommand | null): void {
+    const started = app.whenReady().then(async () => {
       this.createMenu();
+      protocol.handle(ATTACHMENT_SCHEME, request => this.vault.isLocked()
+        ? new Response(null, { status: 403 })
+        : this.attachments.respond(request.url));
+      try {
+        await this.vault.open();
+        await this.folderSync.open();
+        await this.launcher.open();
+        await this.preferences.open();
+        this.createMenu();
+        this.repository.subscribe(event => this.searchIndex.apply(event));
+        this.repository.subscribe(event => this.groups.apply(event));
+        this.repository.subscribe(event => this.attachments.apply(event));
+        this.repository.subscribe(event => this.wikiLinks.apply(event));
+        this.repository.subscribe(() => this.launcher.scheduleRefresh());
+        this.repository.subscribe(event => this.broadcastNoteEvent(event));
+        // Encrypted notes stay unread until the passphrase is entered
+        if (!this.vault.isLocked()) {
+          await this.openStores();
+        }
+      } catch (error) {
+        console.error('Error loading notes:', error);
+        dialog.showErrorBox('Could not load notes', `${error instanceof Error ? error.message : error}\n\nYour notes file has not been modified.`);
+        app.exit(1);
+        return;
+      }
       this.setupIpcHandlers();
-      this.loadAndDisplayNotes();
+      this.schedulePurge();
+      this.scheduleAutoLock();
+      if (this.vault.isLocked()) {
+        this.openManagerWindow();
+      } else {
+        await this.startSession();
+      }
+      this.watchDisplays();
 
       app.on('activate', () => {
         if (BrowserWindow.getAllWindows().length === 0) {
-          this.createNewNote();
+          this.newNoteFromMenu();
         }
       });
+      // Always on Top follows whichever note window has focus
+      app.on('browser-window-focus', () => this.updateAlwaysOnTopItem());
+      app.on('browser-window-blur', () => this.updateAlwaysOnTopItem());
+      this.registerLinkScheme();
+      const links = this.pendingLinks ?? [];
+      this.pendingLinks = null;
+      for (const url of links) {
+        this.followLink(url).catch(error => console.error('Error opening link:', error));
+      }
+      if (command) {
+        await printResult(await this.runCommandLine(command, process.cwd()));
+      }
     });
 
-    app.on('window-all-closed', () => {
-      if (process.platform !== 'darwin') {
-        app.quit();
-      }
+    // Later launches hand their command line over here and wait for the result
+    app.on('second-instance', (_event, _argv, _workingDirectory, data) => {
+      started
+        .then(() => this.runForwarded(data))
+        .catch(error => console.error('Error running command line:', error));
     });
 
-    app.on('before-quit', () => {
-      this.saveAllNotes();
+    // The tray keeps the app reachable with every window closed, so closing
+    // the last one does not quit on any platform
+    app.on('window-all-closed', () => undefined);
+
+    // Hold the quit until pending writes have reached the disk
+    app.on('before-quit', (event) => {
+      if (this.quitting) return;
+      event.preventDefault();
+      this.quitting = true;
+      this.reminders.stop();
+      this.launcher.stop();
+      this.flushWindows()
+        .then(() => this.saveAllNotes())
+        .then(() => this.folderSync.stop())
+        // While locked there is nothing in memory to save, and nothing could be encrypted
+        .then(() => this.vault.isLocked()
+          ? undefined
+          : Promise.all([
+            this.repository.close(),
+            this.revisions.flush(),
+            this.recovery.flush(),
+            this.templates.flush(),
+            this.notebooks.flush(),
+            this.workspaces.flush()
+          ]))
+        .catch(error => console.error('Error saving notes on quit:', error))
+        .finally(() => app.quit());
     });
   }
 
@@ -55,7 +347,11 @@ class StickyNotesApp {
           {
             label: 'New Note',
             accelerator: 'CmdOrCtrl+N',
-            click: () => this.createNewNote()
+            click: () => this.newNoteFromMenu()
+          },
+          {
+            label: 'New from Template',
+            submenu: this.templateMenuItems()
           },
           {
             label: 'Close Note',
@@ -63,13 +359,73 @@ class StickyNotesApp {
             role: 'close'
           },
           { type: 'separator' },
+          {
+            label: 'Import Notes…',
+            click: () => this.importFromMenu('file')
+          },
+          {
+            label: 'Import Markdown Folder…',
+            click: () => this.importFromMenu('folder')
+          },
+          { type: 'separator' },
+          {
+            label: 'Export All Notes…',
+            click: () => this.exportFromMenu('bundle')
+          },
+          {
+            label: 'Export All as Markdown…',
+            click: () => this.exportFromMenu('markdown')
+          },
+          {
+            label: 'Print All Notes to PDF…',
+            click: () => this.exportFromMenu('pdf')
+          },
+          {
+            label: 'Export Note as Markdown…',
+            click: (_, browserWindow) => this.exportNoteFromMenu('markdown', browserWindow)
+          },
+          {
+            label: 'Export Note as PDF…',
+            click: (_, browserWindow) => this.exportNoteFromMenu('pdf', browserWindow)
+          },
+          {
+            label: 'Export Note as PNG…',
+            click: (_, browserWindow) => this.exportNoteFromMenu('png', browserWindow)
+          },
+          { type: 'separator' },
+          {
+            label: 'Lock Notes',
+            accelerator: 'CmdOrCtrl+Shift+L',
+            click: () => this.lockNotes().catch(error => console.error('Error locking notes:', error))
+          },
+          { type: 'separator' },
+          {
+            label: 'Sync with Folder…',
+            click: () => this.chooseSyncFolder(BrowserWindow.getFocusedWindow() ?? undefined)
+              .catch(error => dialog.showErrorBox('Sync failed', error instanceof Error ? error.message : String(error)))
+          },
+          {
+            label: 'Sync Now',
+            click: () => this.folderSync.syncNow().catch(error => console.error('Error syncing notes:', error))
+          },
+          {
+            label: 'Stop Syncing',
+            click: () => this.folderSync.setDirectory(null).catch(error => console.error('Error stopping sync:', error))
+          },
+          { type: 'separator' },
+          // macOS keeps Preferences in the app menu instead
+          ...(process.platform === 'darwin' ? [] : [
+            {
+              label: 'Preferences…',
+              accelerator: 'CmdOrCtrl+,',
+              click: () => this.openPreferencesWindow()
+            },
+            { type: 'separator' as const }
+          ]),
           {
             label: 'Quit',
             accelerator: process.platform === 'darwin' ? 'Cmd+Q' : 'Ctrl+Q',
-            click: () => {
-              this.saveAllNotes();
-              app.quit();
-            }
+            click: () => app.quit()
           }
         ]
       },
@@ -82,7 +438,7 @@ class StickyNotesApp {
           { role: 'cut' },
           { role: 'copy' },
           { role: 'paste' },
-          { role: 'selectall' }
+          { role: 'selectAll' }
         ]
       },
       {
@@ -105,12 +461,37 @@ class StickyNotesApp {
           { role: 'minimize' },
           { role: 'close' },
           {
+            label: 'Notes Manager',
+            accelerator: 'CmdOrCtrl+Shift+M',
+            click: () => this.openManagerWindow()
+          },
+          {
+            label: 'Workspaces',
+            submenu: this.workspaceMenu()
+          },
+          { type: 'separator' },
+          {
+            label: 'Cascade Notes',
+            click: () => this.arrangeNotes('cascade')
+          },
+          {
+            label: 'Tile Notes',
+            click: () => this.arrangeNotes('tile')
+          },
+          {
+            label: 'Gather Notes onto This Display',
+            click: () => this.arrangeNotes('gather')
+          },
+          { type: 'separator' },
+          {
+            id: 'always-on-top',
             label: 'Always on Top',
             type: 'checkbox',
-            checked: true,
             click: (menuItem, browserWindow) => {
-              if (browserWindow) {
-                browserWindow.setAlwaysOnTop(menuItem.checked);
+              const noteId = [...this.windows].find(([, window]) => window === browserWindow)?.[0];
+              if (noteId) {
+                this.updateNote(noteId, { alwaysOnTop: menuItem.checked })
+                  .catch(error => console.error('Error updating note:', error));
               }
             }
           }
@@ -124,6 +505,12 @@ class StickyNotesApp {
         submenu: [
           { role: 'about' },
           { type: 'separator' },
+          {
+            label: 'Preferences…',
+            accelerator: 'CmdOrCtrl+,',
+            click: () => this.openPreferencesWindow()
+          },
+          { type: 'separator' },
           { role: 'services' },
           { type: 'separator' },
           { role: 'hide' },
@@ -137,122 +524,1388 @@ class StickyNotesApp {
 
     const menu = Menu.buildFromTemplate(template);
     Menu.setApplicationMenu(menu);
+    this.updateAlwaysOnTopItem();
+  }
+
+  /** Shows the focused note's own setting in the Always on Top menu item. */
+  private updateAlwaysOnTopItem(): void {
+    const item = Menu.getApplicationMenu()?.getMenuItemById('always-on-top');
+    if (!item) return;
+    const focused = BrowserWindow.getFocusedWindow();
+    const isNote = !!focused && [...this.windows.values()].includes(focused);
+    item.enabled = isNote;
+    item.checked = isNote && focused.isAlwaysOnTop();
+  }
+
+  /** Menu items for switching to and saving workspaces; rebuilt when they change. */
+  private workspaceMenu(): Electron.MenuItemConstructorOptions[] {
+    const { activeId, workspaces } = this.workspaces.list();
+    const active = workspaces.find(workspace => workspace.id === activeId);
+    const items: Electron.MenuItemConstructorOptions[] = workspaces.map(workspace => ({
+      label: workspace.name,
+      type: 'radio',
+      checked: workspace.id === activeId,
+      click: () => this.switchWorkspace(workspace.id)
+        .catch(error => dialog.showErrorBox('Could not switch workspace', error instanceof Error ? error.message : String(error)))
+    }));
+    if (items.length > 0) {
+      items.push({ type: 'separator' });
+    }
+    items.push(
+      {
+        label: active ? `Save Layout to “${active.name}”` : 'Save Layout',
+        enabled: !!active,
+        click: () => active && this.saveWorkspace(active.id).catch(error => console.error('Error saving workspace:', error))
+      },
+      {
+        label: 'Manage Workspaces…',
+        click: () => this.openManagerWindow()
+      }
+    );
+    return items;
   }
 
   private setupIpcHandlers(): void {
-    ipcMain.handle('save-note', async (event, note: StickyNote) => {
-      await this.saveNote(note);
+    registerIpcHandlers({
+      'load-notes': () => this.loadNotes(),
+      'create-note': (_, draft) => this.createNote(draft),
+      'update-note': (_, id, patch, base) => this.updateNote(id, patch, base),
+      'journal-edits': (_, id, patch) => this.recovery.record(id, patch),
+      'list-unsaved-edits': () => this.recovery.listRecovered(),
+      'recover-edits': (_, id) => {
+        const edits = this.recovery.takeRecovered(id);
+        if (!edits) {
+          throw new IpcError('NOT_FOUND', `Note ${id} has no unsaved edits`);
+        }
+        return this.updateNote(id, edits.patch).then(async note => {
+          await this.wikiLinks.commitRename(id);
+          return note;
+        });
+      },
+      'discard-edits': (_, id) => {
+        this.recovery.takeRecovered(id);
+        return this.recovery.discard(id);
+      },
+      'edits-flushed': (event) => {
+        this.flushWaiters.get(event.sender.id)?.();
+      },
+      'delete-note': (_, id) => this.deleteNote(id),
+      // The note's window picks the change up from the repository event
+      'toggle-always-on-top': (_, id, alwaysOnTop) => this.updateNote(id, { alwaysOnTop }),
+      'open-note-window': (_, id) => this.openNoteWindow(id),
+      'copy-note-link': async (_, id) => {
+        const note = await this.getNote(id);
+        if (!note || note.deletedAt) {
+          throw new IpcError('NOT_FOUND', `Note ${id} does not exist`);
+        }
+        clipboard.writeText(noteLink(id));
+        return noteLink(id);
+      },
+      'save-all': () => this.saveAllNotes(),
+      'list-trash': () => this.trash.list(),
+      'restore-note': (_, id) => this.trash.restore(id),
+      'purge-note': (_, id) => this.trash.purge(id),
+      'empty-trash': () => this.trash.empty(),
+      'get-trash-settings': () => this.trash.getSettings(),
+      'set-trash-settings': (_, settings) => this.trash.setSettings(settings),
+      'list-revisions': (_, noteId) => this.revisions.list(noteId),
+      'restore-revision': (_, noteId, revisionId) => this.restoreRevision(noteId, revisionId),
+      'search-notes': (_, query) => this.searchIndex.search(query),
+      'set-due-date': (_, id, dueAt) => this.repository.update(id, { dueAt: dueAt ?? undefined }),
+      'set-reminder': (_, id, reminder) => this.setReminder(id, reminder),
+      'set-note-typography': (_, id, typography) => this.setNoteTypography(id, typography),
+      'list-notebooks': () => this.notebooks.list(),
+      'create-notebook': (_, name) => this.notebooks.create(name),
+      'rename-notebook': (_, id, name) => this.notebooks.rename(id, name),
+      'merge-notebooks': (_, sourceId, targetId) => this.notebooks.merge(sourceId, targetId),
+      'delete-notebook': (_, id) => this.notebooks.delete(id),
+      'list-tags': () => this.notebooks.listTags(),
+      'rename-tag': (_, from, to) => this.notebooks.renameTag(from, to),
+      'set-notebook-windows-visible': (_, notebookId, visible) => this.setNotebookWindowsVisible(notebookId, visible),
+      'export-notes': (event, format, noteIds) =>
+        this.exportNotes(format, noteIds, BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'export-note': (event, noteId, format) =>
+        this.exportNote(noteId, format, BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'choose-import': (event, kind) =>
+        this.chooseImport(kind, BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'apply-import': (_, token, strategy) => this.exchange.apply(token, strategy),
+      'get-sync-status': () => this.folderSync.getStatus(),
+      'choose-sync-folder': (event) =>
+        this.chooseSyncFolder(BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'stop-sync': () => this.folderSync.setDirectory(null),
+      'sync-now': () => this.folderSync.syncNow(),
+      'get-lock-state': () => this.vault.getState(),
+      'unlock': (_, passphrase) => this.unlockNotes(passphrase),
+      'lock': () => this.lockNotes(),
+      'enable-encryption': (_, passphrase) => this.enableEncryption(passphrase),
+      'disable-encryption': async (_, passphrase) => {
+        await this.vault.disable(passphrase, () => this.rewriteStores());
+        return this.broadcastLockState();
+      },
+      'change-passphrase': async (_, current, next) => {
+        await this.vault.changePassphrase(current, next, () => this.rewriteStores());
+        return this.broadcastLockState();
+      },
+      'set-auto-lock': async (_, minutes) => {
+        await this.vault.setAutoLock(minutes);
+        return this.broadcastLockState();
+      },
+      'group-notes': (_, noteIds) => this.groups.group(noteIds),
+      'ungroup-note': (_, noteId) => this.groups.ungroup(noteId),
+      'set-group-collapsed': (_, groupId, collapsed) => this.groups.setCollapsed(groupId, collapsed),
+      'set-group-color': (_, groupId, color) => this.groups.setColor(groupId, color),
+      'close-group': (_, groupId) => this.groups.close(groupId),
+      'add-attachment': (_, id, name, type, data) => this.attachments.add(id, name, type, data),
+      'remove-attachment': (_, id, file) => this.attachments.remove(id, file),
+      'open-attachment': (_, id, file) => this.attachments.open(id, file),
+      'get-note-links': (_, id) => this.wikiLinks.get(id),
+      'commit-note-title': (_, id) => this.wikiLinks.commitRename(id),
+      'open-wiki-link': (_, title) => {
+        const target = this.wikiLinks.resolve(title);
+        if (!target) {
+          throw new IpcError('NOT_FOUND', `No note is titled “${title}”`);
+        }
+        return this.openNoteWindow(target.id);
+      },
+      'list-templates': () => this.templates.list(),
+      'create-note-from-template': (_, templateId, draft) => this.createNoteFromTemplate(templateId, draft),
+      'save-template': (_, noteId, name) => this.afterTemplateChange(this.saveTemplate(noteId, name)),
+      'rename-template': (_, id, name) => this.afterTemplateChange(this.templates.rename(id, name)),
+      'delete-template': (_, id) => this.afterTemplateChange(this.templates.remove(id)),
+      'list-workspaces': () => this.workspaces.list(),
+      'get-preferences': () => this.preferences.get(),
+      'set-preferences': (_, preferences) => this.preferences.set(preferences),
+      'open-preferences': () => {
+        this.openPreferencesWindow();
+      },
+      'import-palette': (event) => this.importPalette(BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'export-palette': (event) => this.exportPalette(BrowserWindow.fromWebContents(event.sender) ?? undefined),
+      'get-launcher-settings': () => this.launcher.getSettings(),
+      'set-launcher-settings': async (_, settings) => {
+        const saved = await this.launcher.setSettings(settings);
+        for (const window of BrowserWindow.getAllWindows()) {
+          window.setSkipTaskbar(!saved.showInDock);
+        }
+        return saved;
+      },
+      'create-workspace': (_, name) => this.afterWorkspaceChange(this.workspaces.create(name, this.captureLayout())),
+      'save-workspace': (_, id) => this.saveWorkspace(id),
+      'rename-workspace': (_, id, name) => this.afterWorkspaceChange(this.workspaces.rename(id, name)),
+      'delete-workspace': (_, id) => this.afterWorkspaceChange(this.workspaces.delete(id)),
+      'switch-workspace': (_, id) => this.switchWorkspace(id),
+      'save-note': (_, note) => this.saveNote(note),
+      'get-note': (_, id) => this.getNote(id),
+      'create-new-note': () => {
+        this.createNewNote();
+      }
+    }, channel => {
+      if ((this.vault.isLocked() || this.locking) && !LOCKED_CHANNELS.has(channel)) {
+        throw new StoreLockedError();
+      }
+    });
+  }
+
+  /**
+   * Reads the stores into memory; with encryption on, only once unlocked.
+   * If any step fails, the stores
+   * already opened are closed again, as when locking, so decrypted notes
+   * and history do not stay in memory while the notes count as locked.
+   */
+  private async openStores(): Promise<void> {
+    // Only stores that opened are closed; closing writes them back, and one
+    // that failed to open would be written over empty
+    const opened: { close(): Promise<void> }[] = [];
+    try {
+      for (const store of [this.repository, this.revisions, this.recovery, this.templates, this.workspaces]) {
+        await store.open();
+        opened.push(store);
+      }
+      await this.trash.open();
+      await this.notebooks.open();
+      opened.push(this.notebooks);
+      const notes = await this.repository.list();
+      await this.recovery.prune(notes);
+      this.searchIndex.rebuild(notes);
+      this.groups.rebuild(notes);
+      this.wikiLinks.rebuild(notes);
+    } catch (error) {
+      await Promise.allSettled(opened.map(store => store.close()));
+      this.searchIndex.rebuild([]);
+      this.groups.rebuild([]);
+      this.wikiLinks.rebuild([]);
+      throw error;
+    }
+    this.attachments.sweep().catch(error => console.error('Error removing unused attachments:', error));
+  }
+
+  /** Starts reminders and sync, and resolves once the notes are on screen. */
+  private startSession(): Promise<void> {
+    // The File menu lists the templates saved with the notes
+    this.createMenu();
+    this.reminders.start().catch(error => console.error('Error starting reminders:', error));
+    this.folderSync.start().catch(error => console.error('Error starting sync:', error));
+    return this.loadAndDisplayNotes()
+      .then(() => {
+        // Edits cut off by a crash are offered back in the manager
+        if (this.recovery.listRecovered().length > 0) {
+          this.openManagerWindow();
+        }
+      })
+      .catch(error => console.error('Error showing notes:', error));
+  }
+
+  /**
+   * Runs a command against the note store without showing anything, for
+   * when no instance is running, then exits with the command's status.
+   */
+  private runHeadless(command: CliCommand): void {
+    // PDF and PNG exports render in a hidden window; closing it must not quit
+    app.on('window-all-closed', () => undefined);
+    // This process holds the single-instance lock until the command finishes
+    refuseForwardedCommands();
+    this.exitWith(app.whenReady().then(async () => {
+      app.dock?.hide();
+      await this.vault.open();
+      await this.preferences.open();
+      if (this.vault.isLocked()) {
+        return this.runCommandLine(command, process.cwd());
+      }
+      await this.openStores();
+      const result = await this.runCommandLine(command, process.cwd());
+      await Promise.all([this.repository.close(), this.revisions.flush(), this.notebooks.flush()]);
+      return result;
+    }));
+  }
+
+  /** Runs a command handed over by a later launch and sends that launch the result. */
+  private async runForwarded(data: unknown): Promise<void> {
+    let request: ForwardedCommand;
+    try {
+      request = forwardedCommandValidator(data, 'command');
+    } catch {
+      // A launch by a version without the command line just brings the app forward
+      this.openManagerWindow();
+      return;
+    }
+    let result: CommandResult;
+    try {
+      const command = parseCommand(request.args);
+      if (command) {
+        result = await this.runCommandLine(command, request.cwd);
+      } else {
+        this.openManagerWindow();
+        result = { exitCode: 0, stdout: '', stderr: '' };
+      }
+    } catch (error) {
+      if (!(error instanceof CliUsageError)) throw error;
+      result = usageFailure(error);
+    }
+    replyToInstance(request.replyTo, result);
+  }
+
+  private runCommandLine(command: CliCommand, cwd: string): Promise<CommandResult> {
+    if (command.name !== 'help' && (this.vault.isLocked() || this.locking)) {
+      return Promise.resolve({ exitCode: 1, stdout: '', stderr: `${new StoreLockedError().message}\n` });
+    }
+    return runCommand(command, this.commandHost(), cwd);
+  }
+
+  private commandHost(): CommandHost {
+    return {
+      createNote: (draft) => this.createNote(draft),
+      listNotes: () => this.loadNotes(),
+      openNote: async (noteId) => {
+        await this.openNoteWindow(noteId);
+        app.focus({ steal: true });
+        this.windows.get(noteId)?.focus();
+      },
+      openLink: (url) => this.followLink(url),
+      createBundle: (noteIds) => this.exchange.createBundle(noteIds),
+      exportNotes: (format, target, noteIds) => this.exchange.exportNotes(format, target, noteIds),
+      exportNote: (noteId, format, target) => this.exchange.exportNote(noteId, format, target)
+    };
+  }
+
+  private registerLinkScheme(): void {
+    // Started as `electron .`, the app path has to be part of the registration
+    const registered = process.defaultApp
+      ? app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME, process.execPath, [path.resolve(process.argv[1])])
+      : app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME);
+    if (!registered) {
+      console.warn(`Could not register ${DEEP_LINK_SCHEME}:// links`);
+    }
+  }
+
+  /**
+   * Follows a stickynotes:// link. Links are mostly clicked away from any
+   * terminal, so a bad one is reported in a dialog as well.
+   */
+  private async followLink(url: string): Promise<void> {
+    try {
+      await this.openDeepLink(parseDeepLink(url));
+    } catch (error) {
+      dialog.showErrorBox('Cannot open link', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  private async openDeepLink(link: DeepLink): Promise<void> {
+    // The lock screen comes first; the link has to be clicked again after unlocking
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    app.focus({ steal: true });
+    switch (link.action) {
+      case 'note':
+        await this.openNoteWindow(link.noteId);
+        this.windows.get(link.noteId)?.focus();
+        break;
+      case 'new':
+        this.createNewNote(await this.createNote(link.draft));
+        break;
+      case 'search': {
+        const window = await this.showManagerWindow();
+        window.webContents.send('show-search', link.query);
+        break;
+      }
+    }
+  }
+
+  /** Prints a command's result to this process's terminal and exits with its status. */
+  private exitWith(result: Promise<CommandResult>): void {
+    result
+      .catch((error): CommandResult => ({
+        exitCode: 1,
+        stdout: '',
+        stderr: `${error instanceof Error ? error.message : String(error)}\n`
+      }))
+      .then(async printed => {
+        await printResult(printed);
+        app.exit(printed.exitCode);
+      });
+  }
+
+  private async unlockNotes(passphrase: string): Promise<LockState> {
+    if (!this.vault.isLocked()) {
+      return this.vault.getState();
+    }
+    await this.vault.unlock(passphrase);
+    try {
+      await this.openStores();
+    } catch (error) {
+      // openStores has closed whatever it opened; forget the key as well
+      this.vault.lock();
+      throw error;
+    }
+    // Turning encryption on or off may have been interrupted part way
+    await this.vault.resume(() => this.rewriteStores())
+      .catch(error => console.error('Error finishing re-encrypting notes:', error));
+    this.startSession();
+    return this.broadcastLockState();
+  }
+
+  /**
+   * Saves everything, then drops decrypted notes and history from memory and
+   * forgets the key. Open note windows stay where they are but show a locked
+   * placeholder until the notes are unlocked again.
+   */
+  private async lockNotes(): Promise<LockState> {
+    const { encrypted, locked } = this.vault.getState();
+    if (!encrypted || locked || this.locking) {
+      return this.vault.getState();
+    }
+    // Windows save while their edits can still be written
+    await this.flushWindows();
+    this.locking = true;
+    try {
+      this.reminders.stop();
+      await this.folderSync.stop();
+      await this.saveAllNotes();
+      await Promise.all([
+        this.repository.close(),
+        this.revisions.close(),
+        this.recovery.close(),
+        this.templates.close(),
+        this.notebooks.close(),
+        this.workspaces.close()
+      ]);
+      this.searchIndex.rebuild([]);
+      this.groups.rebuild([]);
+      this.wikiLinks.rebuild([]);
+      this.attachments.stop();
+      this.vault.lock();
+      this.createMenu();
+    } finally {
+      this.locking = false;
+    }
+    return this.broadcastLockState();
+  }
+
+  private async enableEncryption(passphrase: string): Promise<LockState> {
+    // Synced copies would sit next to the encrypted store as plaintext
+    if (this.folderSync.getStatus().directory) {
+      throw new IpcError('CONFLICT', 'Stop syncing with a folder before encrypting notes');
+    }
+    // Attachment files cannot be encrypted, so none may be left behind in plaintext
+    await this.attachments.sweep();
+    if (!(await this.attachments.store.isEmpty())) {
+      throw new IpcError('CONFLICT', 'Remove the attached files from your notes, including notes in the Trash, before encrypting them');
+    }
+    await this.vault.enable(passphrase, () => this.rewriteStores());
+    return this.broadcastLockState();
+  }
+
+  /** Writes every store again with the vault's current key, or as plaintext. */
+  private async rewriteStores(): Promise<void> {
+    await this.repository.rewrite();
+    await this.revisions.rewrite();
+    await this.recovery.flush();
+    await this.templates.flush();
+    await this.notebooks.flush();
+    await this.workspaces.rewrite();
+  }
+
+  /**
+   * Main holds the only authoritative copy of each note: every change, from
+   * whichever window or from sync, is pushed to the manager and to the note's
+   * own window, and a window moved or trashed elsewhere follows along.
+   */
+  private broadcastNoteEvent(event: NoteEvent): void {
+    const version = ++this.noteVersion;
+    const { note } = event;
+    const window = this.windows.get(note.id);
+    const targets = [this.managerWindow, window].filter(
+      (target): target is BrowserWindow => !!target && !target.isDestroyed()
+    );
+    for (const target of targets) {
+      if (event.type === 'deleted') {
+        target.webContents.send('note-deleted', note.id, version);
+      } else {
+        target.webContents.send('note-changed', note, version);
+      }
+    }
+
+    if (!window || window.isDestroyed()) return;
+    if (event.type === 'deleted' || note.deletedAt) {
+      window.close();
+      return;
+    }
+    this.applyPlacement(note, window);
+    if (window.isAlwaysOnTop() !== note.alwaysOnTop) {
+      window.setAlwaysOnTop(note.alwaysOnTop);
+      this.updateAlwaysOnTopItem();
+    }
+  }
+
+  /** Where each visible note window is now. */
+  private captureLayout(): WindowPlacement[] {
+    return [...this.windows]
+      .filter(([, window]) => !window.isDestroyed() && window.isVisible())
+      .map(([noteId, window]) => {
+        const bounds = window.getBounds();
+        return {
+          noteId,
+          ...bounds,
+          alwaysOnTop: window.isAlwaysOnTop(),
+          displayId: screen.getDisplayMatching(bounds).id
+        };
+      });
+  }
+
+  /**
+   * Closes note windows that are not part of `placements` and opens the rest
+   * where they were. Placements are written to the notes, so the windows are
+   * moved by the usual repository events. Notes deleted since are skipped.
+   */
+  private async showLayout(placements: WindowPlacement[]): Promise<void> {
+    const wanted = new Set(placements.map(placement => placement.noteId));
+    for (const [noteId, window] of this.windows) {
+      if (!wanted.has(noteId) && !window.isDestroyed()) {
+        window.close();
+      }
+    }
+    for (const { noteId, x, y, width, height, alwaysOnTop, displayId } of placements) {
+      const note = await this.repository.get(noteId);
+      if (!note || note.deletedAt) continue;
+      if (note.x !== x || note.y !== y || note.width !== width || note.height !== height
+        || note.alwaysOnTop !== alwaysOnTop || note.displayId !== displayId) {
+        await this.repository.update(noteId, { x, y, width, height, alwaysOnTop, displayId });
+      }
+      await this.openNoteWindow(noteId);
+    }
+  }
+
+  /** Records the layout of the workspace being left, then shows `id`'s. */
+  private async switchWorkspace(id: string): Promise<Workspace> {
+    // Locked notes cannot be read, so every window would be closed
+    if (this.vault.isLocked()) {
+      throw new StoreLockedError();
+    }
+    const workspace = this.workspaces.get(id);
+    const active = this.workspaces.getActive();
+    if (active && active.id !== id) {
+      await this.workspaces.save(active.id, this.captureLayout());
+    }
+    await this.workspaces.setActive(id);
+    await this.showLayout(workspace.windows);
+    this.broadcastWorkspaces();
+    return workspace;
+  }
+
+  private saveWorkspace(id: string): Promise<Workspace> {
+    return this.afterWorkspaceChange(this.workspaces.save(id, this.captureLayout()));
+  }
+
+  private async afterWorkspaceChange<T>(change: Promise<T>): Promise<T> {
+    const result = await change;
+    this.broadcastWorkspaces();
+    return result;
+  }
+
+  /** Rebuilds the Workspaces menu and tells the manager. */
+  private broadcastWorkspaces(): void {
+    this.createMenu();
+    this.managerWindow?.webContents.send('workspaces-changed', this.workspaces.list());
+  }
+
+  private broadcastLockState(): LockState {
+    const state = this.vault.getState();
+    this.launcher.scheduleRefresh();
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('lock-state', state);
+    }
+    return state;
+  }
+
+  /** Locks after the configured idle time, and when the screen locks or the machine sleeps. */
+  private scheduleAutoLock(): void {
+    const lock = () => {
+      const { autoLockMinutes } = this.vault.getState();
+      if (autoLockMinutes > 0) {
+        this.lockNotes().catch(error => console.error('Error locking notes:', error));
+      }
+    };
+    setInterval(() => {
+      const { locked, autoLockMinutes } = this.vault.getState();
+      if (!locked && autoLockMinutes > 0 && powerMonitor.getSystemIdleTime() >= autoLockMinutes * 60) {
+        lock();
+      }
+    }, 15_000);
+    powerMonitor.on('lock-screen', lock);
+    powerMonitor.on('suspend', lock);
+  }
+
+  private newNoteFromMenu(): void {
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+    } else {
+      this.createNewNote();
+    }
+  }
+
+  /** Built-in templates, then the saved ones, which are unknown while locked. */
+  private templateMenuItems(): Electron.MenuItemConstructorOptions[] {
+    const templates = this.templates.list();
+    const item = (template: NoteTemplate): Electron.MenuItemConstructorOptions => ({
+      label: template.name,
+      click: () => this.newNoteFromTemplateMenu(template.id)
+    });
+    const saved = templates.filter(template => !template.builtIn);
+    return [
+      ...templates.filter(template => template.builtIn).map(item),
+      ...(saved.length > 0 ? [{ type: 'separator' } as const, ...saved.map(item)] : [])
+    ];
+  }
+
+  private newNoteFromTemplateMenu(templateId: string): void {
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    this.createNoteFromTemplate(templateId)
+      .then(note => this.createNewNote(note))
+      .catch(error => dialog.showErrorBox('Could not create the note', error instanceof Error ? error.message : String(error)));
+  }
+
+  private async createNoteFromTemplate(templateId: string, draft?: NoteDraft): Promise<StickyNote> {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      throw new TemplateNotFoundError(templateId);
+    }
+    return this.createNote({ ...draftFromTemplate(template), ...draft });
+  }
+
+  private async saveTemplate(noteId: string, name: string): Promise<NoteTemplate> {
+    const note = await this.repository.get(noteId);
+    if (!note) {
+      throw new NoteNotFoundError(noteId);
+    }
+    return this.templates.create(name, note);
+  }
+
+  /** Rebuilds the New from Template menu and tells every window. */
+  private async afterTemplateChange<T>(change: Promise<T>): Promise<T> {
+    const result = await change;
+    this.createMenu();
+    const templates = this.templates.list();
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('templates-changed', templates);
+    }
+    return result;
+  }
+
+  private loadRenderer(window: BrowserWindow, hash?: string): void {
+    if (app.isPackaged) {
+      window.loadFile(path.join(__dirname, '../renderer/index.html'), { hash });
+    } else {
+      window.loadURL(`http://localhost:5173${hash ? `#${hash}` : ''}`);
+    }
+  }
+
+  private openManagerWindow(): BrowserWindow {
+    if (this.managerWindow && !this.managerWindow.isDestroyed()) {
+      this.managerWindow.show();
+      this.managerWindow.focus();
+      return this.managerWindow;
+    }
+
+    const window = new BrowserWindow({
+      width: 960,
+      height: 640,
+      minWidth: 600,
+      minHeight: 400,
+      title: 'Sticky Notes',
+      skipTaskbar: !this.launcher.getSettings().showInDock,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        // The preload script imports the shared IPC registry at runtime
+        sandbox: false,
+        preload: path.join(__dirname, '../preload.js')
+      }
+    });
+
+    this.loadRenderer(window);
+    window.on('closed', () => {
+      this.managerWindow = null;
+    });
+    this.openLinksExternally(window);
+
+    this.managerWindow = window;
+    return window;
+  }
+
+  /**
+   * A small window for jotting a note down from anywhere, opened by the
+   * global shortcut or the tray. It saves through `create-note` and closes.
+   */
+  private openQuickCapture(): void {
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    if (this.captureWindow && !this.captureWindow.isDestroyed()) {
+      this.captureWindow.show();
+      this.captureWindow.focus();
+      return;
+    }
+
+    // Near the top of the display the pointer is on, like a launcher
+    const { workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    const width = 440;
+    const height = 160;
+    const window = new BrowserWindow({
+      width,
+      height,
+      x: workArea.x + Math.round((workArea.width - width) / 2),
+      y: workArea.y + Math.round(workArea.height / 4),
+      frame: false,
+      resizable: false,
+      alwaysOnTop: true,
+      skipTaskbar: true,
+      show: false,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        // The preload script imports the shared IPC registry at runtime
+        sandbox: false,
+        preload: path.join(__dirname, '../preload.js')
+      }
     });
 
-    ipcMain.handle('delete-note', async (event, noteId: string) => {
-      await this.deleteNote(noteId);
+    this.loadRenderer(window, 'capture');
+    window.once('ready-to-show', () => {
+      window.show();
+      window.focus();
     });
+    window.on('closed', () => {
+      this.captureWindow = null;
+    });
+    this.captureWindow = window;
+  }
+
+  /** The Preferences window; only one is open at a time. */
+  private openPreferencesWindow(): void {
+    if (this.preferencesWindow && !this.preferencesWindow.isDestroyed()) {
+      this.preferencesWindow.show();
+      this.preferencesWindow.focus();
+      return;
+    }
 
-    ipcMain.handle('get-note', async (event, noteId: string) => {
-      return this.getNote(noteId);
+    const window = new BrowserWindow({
+      width: 480,
+      height: 680,
+      resizable: false,
+      minimizable: false,
+      maximizable: false,
+      title: 'Preferences',
+      show: false,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        // The preload script imports the shared IPC registry at runtime
+        sandbox: false,
+        preload: path.join(__dirname, '../preload.js')
+      }
     });
 
-    ipcMain.handle('create-new-note', async () => {
-      return this.createNewNote();
+    this.loadRenderer(window, 'preferences');
+    window.once('ready-to-show', () => window.show());
+    window.on('closed', () => {
+      this.preferencesWindow = null;
     });
+    this.preferencesWindow = window;
+  }
+
+  /** Shows or hides every open note window; showing with none open opens the notes. */
+  private setNotesVisible(visible: boolean): void {
+    const windows = [...this.windows.values()].filter(window => !window.isDestroyed());
+    if (visible && windows.length === 0) {
+      this.loadAndDisplayNotes().catch(error => console.error('Error showing notes:', error));
+      return;
+    }
+    for (const window of windows) {
+      if (visible) {
+        window.showInactive();
+      } else {
+        window.hide();
+      }
+    }
+  }
+
+  /** Opens the manager and resolves once its page has loaded. */
+  private showManagerWindow(): Promise<BrowserWindow> {
+    const window = this.openManagerWindow();
+    if (!window.webContents.isLoading()) {
+      return Promise.resolve(window);
+    }
+    return new Promise(resolve => window.webContents.once('did-finish-load', () => resolve(window)));
+  }
+
+  private async exportNotes(format: ExportFormat, noteIds?: string[], parent?: BrowserWindow): Promise<string | null> {
+    let target: string | undefined;
+    if (format === 'bundle') {
+      const options: Electron.SaveDialogOptions = {
+        title: 'Export Notes',
+        defaultPath: `sticky-notes-${new Date().toISOString().slice(0, 10)}.json`,
+        filters: [{ name: 'Sticky Notes Bundle', extensions: ['json'] }]
+      };
+      const result = parent ? await dialog.showSaveDialog(parent, options) : await dialog.showSaveDialog(options);
+      target = result.canceled ? undefined : result.filePath;
+    } else if (format === 'pdf') {
+      const options: Electron.SaveDialogOptions = {
+        title: 'Print Notes to PDF',
+        defaultPath: `sticky-notes-${new Date().toISOString().slice(0, 10)}.pdf`,
+        filters: [{ name: 'PDF', extensions: ['pdf'] }]
+      };
+      const result = parent ? await dialog.showSaveDialog(parent, options) : await dialog.showSaveDialog(options);
+      target = result.canceled ? undefined : result.filePath;
+    } else {
+      const options: Electron.OpenDialogOptions = {
+        title: 'Export Notes as Markdown',
+        buttonLabel: 'Export Here',
+        properties: ['openDirectory', 'createDirectory']
+      };
+      const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+      target = result.canceled ? undefined : result.filePaths[0];
+    }
+    if (!target) {
+      return null;
+    }
+    await this.exchange.exportNotes(format, target, noteIds);
+    return target;
+  }
+
+  private async exportNote(noteId: string, format: NoteFileFormat, parent?: BrowserWindow): Promise<string | null> {
+    const note = await this.getNote(noteId);
+    if (!note) {
+      throw new NoteNotFoundError(noteId);
+    }
+    const { name, extension } = NOTE_FILE_TYPES[format];
+    const options: Electron.SaveDialogOptions = {
+      title: `Export Note as ${name}`,
+      defaultPath: `${(note.title || 'Untitled').replace(/[/\\:*?"<>|]/g, '-')}.${extension}`,
+      filters: [{ name, extensions: [extension] }]
+    };
+    const result = parent ? await dialog.showSaveDialog(parent, options) : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    await this.exchange.exportNote(noteId, format, result.filePath);
+    return result.filePath;
+  }
+
+  private async chooseImport(kind: ImportSourceKind, parent?: BrowserWindow): Promise<ImportPreview | null> {
+    const options: Electron.OpenDialogOptions = kind === 'folder'
+      ? { title: 'Import Markdown Folder', properties: ['openDirectory'] }
+      : {
+        title: 'Import Notes',
+        properties: ['openFile'],
+        filters: [{ name: 'Sticky Notes Bundle or Markdown', extensions: ['json', 'md', 'markdown'] }]
+      };
+    const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+    return this.exchange.preview(result.filePaths[0], kind);
+  }
+
+  private async importPalette(parent?: BrowserWindow): Promise<PaletteColor[] | null> {
+    const options: Electron.OpenDialogOptions = {
+      title: 'Import Palette',
+      properties: ['openFile'],
+      filters: [{ name: 'Sticky Notes Palette', extensions: ['json'] }]
+    };
+    const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+    return readPaletteFile(result.filePaths[0]);
+  }
+
+  private async exportPalette(parent?: BrowserWindow): Promise<string | null> {
+    const options: Electron.SaveDialogOptions = {
+      title: 'Export Palette',
+      defaultPath: 'palette.json',
+      filters: [{ name: 'Sticky Notes Palette', extensions: ['json'] }]
+    };
+    const result = parent ? await dialog.showSaveDialog(parent, options) : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    await writePaletteFile(result.filePath, this.preferences.get().palette);
+    return result.filePath;
+  }
+
+  private async chooseSyncFolder(parent?: BrowserWindow): Promise<SyncStatus> {
+    if (this.vault.getState().encrypted) {
+      throw new IpcError('CONFLICT', 'Folder sync is not available while notes are encrypted');
+    }
+    const options: Electron.OpenDialogOptions = {
+      title: 'Sync with Folder',
+      message: 'Choose a folder shared with your other machines, such as one kept in sync by a cloud drive.',
+      buttonLabel: 'Sync Here',
+      properties: ['openDirectory', 'createDirectory']
+    };
+    const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return this.folderSync.getStatus();
+    }
+    return this.folderSync.setDirectory(result.filePaths[0]);
+  }
+
+  // The preview is confirmed in the manager, which also shows import errors
+  private importFromMenu(kind: ImportSourceKind): void {
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    this.showManagerWindow()
+      .then(async window => {
+        const preview = await this.chooseImport(kind, window);
+        if (preview) {
+          window.webContents.send('import-preview', preview);
+        }
+      })
+      .catch(error => dialog.showErrorBox('Import failed', error instanceof Error ? error.message : String(error)));
+  }
+
+  private exportFromMenu(format: ExportFormat): void {
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    this.exportNotes(format, undefined, BrowserWindow.getFocusedWindow() ?? undefined)
+      .catch(error => dialog.showErrorBox('Export failed', error instanceof Error ? error.message : String(error)));
+  }
+
+  private exportNoteFromMenu(format: NoteFileFormat, browserWindow?: BrowserWindow): void {
+    const noteId = [...this.windows].find(([, window]) => window === browserWindow)?.[0];
+    if (this.vault.isLocked()) {
+      this.openManagerWindow();
+      return;
+    }
+    if (!noteId || !browserWindow) {
+      const label = `Export Note as ${NOTE_FILE_TYPES[format].name}`;
+      dialog.showErrorBox(label, `Click a note window first, then choose ${label} again.`);
+      return;
+    }
+    this.exportNote(noteId, format, browserWindow)
+      .catch(error => dialog.showErrorBox('Export failed', error instanceof Error ? error.message : String(error)));
+  }
+
+  /**
+   * Sends links clicked in rendered notes to the system browser instead of
+   * opening them in the app, and only for schemes Markdown links may use.
+   */
+  private openLinksExternally(window: BrowserWindow): void {
+    const openExternal = (url: string) => {
+      if (isSafeLinkUrl(url)) {
+        shell.openExternal(url).catch(error => console.error('Error opening link:', error));
+      }
+    };
+    window.webContents.setWindowOpenHandler(({ url }) => {
+      openExternal(url);
+      return { action: 'deny' };
+    });
+    window.webContents.on('will-navigate', (event, url) => {
+      if (url !== window.webContents.getURL()) {
+        event.preventDefault();
+        openExternal(url);
+      }
+    });
+  }
+
+  private async openNoteWindow(noteId?: string): Promise<void> {
+    if (!noteId) {
+      this.createNewNote();
+      return;
+    }
+
+    const existingWindow = this.windows.get(noteId);
+    if (existingWindow && !existingWindow.isDestroyed()) {
+      existingWindow.show();
+      existingWindow.focus();
+      return;
+    }
+
+    const note = await this.getNote(noteId);
+    if (!note || note.deletedAt) {
+      throw new IpcError('NOT_FOUND', `Note ${noteId} does not exist`);
+    }
+    this.createNewNote(note);
   }
 
   private createNewNote(existingNote?: StickyNote): BrowserWindow {
     const noteId = existingNote?.id || this.generateId();
-    
+    // New notes open where the system puts them; stored ones on their display
+    const placement = existingNote && this.placeNote(existingNote);
+
+    const { defaultWidth, defaultHeight, startOnTop } = this.preferences.get();
     const window = new BrowserWindow({
-      width: existingNote?.width || 300,
-      height: existingNote?.height || 200,
-      x: existingNote?.x || undefined,
-      y: existingNote?.y || undefined,
+      width: defaultWidth,
+      height: defaultHeight,
+      ...placement?.bounds,
       minWidth: 200,
-      minHeight: 100,
+      minHeight: existingNote?.group?.collapsed ? COLLAPSED_NOTE_HEIGHT : 100,
       frame: false,
-      resizable: true,
-      alwaysOnTop: true,
-      skipTaskbar: false,
+      resizable: !existingNote?.group?.collapsed,
+      alwaysOnTop: existingNote?.alwaysOnTop ?? startOnTop,
+      skipTaskbar: !this.launcher.getSettings().showInDock,
       titleBarStyle: 'hidden',
       trafficLightPosition: { x: 10, y: 10 },
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
-        preload: path.join(__dirname, '../preload.js'),
-        webSecurity: false
+        // The preload script imports the shared IPC registry at runtime
+        sandbox: false,
+        preload: path.join(__dirname, '../preload.js')
       }
     });
 
-    // Load the renderer
-    if (app.isPackaged) {
-      window.loadFile(path.join(__dirname, '../renderer/index.html'));
-    } else {
-      window.loadURL('http://localhost:5173');
+    // Persist notes created from the menu so later updates have a record to patch
+    const note = existingNote ?? { ...this.buildNote({ id: noteId, ...window.getBounds() }), displayId: this.displayOf(window) };
+    if (placement?.displaced) {
+      this.displaced.set(noteId, window.getBounds());
+    }
+    if (!existingNote) {
+      this.saveNote(note).catch(error => console.error('Error saving note:', error));
     }
 
+    // Load the renderer in floating-note mode
+    this.loadRenderer(window, `note=${encodeURIComponent(noteId)}`);
+
     // Set note ID
     window.webContents.once('did-finish-load', () => {
       window.webContents.send('note-id', noteId);
-      if (existingNote) {
-        window.webContents.send('load-note', existingNote);
+      if (!this.vault.isLocked()) {
+        window.webContents.send('load-note', note);
       }
     });
 
     // Handle window events
     window.on('closed', () => {
       this.windows.delete(noteId);
+      this.displaced.delete(noteId);
+      this.launcher.scheduleRefresh();
+    });
+
+    // Snap while dragging, carrying the rest of the note's group along. Only
+    // the focused window is being dragged; the others are moved from here
+    window.on('will-move', (event, newBounds) => {
+      const snapped = this.groups.snap(noteId, newBounds);
+      if (snapped) {
+        event.preventDefault();
+        window.setBounds(snapped);
+        this.groups.follow(noteId, snapped);
+      }
+    });
+
+    window.on('move', () => {
+      if (window.isFocused()) {
+        this.groups.follow(noteId, window.getBounds());
+      }
     });
 
     window.on('moved', () => {
-      this.saveWindowState(noteId, window);
+      this.groups.follow(noteId, window.getBounds());
+      for (const memberId of this.groups.membersOf(noteId)) {
+        const member = this.windows.get(memberId);
+        if (member && !member.isDestroyed()) {
+          this.saveWindowState(memberId, member).catch(error => console.error('Error saving window state:', error));
+        }
+      }
     });
 
     window.on('resized', () => {
-      this.saveWindowState(noteId, window);
+      this.groups.resized(noteId, window.getBounds())
+        .then(() => this.saveWindowState(noteId, window))
+        .catch(error => console.error('Error saving window state:', error));
     });
 
-    // Prevent external links from opening in the app
-    window.webContents.setWindowOpenHandler(({ url }) => {
-      shell.openExternal(url);
-      return { action: 'deny' };
+    window.webContents.on('context-menu', (_, params) => {
+      this.showNoteMenu(noteId, window, params.isEditable)
+        .catch(error => console.error('Error showing note menu:', error));
     });
 
+    this.openLinksExternally(window);
+
     this.windows.set(noteId, window);
     return window;
   }
 
+  private async setReminder(noteId: string, reminder: ReminderInput | null): Promise<StickyNote> {
+    if (!reminder) {
+      return this.repository.update(noteId, { reminder: undefined });
+    }
+    // Changing only the recurrence must not re-fire a reminder already shown
+    const previous = (await this.repository.get(noteId))?.reminder;
+    const firedAt = previous?.at === reminder.at ? previous.firedAt : undefined;
+    return this.repository.update(noteId, { reminder: { ...reminder, firedAt } });
+  }
+
+  // A note without settings of its own stores none, so it follows the preferences
+  private setNoteTypography(noteId: string, typography: NoteTypography | null): Promise<StickyNote> {
+    const empty = !typography || Object.values(typography).every(value => value === undefined);
+    return this.repository.update(noteId, { typography: empty ? undefined : typography });
+  }
+
+  private showReminder(note: StickyNote, missed: boolean): void {
+    if (!Notification.isSupported()) return;
+    const dueAt = new Date(note.reminder?.at ?? Date.now());
+    const notification = new Notification({
+      title: note.title || 'Sticky Note',
+      subtitle: missed ? `Missed reminder from ${dueAt.toLocaleString()}` : undefined,
+      body: note.content.slice(0, 200)
+    });
+    this.notifications.add(notification);
+    notification.on('close', () => this.notifications.delete(notification));
+    notification.on('click', () => {
+      this.notifications.delete(notification);
+      this.openNoteWindow(note.id)
+        .then(() => this.windows.get(note.id)?.moveTop())
+        .catch(error => console.error('Error opening reminder note:', error));
+    });
+    notification.show();
+  }
+
+  private async setNotebookWindowsVisible(notebookId: string, visible: boolean): Promise<void> {
+    this.notebooks.assertExists(notebookId);
+    const notes = (await this.loadNotes()).filter(note => note.notebookId === notebookId);
+    for (const note of notes) {
+      const window = this.windows.get(note.id);
+      if (visible) {
+        await this.openNoteWindow(note.id);
+      } else if (window && !window.isDestroyed()) {
+        window.hide();
+      }
+    }
+  }
+
   private async saveWindowState(noteId: string, window: BrowserWindow): Promise<void> {
+    const note = await this.repository.get(noteId);
+    if (!note) return;
     const bounds = window.getBounds();
-    const notes = await this.loadNotes();
-    const noteIndex = notes.findIndex(n => n.id === noteId);
-    
-    if (noteIndex !== -1) {
-      notes[noteIndex].x = bounds.x;
-      notes[noteIndex].y = bounds.y;
-      notes[noteIndex].width = bounds.width;
-      notes[noteIndex].height = bounds.height;
-      notes[noteIndex].updated = new Date().toISOString();
-      await this.saveNotes(notes);
+    const placedAt = this.displaced.get(noteId);
+    // A window the system moved off a display that went away, or one still
+    // where it was put for that reason, keeps the note's saved position;
+    // once it is moved by hand, the new position is the note's
+    if (placedAt ? sameRect(placedAt, bounds) : !this.isDisplayConnected(note.displayId)) {
+      return;
     }
+    await this.storeWindowBounds(noteId, window);
   }
 
-  private async saveNote(note: StickyNote): Promise<void> {
-    const notes = await this.loadNotes();
-    const existingIndex = notes.findIndex(n => n.id === note.id);
-    
-    if (existingIndex !== -1) {
-      notes[existingIndex] = { ...notes[existingIndex], ...note, updated: new Date().toISOString() };
+  /** Makes the window's current bounds and display the note's own. */
+  private async storeWindowBounds(noteId: string, window: BrowserWindow): Promise<void> {
+    this.displaced.delete(noteId);
+    const note = await this.repository.get(noteId);
+    const { x, y, width, height } = window.getBounds();
+    // A collapsed window's height is its title bar, not the note's
+    await this.repository.update(noteId, {
+      x,
+      y,
+      width,
+      height: note?.group?.collapsed ? note.height : height,
+      displayId: this.displayOf(window)
+    });
+  }
+
+  /** The note window's context menu: editing, text style and export, plus grouping with other open notes. */
+  private async showNoteMenu(noteId: string, window: BrowserWindow, editable: boolean): Promise<void> {
+    const group = this.groups.get(noteId);
+    const members = new Set(this.groups.membersOf(noteId));
+    const others: StickyNote[] = [];
+    for (const [id, other] of this.windows) {
+      const note = members.has(id) || other.isDestroyed() || !other.isVisible() ? undefined : await this.getNote(id);
+      if (note) others.push(note);
+    }
+    const fail = (error: unknown) => dialog.showErrorBox('Could not change the group', error instanceof Error ? error.message : String(error));
+
+    const items: Electron.MenuItemConstructorOptions[] = editable
+      ? [{ role: 'cut' }, { role: 'copy' }, { role: 'paste' }, { role: 'selectAll' }, { type: 'separator' }]
+      : [];
+    const note = await this.getNote(noteId);
+    const typography = note?.typography ?? {};
+    const setTypography = (next: NoteTypography) => {
+      this.setNoteTypography(noteId, next)
+        .catch(error => dialog.showErrorBox('Could not change the text style', error instanceof Error ? error.message : String(error)));
+    };
+    items.push({
+      label: 'Text Style',
+      submenu: [
+        {
+          label: 'Default Font',
+          type: 'radio',
+          checked: !typography.fontFamily,
+          click: () => setTypography({ ...typography, fontFamily: undefined })
+        },
+        ...(Object.keys(FONT_FAMILIES) as FontFamily[]).map((fontFamily): Electron.MenuItemConstructorOptions => ({
+          label: FONT_FAMILIES[fontFamily].label,
+          type: 'radio',
+          checked: typography.fontFamily === fontFamily,
+          click: () => setTypography({ ...typography, fontFamily })
+        })),
+        { type: 'separator' },
+        ...TEXT_ALIGNMENTS.map((textAlign): Electron.MenuItemConstructorOptions => ({
+          label: `Align ${textAlign[0].toUpperCase()}${textAlign.slice(1)}`,
+          type: 'radio',
+          checked: (typography.textAlign ?? 'left') === textAlign,
+          click: () => setTypography({ ...typography, textAlign: textAlign === 'left' ? undefined : textAlign })
+        })),
+        { type: 'separator' },
+        { label: 'Use Default Style', enabled: note?.typography !== undefined, click: () => setTypography({}) }
+      ]
+    });
+    items.push({
+      label: 'Export',
+      submenu: (Object.keys(NOTE_FILE_TYPES) as NoteFileFormat[]).map(format => ({
+        label: `As ${NOTE_FILE_TYPES[format].name}…`,
+        click: () => this.exportNoteFromMenu(format, window)
+      }))
+    });
+    items.push({ type: 'separator' }, {
+      label: 'Group With',
+      enabled: others.length > 0,
+      submenu: others.map(other => ({
+        label: other.title || 'Untitled',
+        click: () => this.groups.group([other.id, noteId]).catch(fail)
+      }))
+    });
+    if (group) {
+      const color = note?.color;
+      items.push(
+        {
+          label: group.collapsed ? 'Expand Group' : 'Collapse Group',
+          click: () => this.groups.setCollapsed(group.id, !group.collapsed).catch(fail)
+        },
+        {
+          label: 'Group Color',
+          submenu: this.preferences.get().palette.map(({ name, value }) => ({
+            label: name,
+            type: 'radio',
+            checked: value === color,
+            click: () => this.groups.setColor(group.id, value).catch(fail)
+          }))
+        },
+        { label: 'Close Group', click: () => this.groups.close(group.id) },
+        { label: 'Leave Group', click: () => this.groups.ungroup(noteId).catch(fail) }
+      );
+    }
+    Menu.buildFromTemplate(items).popup({ window });
+  }
+
+  private displayAreas(): DisplayArea[] {
+    return screen.getAllDisplays().map(({ id, workArea }) => ({ id, workArea }));
+  }
+
+  private isDisplayConnected(displayId: number | undefined): boolean {
+    return displayId === undefined || screen.getAllDisplays().some(display => display.id === displayId);
+  }
+
+  private displayOf(window: BrowserWindow): number {
+    return screen.getDisplayMatching(window.getBounds()).id;
+  }
+
+  /** Where a note's window belongs with the displays connected now. */
+  private placeNote(note: StickyNote): Placement {
+    const { x, y, width } = note;
+    const height = note.group?.collapsed ? COLLAPSED_NOTE_HEIGHT : note.height;
+    const { id, workArea } = screen.getPrimaryDisplay();
+    return placeWindow({ x, y, width, height }, note.displayId, this.displayAreas(), { id, workArea });
+  }
+
+  /** Moves a note's window to where the note belongs, if it is not there already. */
+  private applyPlacement(note: StickyNote, window: BrowserWindow): void {
+    const collapsed = !!note.group?.collapsed;
+    window.setMinimumSize(200, collapsed ? COLLAPSED_NOTE_HEIGHT : 100);
+    window.setResizable(!collapsed);
+    const { bounds, displaced } = this.placeNote(note);
+    if (displaced) {
+      this.displaced.set(note.id, bounds);
     } else {
-      note.created = new Date().toISOString();
-      note.updated = new Date().toISOString();
-      notes.push(note);
+      this.displaced.delete(note.id);
+    }
+    if (!sameRect(window.getBounds(), bounds)) {
+      window.setBounds(bounds);
+    }
+  }
+
+  /**
+   * Re-places every note window when displays are connected, disconnected or
+   * rearranged: notes leave a display that went away and go back when it returns.
+   */
+  private watchDisplays(): void {
+    const replace = () => {
+      for (const [noteId, window] of this.windows) {
+        this.repository.get(noteId)
+          .then(note => {
+            if (note && !window.isDestroyed()) {
+              this.applyPlacement(note, window);
+            }
+          })
+          .catch(error => console.error('Error placing note window:', error));
+      }
+    };
+    screen.on('display-added', replace);
+    screen.on('display-removed', replace);
+    screen.on('display-metrics-changed', replace);
+  }
+
+  /** Cascades, tiles or gathers the visible note windows on the display under the pointer. */
+  private arrangeNotes(arrangement: 'cascade' | 'tile' | 'gather'): void {
+    const { id, workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    const windows = [...this.windows].filter(([, window]) => !window.isDestroyed() && window.isVisible());
+    const current = windows.map(([, window]) => window.getBounds());
+    const arranged = arrangement === 'cascade'
+      ? cascadeBounds(current, workArea)
+      : arrangement === 'tile'
+        ? tileBounds(current.length, workArea)
+        : gatherBounds(current, this.displayAreas(), { id, workArea });
+    windows.forEach(([noteId, window], index) => {
+      window.setBounds(arranged[index]);
+      this.storeWindowBounds(noteId, window).catch(error => console.error('Error saving window state:', error));
+    });
+  }
+
+  private buildNote(draft: NoteDraft = {}): StickyNote {
+    const now = new Date().toISOString();
+    const { defaultColor, defaultWidth, defaultHeight, startOnTop } = this.preferences.get();
+    return {
+      id: this.generateId(),
+      title: 'New Note',
+      content: '',
+      color: defaultColor,
+      x: 100,
+      y: 100,
+      width: defaultWidth,
+      height: defaultHeight,
+      alwaysOnTop: startOnTop,
+      notebookId: DEFAULT_NOTEBOOK_ID,
+      tags: [],
+      ...this.checkPatch(draft),
+      created: now,
+      updated: now
+    };
+  }
+
+  /** Rejects moves into unknown notebooks and normalizes tags. */
+  private checkPatch<T extends NotePatch>(patch: T): T {
+    if (patch.notebookId !== undefined) {
+      this.notebooks.assertExists(patch.notebookId);
+    }
+    return patch.tags ? { ...patch, tags: normalizeTags(patch.tags) } : patch;
+  }
+
+  private createNote(draft?: NoteDraft): Promise<StickyNote> {
+    return this.repository.create(this.buildNote(draft));
+  }
+
+  /**
+   * Saves edits from a window, recording the replaced version in the
+   * history. A save whose `base` is out of date is refused rather than
+   * overwriting what another window changed; that window resolves it.
+   */
+  private async updateNote(noteId: string, patch: NotePatch, base?: NotePatch): Promise<StickyNote> {
+    const previous = await this.repository.get(noteId);
+    if (previous && base && editConflicts(previous, patch, base)) {
+      throw new IpcError('CONFLICT', `Note ${noteId} was changed elsewhere while it was being edited`);
+    }
+    const note = await this.repository.update(noteId, this.checkPatch(patch));
+    if (previous) {
+      this.revisions.capture(previous, note).catch(error => console.error('Error saving revision:', error));
+    }
+    this.recovery.settle(noteId, patch).catch(error => console.error('Error writing recovery journal:', error));
+    return note;
+  }
+
+  private async restoreRevision(noteId: string, revisionId: string): Promise<StickyNote> {
+    const revision = this.revisions.get(noteId, revisionId);
+    if (!revision) {
+      throw new IpcError('NOT_FOUND', `Revision ${revisionId} of note ${noteId} does not exist`);
+    }
+    const previous = await this.repository.get(noteId);
+    const note = await this.repository.update(noteId, { title: revision.title, content: revision.content });
+    // Keep the version being replaced so the restore itself can be undone
+    if (previous) {
+      await this.revisions.capture(previous, note, true);
+    }
+    await this.wikiLinks.commitRename(noteId);
+    return note;
+  }
+
+  private async saveNote(note: NoteDraft & { id: string }): Promise<void> {
+    const { id, ...patch } = note;
+    if (await this.repository.get(id)) {
+      await this.repository.update(id, this.checkPatch(patch));
+    } else {
+      await this.repository.create(this.buildNote(note));
     }
-    
-    await this.saveNotes(notes);
   }
 
   private async deleteNote(noteId: string): Promise<void> {
-    const notes = await this.loadNotes();
-    const filteredNotes = notes.filter(n => n.id !== noteId);
-    await this.saveNotes(filteredNotes);
+    await this.trash.moveToTrash(noteId);
     
     const window = this.windows.get(noteId);
     if (window && !window.isDestroyed()) {
@@ -260,74 +1913,77 @@ class StickyNotesApp {
     }
   }
 
-  private getNote(noteId: string): StickyNote | undefined {
-    const notes = this.loadNotesSync();
-    return notes.find(n => n.id === noteId);
+  private getNote(noteId: string): Promise<StickyNote | undefined> {
+    return this.repository.get(noteId);
   }
 
   private async loadNotes(): Promise<StickyNote[]> {
-    try {
-      if (fs.existsSync(this.notesFilePath)) {
-        const data = await fs.promises.readFile(this.notesFilePath, 'utf-8');
-        return JSON.parse(data);
-      }
-    } catch (error) {
-      console.error('Error loading notes:', error);
-    }
-    return [];
+    const notes = await this.repository.list();
+    return notes.filter(note => !note.deletedAt);
   }
 
-  private loadNotesSync(): StickyNote[] {
-    try {
-      if (fs.existsSync(this.notesFilePath)) {
-        const data = fs.readFileSync(this.notesFilePath, 'utf-8');
-        return JSON.parse(data);
-      }
-    } catch (error) {
-      console.error('Error loading notes:', error);
-    }
-    return [];
+  private schedulePurge(): void {
+    const purge = () => {
+      this.trash.purgeExpired().catch(error => console.error('Error purging trash:', error));
+    };
+    purge();
+    setInterval(purge, 60 * 60 * 1000);
   }
 
-  private async saveNotes(notes: StickyNote[]): Promise<void> {
-    try {
-      const userDataPath = app.getPath('userData');
-      if (!fs.existsSync(userDataPath)) {
-        fs.mkdirSync(userDataPath, { recursive: true });
-      }
-      await fs.promises.writeFile(this.notesFilePath, JSON.stringify(notes, null, 2));
-    } catch (error) {
-      console.error('Error saving notes:', error);
-    }
+  /**
+   * Asks the manager and note windows to save the edits they are holding
+   * back and waits until each confirms. A window that does not answer in
+   * time is given up on; its edits stay in the recovery journal.
+   */
+  private async flushWindows(): Promise<void> {
+    if (this.vault.isLocked()) return;
+    const windows = [this.managerWindow, ...this.windows.values()].filter(
+      (window): window is BrowserWindow => !!window && !window.isDestroyed() && !window.webContents.isLoading()
+    );
+    await Promise.all(windows.map(window => new Promise<void>(resolve => {
+      const id = window.webContents.id;
+      const done = () => {
+        clearTimeout(timeout);
+        this.flushWaiters.delete(id);
+        resolve();
+      };
+      const timeout = setTimeout(done, FLUSH_TIMEOUT_MS);
+      this.flushWaiters.set(id, done);
+      window.webContents.send('flush-edits');
+    })));
   }
 
   private async saveAllNotes(): Promise<void> {
-    const notes = await this.loadNotes();
+    const updates: Promise<unknown>[] = [];
     for (const [noteId, window] of this.windows) {
       if (!window.isDestroyed()) {
-        const bounds = window.getBounds();
-        const noteIndex = notes.findIndex(n => n.id === noteId);
-        if (noteIndex !== -1) {
-          notes[noteIndex].x = bounds.x;
-          notes[noteIndex].y = bounds.y;
-          notes[noteIndex].width = bounds.width;
-          notes[noteIndex].height = bounds.height;
-          notes[noteIndex].updated = new Date().toISOString();
-        }
+        updates.push(this.saveWindowState(noteId, window));
       }
     }
-    await this.saveNotes(notes);
+    await Promise.all(updates);
+    await this.repository.flush();
   }
 
+  // Windows left open while the notes were locked are reused. With a
+  // workspace active only its notes are opened, otherwise every note is
   private async loadAndDisplayNotes(): Promise<void> {
     const notes = await this.loadNotes();
-    if (notes.length === 0) {
+    const workspace = this.workspaces.getActive();
+    if (notes.length === 0 && this.windows.size === 0) {
       this.createNewNote();
-    } else {
-      notes.forEach(note => {
-        this.createNewNote(note);
-      });
     }
+    if (workspace && this.windows.size === 0) {
+      await this.showLayout(workspace.windows);
+      return;
+    }
+    notes.forEach(note => {
+      const window = this.windows.get(note.id);
+      if (window && !window.isDestroyed()) {
+        window.webContents.send('load-note', note);
+      } else if (!workspace) {
+        this.createNewNote(note);
+      }
+    });
   }
 
   private generateId(): string {
@@ -0,0 +1,196 @@
+import { screen, type BrowserWindow } from 'electron';
+import { IpcError } from '../shared/ipc';
+import type { NoteGroup, StickyNote } from '../shared/note';
+import { sameRect, snapBounds, type Rect } from './placement';
+import { NoteNotFoundError, type NoteEvent, type NoteRepository } from './storage';
+
+/** Height of a collapsed note window: just its title bar. */
+export const COLLAPSED_NOTE_HEIGHT = 32;
+
+/**
+ * Groups of note windows that move together, plus edge snapping while a
+ * window is dragged. Membership lives on the notes; a copy is kept here in
+ * step with the repository so window events, which arrive many times a
+ * second during a drag, never wait on it.
+ */
+export class NoteGroups {
+  private groupOf = new Map<string, NoteGroup>();
+
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly windows: ReadonlyMap<string, BrowserWindow>,
+    private readonly newId: () => string
+  ) {}
+
+  rebuild(notes: StickyNote[]): void {
+    this.groupOf.clear();
+    for (const note of notes) {
+      this.apply({ type: 'saved', note });
+    }
+  }
+
+  apply(event: NoteEvent): void {
+    const { note } = event;
+    if (event.type === 'saved' && note.group && !note.deletedAt) {
+      this.groupOf.set(note.id, note.group);
+    } else {
+      this.groupOf.delete(note.id);
+    }
+  }
+
+  get(noteId: string): NoteGroup | undefined {
+    return this.groupOf.get(noteId);
+  }
+
+  /** Every note in the same group as `noteId`, itself included. */
+  membersOf(noteId: string): string[] {
+    const group = this.groupOf.get(noteId);
+    return group ? this.members(group.id) : [noteId];
+  }
+
+  /**
+   * Groups notes with the first one, joining its group if it has one. Offsets
+   * come from where the windows are now, or the notes' saved positions.
+   */
+  async group(noteIds: string[]): Promise<string> {
+    const first = this.groupOf.get(noteIds[0]);
+    const groupId = first?.id ?? this.newId();
+    const memberIds = [...new Set([...this.members(groupId), ...noteIds])];
+    if (memberIds.length < 2) {
+      throw new IpcError('INVALID_PAYLOAD', 'A group needs at least two notes');
+    }
+    const notes = await Promise.all(memberIds.map(id => this.requireNote(id)));
+    const bounds = notes.map(note => this.boundsOf(note));
+    const originX = Math.min(...bounds.map(rect => rect.x));
+    const originY = Math.min(...bounds.map(rect => rect.y));
+    // Groups the joining notes came from, which may now be down to one note
+    const left = new Set(notes.map(note => note.group?.id).filter((id): id is string => !!id && id !== groupId));
+
+    for (const [index, note] of notes.entries()) {
+      const group: NoteGroup = {
+        id: groupId,
+        offsetX: bounds[index].x - originX,
+        offsetY: bounds[index].y - originY,
+        collapsed: first?.collapsed
+      };
+      await this.repository.update(note.id, { group });
+    }
+    for (const id of left) {
+      await this.dissolveIfAlone(id);
+    }
+    return groupId;
+  }
+
+  /** Takes a note out of its group; a group left with one note is dissolved. */
+  async ungroup(noteId: string): Promise<void> {
+    const group = this.groupOf.get(noteId);
+    if (!group) return;
+    await this.repository.update(noteId, { group: undefined });
+    await this.dissolveIfAlone(group.id);
+  }
+
+  async setCollapsed(groupId: string, collapsed: boolean): Promise<void> {
+    for (const id of this.requireMembers(groupId)) {
+      const group = this.groupOf.get(id) as NoteGroup;
+      await this.repository.update(id, { group: { ...group, collapsed: collapsed || undefined } });
+    }
+  }
+
+  async setColor(groupId: string, color: string): Promise<void> {
+    for (const id of this.requireMembers(groupId)) {
+      await this.repository.update(id, { color });
+    }
+  }
+
+  /** Closes every window in the group; the notes stay. */
+  close(groupId: string): void {
+    for (const id of this.requireMembers(groupId)) {
+      const window = this.windows.get(id);
+      if (window && !window.isDestroyed()) {
+        window.close();
+      }
+    }
+  }
+
+  /**
+   * Where a window being dragged to `bounds` should go instead so its edges
+   * line up with nearby notes or the screen edges; undefined to leave it be.
+   */
+  snap(noteId: string, bounds: Rect): Rect | undefined {
+    const group = new Set(this.membersOf(noteId));
+    const others = [...this.windows]
+      .filter(([id, window]) => !group.has(id) && !window.isDestroyed() && window.isVisible())
+      .map(([, window]) => window.getBounds());
+    const areas = screen.getAllDisplays().map(display => display.workArea);
+    const snapped = snapBounds(bounds, others, areas);
+    return sameRect(snapped, bounds) ? undefined : snapped;
+  }
+
+  /** Moves the other windows of the group to keep their offsets from `bounds`. */
+  follow(noteId: string, bounds: Rect): void {
+    const group = this.groupOf.get(noteId);
+    if (!group) return;
+    const originX = bounds.x - group.offsetX;
+    const originY = bounds.y - group.offsetY;
+    for (const id of this.members(group.id)) {
+      const member = this.groupOf.get(id) as NoteGroup;
+      const window = this.windows.get(id);
+      if (id === noteId || !window || window.isDestroyed()) continue;
+      const [x, y] = window.getPosition();
+      if (x !== originX + member.offsetX || y !== originY + member.offsetY) {
+        window.setPosition(originX + member.offsetX, originY + member.offsetY);
+      }
+    }
+  }
+
+  /**
+   * Records a member's new offset after it was resized, which can move its
+   * top left corner, measured from the other members that stayed put.
+   */
+  async resized(noteId: string, bounds: Rect): Promise<void> {
+    const group = this.groupOf.get(noteId);
+    if (!group) return;
+    const anchorId = this.members(group.id).find(id => id !== noteId && this.windows.get(id)?.isDestroyed() === false);
+    const anchor = anchorId && this.windows.get(anchorId);
+    if (!anchor) return;
+    const anchorGroup = this.groupOf.get(anchorId) as NoteGroup;
+    const { x, y } = anchor.getBounds();
+    const offsetX = bounds.x - (x - anchorGroup.offsetX);
+    const offsetY = bounds.y - (y - anchorGroup.offsetY);
+    if (offsetX !== group.offsetX || offsetY !== group.offsetY) {
+      await this.repository.update(noteId, { group: { ...group, offsetX, offsetY } });
+    }
+  }
+
+  private members(groupId: string): string[] {
+    return [...this.groupOf].filter(([, group]) => group.id === groupId).map(([id]) => id);
+  }
+
+  private requireMembers(groupId: string): string[] {
+    const members = this.members(groupId);
+    if (members.length === 0) {
+      throw new IpcError('NOT_FOUND', `Group ${groupId} does not exist`);
+    }
+    return members;
+  }
+
+  private async requireNote(noteId: string): Promise<StickyNote> {
+    const note = await this.repository.get(noteId);
+    if (!note || note.deletedAt) {
+      throw new NoteNotFoundError(noteId);
+    }
+    return note;
+  }
+
+  private boundsOf(note: StickyNote): Rect {
+    const window = this.windows.get(note.id);
+    return window && !window.isDestroyed() ? window.getBounds() : note;
+  }
+
+  private async dissolveIfAlone(groupId: string): Promise<void> {
+    const members = this.members(groupId);
+    if (members.length === 1) {
+      await this.repository.update(members[0], { group: undefined });
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { IpcError } from '../shared/ipc';
+import {
+  DEFAULT_NOTEBOOK_ID,
+  normalizeTag,
+  normalizeTags,
+  noteTags,
+  renameInlineTag,
+  type Notebook,
+  type TagSummary
+} from '../shared/notebook';
+import { NotebookNotFoundError, type NotebookStore, type NoteRepository } from './storage';
+
+/**
+ * Notebooks and tags on top of the repository. Notebook renames only touch
+ * the notebook store; merges and tag renames rewrite the affected notes,
+ * Trash included, so nothing is left pointing at a name that is gone.
+ */
+export class Notebooks {
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly store: NotebookStore
+  ) {}
+
+  /** Opens the store and moves notes whose notebook has gone into the default one. */
+  async open(): Promise<void> {
+    await this.store.open();
+    for (const note of await this.repository.list()) {
+      if (!this.store.get(note.notebookId)) {
+        console.warn(`Note ${note.id} was in missing notebook ${note.notebookId}; moving it to the default notebook`);
+        await this.repository.update(note.id, { notebookId: DEFAULT_NOTEBOOK_ID });
+      }
+    }
+  }
+
+  list(): Notebook[] {
+    return this.store.list();
+  }
+
+  assertExists(notebookId: string): void {
+    if (!this.store.get(notebookId)) {
+      throw new NotebookNotFoundError(notebookId);
+    }
+  }
+
+  create(name: string): Promise<Notebook> {
+    return this.store.create(name);
+  }
+
+  /** The notebook called `name`, ignoring case, created if there is none. */
+  async ensureNamed(name: string): Promise<Notebook> {
+    const wanted = name.trim().toLowerCase();
+    return this.store.list().find(notebook => notebook.name.toLowerCase() === wanted)
+      ?? this.store.create(name);
+  }
+
+  rename(notebookId: string, name: string): Promise<Notebook> {
+    return this.store.rename(notebookId, name);
+  }
+
+  /** Moves every note in `sourceId` into `targetId` and removes `sourceId`. */
+  async merge(sourceId: string, targetId: string): Promise<Notebook> {
+    this.assertExists(sourceId);
+    this.assertExists(targetId);
+    if (sourceId === targetId) {
+      throw new IpcError('CONFLICT', 'A notebook cannot be merged into itself');
+    }
+    if (sourceId === DEFAULT_NOTEBOOK_ID) {
+      throw new IpcError('CONFLICT', 'The default notebook cannot be merged away');
+    }
+    for (const note of await this.repository.list()) {
+      if (note.notebookId === sourceId) {
+        await this.repository.update(note.id, { notebookId: targetId });
+      }
+    }
+    await this.store.remove(sourceId);
+    return this.store.get(targetId) as Notebook;
+  }
+
+  /** Removes a notebook; its notes move to the default notebook. */
+  async delete(notebookId: string): Promise<void> {
+    await this.merge(notebookId, DEFAULT_NOTEBOOK_ID);
+  }
+
+  /** Tags on live notes with how many notes use each, most used first. */
+  async listTags(): Promise<TagSummary[]> {
+    const counts = new Map<string, number>();
+    for (const note of await this.repository.list()) {
+      if (note.deletedAt) continue;
+      noteTags(note).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    }
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Renames a tag on every note, in both the explicit list and inline
+   * `#tags`. Renaming onto a tag that is already in use merges the two.
+   * Returns the number of notes changed.
+   */
+  async renameTag(from: string, to: string): Promise<number> {
+    const source = normalizeTag(from);
+    const target = normalizeTag(to);
+    if (!source || !target) {
+      throw new IpcError('INVALID_PAYLOAD', 'Tags must not be empty');
+    }
+    if (source === target) {
+      return 0;
+    }
+
+    let changed = 0;
+    for (const note of await this.repository.list()) {
+      const tags = note.tags.includes(source)
+        ? normalizeTags(note.tags.map(tag => tag === source ? target : tag))
+        : note.tags;
+      const content = renameInlineTag(note.content, source, target);
+      if (tags !== note.tags || content !== note.content) {
+        await this.repository.update(note.id, { tags, content });
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+
+  close(): Promise<void> {
+    return this.store.close();
+  }
+}
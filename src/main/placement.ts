@@ -0,0 +1,193 @@
+// Window placement across displays. Kept free of Electron so the rules can be
+// reasoned about on plain rectangles; main feeds in `screen` displays.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DisplayArea {
+  id: number;
+  /** The usable part of the display, without menu bar, Dock or taskbar. */
+  workArea: Rect;
+}
+
+export interface Placement {
+  bounds: Rect;
+  /** The display the window ends up on. */
+  displayId: number;
+  /**
+   * True when the note's own display is disconnected and the window was put
+   * elsewhere; its saved position should be kept for when the display returns.
+   */
+  displaced: boolean;
+}
+
+/** How much of a window must show on a display to count as reachable. */
+const MIN_VISIBLE = { width: 60, height: 30 };
+const CASCADE_STEP = 24;
+/** How close an edge must come to another before it snaps, in pixels. */
+const SNAP_DISTANCE = 12;
+const TILE_GAP = 8;
+
+export const sameRect = (a: Rect, b: Rect): boolean =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+function overlap(a: Rect, b: Rect): Rect {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y)
+  };
+}
+
+/** Shrinks `bounds` to fit `area` if needed, then moves it fully inside. */
+export function clampToArea(bounds: Rect, area: Rect): Rect {
+  const width = Math.min(bounds.width, area.width);
+  const height = Math.min(bounds.height, area.height);
+  return {
+    x: Math.min(Math.max(bounds.x, area.x), area.x + area.width - width),
+    y: Math.min(Math.max(bounds.y, area.y), area.y + area.height - height),
+    width,
+    height
+  };
+}
+
+/** The display showing most of `bounds`, if any shows enough to grab the window. */
+export function displayShowing(bounds: Rect, displays: DisplayArea[]): DisplayArea | undefined {
+  let best: DisplayArea | undefined;
+  let bestArea = 0;
+  for (const display of displays) {
+    const shown = overlap(bounds, display.workArea);
+    if (shown.width < Math.min(MIN_VISIBLE.width, bounds.width)
+      || shown.height < Math.min(MIN_VISIBLE.height, bounds.height)) continue;
+    if (shown.width * shown.height > bestArea) {
+      best = display;
+      bestArea = shown.width * shown.height;
+    }
+  }
+  return best;
+}
+
+/**
+ * Where a note window should go. A note whose display is connected goes back
+ * to it, kept inside its work area. A note whose display is gone goes onto
+ * `fallback`, displaced. A note that never recorded a display stays where it
+ * is if that is visible and is moved onto `fallback` otherwise.
+ */
+export function placeWindow(
+  bounds: Rect,
+  displayId: number | undefined,
+  displays: DisplayArea[],
+  fallback: DisplayArea
+): Placement {
+  const home = displayId === undefined ? undefined : displays.find(display => display.id === displayId);
+  if (home) {
+    return { bounds: clampToArea(bounds, home.workArea), displayId: home.id, displaced: false };
+  }
+  if (displayId === undefined) {
+    const showing = displayShowing(bounds, displays) ?? fallback;
+    return { bounds: clampToArea(bounds, showing.workArea), displayId: showing.id, displaced: false };
+  }
+  return { bounds: clampToArea(bounds, fallback.workArea), displayId: fallback.id, displaced: true };
+}
+
+/** Stacks windows diagonally from the top left of `area`, starting over when they reach the edge. */
+export function cascadeBounds(windows: Rect[], area: Rect): Rect[] {
+  let step = 0;
+  return windows.map(bounds => {
+    const size = clampToArea(bounds, area);
+    let x = area.x + step * CASCADE_STEP;
+    let y = area.y + step * CASCADE_STEP;
+    if (x + size.width > area.x + area.width || y + size.height > area.y + area.height) {
+      step = 0;
+      x = area.x;
+      y = area.y;
+    }
+    step++;
+    return { ...size, x, y };
+  });
+}
+
+/** Lays `count` windows out in a grid filling `area`. */
+export function tileBounds(count: number, area: Rect): Rect[] {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const width = Math.floor((area.width - TILE_GAP * (columns + 1)) / columns);
+  const height = Math.floor((area.height - TILE_GAP * (rows + 1)) / rows);
+  return Array.from({ length: count }, (_, index) => ({
+    x: area.x + TILE_GAP + (index % columns) * (width + TILE_GAP),
+    y: area.y + TILE_GAP + Math.floor(index / columns) * (height + TILE_GAP),
+    width: Math.max(1, width),
+    height: Math.max(1, height)
+  }));
+}
+
+/**
+ * Brings every window onto `target`. Windows on another display keep their
+ * relative position on it; windows already on `target` stay put.
+ */
+export function gatherBounds(windows: Rect[], displays: DisplayArea[], target: DisplayArea): Rect[] {
+  const area = target.workArea;
+  return windows.map(bounds => {
+    const source = displayShowing(bounds, displays);
+    if (!source || source.id === target.id) {
+      return clampToArea(bounds, area);
+    }
+    const from = source.workArea;
+    return clampToArea({
+      ...bounds,
+      x: Math.round(area.x + (bounds.x - from.x) * area.width / from.width),
+      y: Math.round(area.y + (bounds.y - from.y) * area.height / from.height)
+    }, area);
+  });
+}
+
+/** The offset within `SNAP_DISTANCE` that brings an edge onto the closest target, or 0. */
+function nearestSnap(edges: number[], targets: number[]): number {
+  let best = 0;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const delta = target - edge;
+      if (Math.abs(delta) <= SNAP_DISTANCE && (best === 0 || Math.abs(delta) < Math.abs(best))) {
+        best = delta;
+      }
+    }
+  }
+  return best;
+}
+
+const spansOverlap = (start: number, length: number, otherStart: number, otherLength: number): boolean =>
+  start <= otherStart + otherLength + SNAP_DISTANCE && otherStart <= start + length + SNAP_DISTANCE;
+
+/**
+ * Moves `bounds` so edges that come close to another window's edges or to a
+ * work area's edges line up with them. Windows only attract each other when
+ * they are side by side or one above the other; the size never changes.
+ */
+export function snapBounds(bounds: Rect, windows: Rect[], areas: Rect[]): Rect {
+  const xTargets: number[] = [];
+  const yTargets: number[] = [];
+  for (const area of areas) {
+    xTargets.push(area.x, area.x + area.width);
+    yTargets.push(area.y, area.y + area.height);
+  }
+  for (const other of windows) {
+    if (spansOverlap(bounds.y, bounds.height, other.y, other.height)) {
+      xTargets.push(other.x, other.x + other.width);
+    }
+    if (spansOverlap(bounds.x, bounds.width, other.x, other.width)) {
+      yTargets.push(other.y, other.y + other.height);
+    }
+  }
+  return {
+    ...bounds,
+    x: bounds.x + nearestSnap([bounds.x, bounds.x + bounds.width], xTargets),
+    y: bounds.y + nearestSnap([bounds.y, bounds.y + bounds.height], yTargets)
+  };
+}
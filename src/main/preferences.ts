@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { app, nativeTheme } from 'electron';
+import { createPaletteFile, paletteFileValidator, type PaletteColor } from '../shared/palette';
+import { DEFAULT_PREFERENCES, preferenceValidators, type Preferences } from '../shared/preferences';
+import { writeFileAtomic } from './storage/atomicFile';
+
+const PREFERENCES_VERSION = 1;
+
+type RawPreferences = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawPreferences =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Steps that upgrade stored preferences from version N to N + 1, for when a
+ * preference is renamed or changes meaning. Added preferences need no step.
+ */
+const migrations: Record<number, (preferences: RawPreferences) => RawPreferences> = {};
+
+/**
+ * Reads preferences as any version stored them. After the upgrade steps,
+ * each preference is validated on its own: one that is missing, because it
+ * was added since, or invalid takes its default and the rest are kept.
+ */
+export function migratePreferences(data: unknown): Preferences {
+  if (!isRecord(data) || !isRecord(data.preferences)) {
+    throw new Error('Expected a preferences file');
+  }
+  let raw = data.preferences;
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : PREFERENCES_VERSION;
+  for (let version = fromVersion; version < PREFERENCES_VERSION; version++) {
+    raw = migrations[version]?.(raw) ?? raw;
+  }
+
+  const preferences = { ...DEFAULT_PREFERENCES };
+  for (const key of Object.keys(preferenceValidators) as (keyof Preferences)[]) {
+    if (raw[key] === undefined) continue;
+    try {
+      Object.assign(preferences, { [key]: preferenceValidators[key](raw[key], `preferences.${key}`) });
+    } catch (error) {
+      console.warn('Ignoring invalid preference:', error);
+    }
+  }
+  return preferences;
+}
+
+// Only these platforms have login items Electron can set
+const HAS_LOGIN_ITEMS = process.platform === 'darwin' || process.platform === 'win32';
+
+/**
+ * Defaults for new notes, autosave timing, note text, the theme, the color
+ * palette and launching at login, kept in `preferences.json` next to the
+ * notes. Every change is handed to `onChange` so open windows can follow
+ * along; the theme is applied through `nativeTheme`, which windows see as
+ * their `prefers-color-scheme`.
+ */
+export class PreferenceStore {
+  private preferences: Preferences = DEFAULT_PREFERENCES;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly onChange: (preferences: Preferences) => void
+  ) {}
+
+  async open(): Promise<void> {
+    try {
+      const text = await fs.promises.readFile(this.filePath, 'utf-8');
+      this.preferences = migratePreferences(JSON.parse(text));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Ignoring unreadable preferences:', error);
+      }
+    }
+    // The user may have changed the login item in the system's settings
+    if (HAS_LOGIN_ITEMS) {
+      this.preferences = { ...this.preferences, launchAtLogin: app.getLoginItemSettings().openAtLogin };
+    }
+    nativeTheme.themeSource = this.preferences.theme;
+  }
+
+  get(): Preferences {
+    return { ...this.preferences };
+  }
+
+  async set(preferences: Preferences): Promise<Preferences> {
+    if (HAS_LOGIN_ITEMS && preferences.launchAtLogin !== this.preferences.launchAtLogin) {
+      app.setLoginItemSettings({ openAtLogin: preferences.launchAtLogin });
+    }
+    nativeTheme.themeSource = preferences.theme;
+    this.preferences = { ...preferences };
+    const data = { schemaVersion: PREFERENCES_VERSION, preferences: this.preferences };
+    await writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+    this.onChange(this.get());
+    return this.get();
+  }
+}
+
+/** Reads a palette file as `writePaletteFile` writes it. */
+export async function readPaletteFile(filePath: string): Promise<PaletteColor[]> {
+  const text = await fs.promises.readFile(filePath, 'utf-8');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${path.basename(filePath)} is not a palette file`);
+  }
+  return paletteFileValidator(data, 'palette').colors;
+}
+
+export async function writePaletteFile(filePath: string, colors: PaletteColor[]): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(createPaletteFile(colors), null, 2));
+}
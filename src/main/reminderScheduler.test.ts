@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { StickyNote } from '../shared/note';
+import { isReminderPending, type NoteReminder } from '../shared/reminder';
+import { ReminderScheduler, type Clock } from './reminderScheduler';
+import { CachedNoteRepository } from './storage/noteRepository';
+
+class MemoryNoteRepository extends CachedNoteRepository {
+  constructor(private readonly initial: StickyNote[]) {
+    super();
+  }
+
+  protected async load(): Promise<StickyNote[]> {
+    return this.initial;
+  }
+
+  protected async persist(): Promise<void> {}
+
+  async rewrite(): Promise<void> {}
+}
+
+/** A clock that only moves when told to, running the timers that come due. */
+class ManualClock implements Clock {
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(private time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  advanceTo(time: number): void {
+    this.time = time;
+    for (const [handle, timer] of [...this.timers]) {
+      if (timer.at <= time) {
+        this.timers.delete(handle);
+        timer.callback();
+      }
+    }
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 3, 12).getTime();
+const LAST_EDIT = new Date(2024, 4, 1).toISOString();
+
+const note = (id: string, reminder: NoteReminder): StickyNote => ({
+  id,
+  title: id,
+  content: '',
+  color: '#fff9b1',
+  x: 0,
+  y: 0,
+  width: 300,
+  height: 300,
+  created: LAST_EDIT,
+  updated: LAST_EDIT,
+  alwaysOnTop: false,
+  notebookId: 'default',
+  tags: [],
+  reminder
+});
+
+const setUp = async (notes: StickyNote[]) => {
+  const repository = new MemoryNoteRepository(notes);
+  await repository.open();
+  const clock = new ManualClock(NOW);
+  const notify = vi.fn<[StickyNote, boolean], void>();
+  const scheduler = new ReminderScheduler(repository, { notify, clock });
+  await scheduler.start();
+  return { repository, clock, notify, scheduler };
+};
+
+describe('ReminderScheduler', () => {
+  it('catches up on reminders missed while the app was closed, once each', async () => {
+    const { repository, notify, scheduler } = await setUp([
+      note('once', { at: new Date(NOW - 5 * HOUR).toISOString(), recurrence: 'none' }),
+      // Missed three times over; still shown only once
+      note('daily', { at: new Date(NOW - 3 * 24 * HOUR).toISOString(), recurrence: 'daily' }),
+      note('later', { at: new Date(NOW + HOUR).toISOString(), recurrence: 'none' })
+    ]);
+    scheduler.stop();
+
+    expect(notify.mock.calls.map(([shown, missed]) => [shown.id, missed])).toEqual([['once', true], ['daily', true]]);
+
+    const once = await repository.get('once');
+    expect(once?.reminder?.firedAt).toBe(new Date(NOW).toISOString());
+    expect(once?.reminder && isReminderPending(once.reminder)).toBe(false);
+
+    const daily = await repository.get('daily');
+    expect(Date.parse(daily!.reminder!.at)).toBeGreaterThan(NOW);
+    expect(daily?.reminder && isReminderPending(daily.reminder)).toBe(true);
+  });
+
+  it('does not count firing as an edit to the note', async () => {
+    const { repository, scheduler } = await setUp([
+      note('once', { at: new Date(NOW - HOUR).toISOString(), recurrence: 'none' })
+    ]);
+    scheduler.stop();
+    expect((await repository.get('once'))?.updated).toBe(LAST_EDIT);
+  });
+
+  it('fires upcoming reminders when their time comes', async () => {
+    const { clock, notify, scheduler } = await setUp([
+      note('later', { at: new Date(NOW + HOUR).toISOString(), recurrence: 'none' })
+    ]);
+    expect(notify).not.toHaveBeenCalled();
+
+    clock.advanceTo(NOW + HOUR);
+    await vi.waitFor(() => expect(notify).toHaveBeenCalledTimes(1));
+    expect(notify.mock.calls[0][1]).toBe(false);
+    scheduler.stop();
+  });
+
+  it('schedules reminders added after it started', async () => {
+    const { repository, clock, notify, scheduler } = await setUp([
+      note('plain', { at: LAST_EDIT, recurrence: 'none', firedAt: LAST_EDIT })
+    ]);
+    await repository.update('plain', { reminder: { at: new Date(NOW + 2 * HOUR).toISOString(), recurrence: 'none' } });
+
+    clock.advanceTo(NOW + HOUR);
+    await Promise.resolve();
+    expect(notify).not.toHaveBeenCalled();
+
+    clock.advanceTo(NOW + 2 * HOUR);
+    await vi.waitFor(() => expect(notify).toHaveBeenCalledTimes(1));
+    scheduler.stop();
+  });
+});
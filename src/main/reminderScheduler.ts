@@ -0,0 +1,129 @@
+import type { StickyNote } from '../shared/note';
+import { isReminderPending, nextOccurrence } from '../shared/reminder';
+import type { NoteEvent, NoteRepository } from './storage';
+
+/** Time source for the scheduler; swap it out to drive reminders in tests. */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+export interface ReminderSchedulerOptions {
+  /** Shows the notification; `missed` is true when the reminder came due while the app was closed. */
+  notify: (note: StickyNote, missed: boolean) => void;
+  clock?: Clock;
+}
+
+// Wake at least this often, so long sleeps and clock changes are noticed
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * Fires note reminders. Only the earliest pending reminder has a timer; the
+ * schedule is recomputed whenever the repository reports a change. On start
+ * it catches up on reminders that came due while the app was closed,
+ * showing each once rather than once per missed occurrence.
+ */
+export class ReminderScheduler {
+  private readonly clock: Clock;
+  private pending = new Map<string, number>();
+  private timer: unknown = null;
+  private unsubscribe: (() => void) | null = null;
+  private startedAt = 0;
+  private firing = false;
+
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly options: ReminderSchedulerOptions
+  ) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async start(): Promise<void> {
+    this.startedAt = this.clock.now();
+    for (const note of await this.repository.list()) {
+      this.track(note);
+    }
+    this.unsubscribe = this.repository.subscribe(event => this.handleEvent(event));
+    await this.fireDue();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private handleEvent(event: NoteEvent): void {
+    if (event.type === 'deleted') {
+      this.pending.delete(event.note.id);
+    } else {
+      this.track(event.note);
+    }
+    if (!this.firing) {
+      this.fireDue().catch(error => console.error('Error firing reminders:', error));
+    }
+  }
+
+  private track(note: StickyNote): void {
+    if (note.reminder && !note.deletedAt && isReminderPending(note.reminder)) {
+      this.pending.set(note.id, Date.parse(note.reminder.at));
+    } else {
+      this.pending.delete(note.id);
+    }
+  }
+
+  /** Fires every reminder that is due, then sets a timer for the next one. */
+  private async fireDue(): Promise<void> {
+    this.firing = true;
+    try {
+      const now = this.clock.now();
+      const due = [...this.pending].filter(([, at]) => at <= now).map(([id]) => id);
+      for (const noteId of due) {
+        await this.fire(noteId, now);
+      }
+    } finally {
+      this.firing = false;
+    }
+    this.schedule();
+  }
+
+  private async fire(noteId: string, now: number): Promise<void> {
+    const note = await this.repository.get(noteId);
+    this.pending.delete(noteId);
+    if (!note?.reminder || note.deletedAt || !isReminderPending(note.reminder)) return;
+
+    const { reminder } = note;
+    this.options.notify(note, Date.parse(reminder.at) < this.startedAt);
+    const nextAt = nextOccurrence(reminder.at, reminder.recurrence, now);
+    // Firing is bookkeeping, not an edit: the note keeps its place in lists sorted by `updated`
+    const updated = await this.repository.update(noteId, {
+      reminder: { ...reminder, at: nextAt ?? reminder.at, firedAt: new Date(now).toISOString() }
+    }, { keepTimestamp: true });
+    this.track(updated);
+  }
+
+  private schedule(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.size === 0 || !this.unsubscribe) return;
+
+    const next = Math.min(...this.pending.values());
+    const delay = Math.min(Math.max(next - this.clock.now(), 0), MAX_TIMER_MS);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.fireDue().catch(error => console.error('Error firing reminders:', error));
+    }, delay);
+  }
+}
@@ -0,0 +1,161 @@
+import type { StickyNote } from '../shared/note';
+import type { SearchQuery, SearchResult, TextRange } from '../shared/search';
+import type { NoteEvent } from './storage';
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+const TITLE_WEIGHT = 3;
+
+/** Splits text into lowercase words; indexing and highlighting must agree on this. */
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const isWordChar = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/** Finds every place a word in `text` starts with one of `terms`. */
+function findRanges(text: string, terms: string[]): TextRange[] {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      if (!isWordChar(lower[index - 1])) {
+        ranges.push({ start: index, end: Math.min(index + term.length, text.length) });
+      }
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  // Merge overlaps so the renderer can slice the text in one pass
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function buildSnippet(content: string, ranges: TextRange[]): { snippet: string; snippetRanges: TextRange[] } {
+  let start = 0;
+  if (ranges.length > 0 && ranges[0].start > SNIPPET_LEAD) {
+    const boundary = content.lastIndexOf(' ', ranges[0].start - SNIPPET_LEAD);
+    start = boundary === -1 ? ranges[0].start - SNIPPET_LEAD : boundary + 1;
+  }
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const snippetRanges = ranges
+    .filter(range => range.start >= start && range.end <= end)
+    .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length }));
+  return { snippet: `${prefix}${content.slice(start, end)}${suffix}`, snippetRanges };
+}
+
+const inRange = (value: string, from?: string, to?: string): boolean => {
+  const time = Date.parse(value);
+  return (from === undefined || time >= Date.parse(from)) && (to === undefined || time <= Date.parse(to));
+};
+
+/**
+ * In-memory inverted index over note titles and contents. Matching is by
+ * word prefix, so results narrow as the user types; every query word must
+ * match. Notes in the Trash are not indexed.
+ */
+export class SearchIndex {
+  private notes = new Map<string, StickyNote>();
+  private postings = new Map<string, Set<string>>();
+  private noteTokens = new Map<string, Set<string>>();
+
+  rebuild(notes: StickyNote[]): void {
+    this.notes.clear();
+    this.postings.clear();
+    this.noteTokens.clear();
+    notes.forEach(note => this.add(note));
+  }
+
+  apply(event: NoteEvent): void {
+    this.remove(event.note.id);
+    if (event.type === 'saved') {
+      this.add(event.note);
+    }
+  }
+
+  search(query: SearchQuery): SearchResult[] {
+    const terms = [...new Set(tokenize(query.text ?? ''))];
+    const candidates = terms.length > 0 ? this.matchTerms(terms) : new Set(this.notes.keys());
+
+    const results: SearchResult[] = [];
+    for (const id of candidates) {
+      const note = this.notes.get(id);
+      if (!note || !this.passesFilters(note, query)) continue;
+
+      const titleRanges = findRanges(note.title, terms);
+      const contentRanges = findRanges(note.content, terms);
+      results.push({
+        note: { ...note },
+        score: titleRanges.length * TITLE_WEIGHT + contentRanges.length,
+        titleRanges,
+        ...buildSnippet(note.content, contentRanges)
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.note.updated.localeCompare(a.note.updated));
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
+  private add(note: StickyNote): void {
+    if (note.deletedAt) return;
+    const tokens = new Set([...tokenize(note.title), ...tokenize(note.content), ...note.tags.flatMap(tokenize)]);
+    this.notes.set(note.id, note);
+    this.noteTokens.set(note.id, tokens);
+    for (const token of tokens) {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+      }
+      ids.add(note.id);
+    }
+  }
+
+  private remove(noteId: string): void {
+    const tokens = this.noteTokens.get(noteId);
+    if (!tokens) return;
+    for (const token of tokens) {
+      const ids = this.postings.get(token);
+      ids?.delete(noteId);
+      if (ids?.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    this.noteTokens.delete(noteId);
+    this.notes.delete(noteId);
+  }
+
+  /** Ids of notes that contain a word starting with every term. */
+  private matchTerms(terms: string[]): Set<string> {
+    const perTerm = terms.map(term => {
+      const ids = new Set<string>();
+      for (const [token, tokenIds] of this.postings) {
+        if (token.startsWith(term)) {
+          tokenIds.forEach(id => ids.add(id));
+        }
+      }
+      return ids;
+    });
+    const [first, ...rest] = perTerm;
+    return new Set([...first].filter(id => rest.every(ids => ids.has(id))));
+  }
+
+  private passesFilters(note: StickyNote, query: SearchQuery): boolean {
+    if (query.colors && query.colors.length > 0 && !query.colors.includes(note.color)) return false;
+    if (query.alwaysOnTop !== undefined && note.alwaysOnTop !== query.alwaysOnTop) return false;
+    return inRange(note.created, query.createdFrom, query.createdTo)
+      && inRange(note.updated, query.updatedFrom, query.updatedTo);
+  }
+}
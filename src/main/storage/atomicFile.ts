@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+let tempCounter = 0;
+
+/**
+ * Writes `data` to a temp file in the same directory, syncs it and renames it
+ * over `filePath`, so a crash leaves either the old or the new file intact.
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${tempCounter++}.tmp`;
+  const handle = await fs.promises.open(tempPath, 'w');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Wraps a snapshot writer so calls are serialized and coalesced: every call
+ * made while a write is queued shares that write, and a call made while a
+ * write is running schedules exactly one more.
+ */
+export function coalesceWrites(write: () => Promise<void>): () => Promise<void> {
+  let writing: Promise<void> = Promise.resolve();
+  let pending: Promise<void> | null = null;
+
+  return () => {
+    if (!pending) {
+      const next = writing
+        .catch(() => undefined)
+        .then(() => {
+          // Later calls must schedule a new write; this one has started
+          pending = null;
+          return write();
+        });
+      pending = next;
+      writing = next;
+    }
+    return pending;
+  };
+}
+
+export interface BackupOptions {
+  /** Directory the copies are written to. */
+  directory: string;
+  /** How many copies to keep; the oldest are deleted first. */
+  maxBackups: number;
+}
+
+/**
+ * Copies `filePath` into the backup directory as `<name>-<timestamp>.json`
+ * and prunes old copies. Does nothing if the file does not exist yet.
+ */
+export async function rotateBackup(filePath: string, options: BackupOptions): Promise<void> {
+  const { name, ext } = path.parse(filePath);
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.promises.mkdir(options.directory, { recursive: true });
+  try {
+    await fs.promises.copyFile(filePath, path.join(options.directory, `${name}-${stamp}${ext}`));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  // ISO timestamps sort lexically, so the newest copies come last
+  const backups = (await fs.promises.readdir(options.directory))
+    .filter(file => file.startsWith(`${name}-`) && file.endsWith(ext))
+    .sort();
+  const stale = backups.slice(0, Math.max(0, backups.length - options.maxBackups));
+  await Promise.all(stale.map(file => fs.promises.rm(path.join(options.directory, file), { force: true })));
+}
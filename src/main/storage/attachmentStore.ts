@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { attachmentFileValidator, type Attachment } from '../../shared/attachment';
+import { writeFileAtomic } from './atomicFile';
+
+// Files younger than this are kept by `sweep` even when no note refers to
+// them yet: they are being attached, imported or synced right now
+const SWEEP_GRACE_MS = 60 * 1000;
+
+const extensionOf = (name: string): string => {
+  const extension = path.extname(name).toLowerCase();
+  return /^\.[a-z0-9]{1,10}$/.test(extension) ? extension : '';
+};
+
+const hashOf = (data: Uint8Array): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Attachment files are opened by other apps and named by their content, so
+ * they cannot be encrypted; while notes are, no new ones are stored.
+ */
+export class AttachmentsEncryptedError extends Error {
+  constructor() {
+    super('Files cannot be attached while notes are encrypted');
+    this.name = 'AttachmentsEncryptedError';
+  }
+}
+
+/**
+ * Attachment files, named by the SHA-256 of their content plus the original
+ * extension so the system still knows how to open them. Notes refer to
+ * files by name; files no note refers to are removed by `sweep`.
+ */
+export class AttachmentStore {
+  constructor(
+    private readonly directory: string,
+    /** Whether notes are encrypted, in which case adding files is refused. */
+    private readonly encrypted: () => boolean = () => false
+  ) {}
+
+  /** Stores `data` and describes it; content already stored is not written again. */
+  async add(name: string, type: string, data: Uint8Array): Promise<Attachment> {
+    this.checkWritable();
+    const file = `${hashOf(data)}${extensionOf(name)}`;
+    if (!(await this.has(file))) {
+      await writeFileAtomic(this.pathOf(file), data);
+    }
+    return { file, name: path.basename(name).slice(0, 255) || file, type: type.slice(0, 255), size: data.byteLength };
+  }
+
+  /**
+   * Stores the content of an attachment that arrives with its name already
+   * set, e.g. from an import. Returns false if the content does not match.
+   */
+  async put(file: string, data: Uint8Array): Promise<boolean> {
+    this.checkWritable();
+    if (!file.startsWith(hashOf(data))) {
+      return false;
+    }
+    if (!(await this.has(file))) {
+      await writeFileAtomic(this.pathOf(file), data);
+    }
+    return true;
+  }
+
+  async has(file: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.pathOf(file));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  read(file: string): Promise<Buffer> {
+    return fs.promises.readFile(this.pathOf(file));
+  }
+
+  /** Where `file` is kept; throws for names that are not attachment files. */
+  pathOf(file: string): string {
+    return path.join(this.directory, attachmentFileValidator(file, 'file'));
+  }
+
+  /** Whether any attachment file is stored, including ones no note refers to yet. */
+  async isEmpty(): Promise<boolean> {
+    try {
+      return (await fs.promises.readdir(this.directory)).length === 0;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return true;
+      throw error;
+    }
+  }
+
+  /** Removes files not in `inUse` and returns how many went. */
+  async sweep(inUse: ReadonlySet<string>, now = Date.now()): Promise<number> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+    let removed = 0;
+    for (const name of names) {
+      const filePath = path.join(this.directory, name);
+      if (inUse.has(name)) continue;
+      // Leftover temp files from an interrupted write are swept as well
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (!stat?.isFile() || now - stat.mtimeMs < SWEEP_GRACE_MS) continue;
+      await fs.promises.rm(filePath, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private checkWritable(): void {
+    if (this.encrypted()) {
+      throw new AttachmentsEncryptedError();
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+
+// Encrypted text is stored as a one-line JSON envelope, so it fits both whole
+// files and journal lines. AES-256-GCM authenticates as well as encrypts:
+// a wrong key or a tampered file fails to decrypt instead of yielding junk.
+
+const ALGORITHM = 'aes-256-gcm';
+const ENVELOPE_PREFIX = `{"enc":"${ALGORITHM}"`;
+
+interface Envelope {
+  enc: typeof ALGORITHM;
+  /** Id of the key the data was encrypted with. */
+  kid: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is not correct');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class StoreLockedError extends Error {
+  constructor() {
+    super('Notes are locked; enter the passphrase to unlock them');
+    this.name = 'StoreLockedError';
+  }
+}
+
+/** scrypt settings, stored next to the wrapped keys so they can be raised later. */
+export interface KdfParams {
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const newKdfParams = (): KdfParams => ({ salt: randomBytes(16).toString('base64'), N: 2 ** 15, r: 8, p: 1 });
+
+export const newKeyId = (): string => randomBytes(6).toString('hex');
+
+export const newDataKey = (): Buffer => randomBytes(32);
+
+/** Derives a 256-bit key from a passphrase. Deliberately slow. */
+export function deriveKey(passphrase: string, params: KdfParams): Promise<Buffer> {
+  const { salt, N, r, p } = params;
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFC'), Buffer.from(salt, 'base64'), 32, { N, r, p, maxmem: 256 * N * r }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export const isEncrypted = (text: string): boolean => text.startsWith(ENVELOPE_PREFIX);
+
+export function encrypt(plaintext: string | Buffer, key: Buffer, kid: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const envelope: Envelope = {
+    enc: ALGORITHM,
+    kid,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+  return JSON.stringify(envelope);
+}
+
+/** The id of the key `text` was encrypted with. */
+export function keyIdOf(text: string): string {
+  return (JSON.parse(text) as Envelope).kid;
+}
+
+/** Decrypts an envelope; throws if the key is wrong or the data was altered. */
+export function decrypt(text: string, key: Buffer): Buffer {
+  const envelope = JSON.parse(text) as Envelope;
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+}
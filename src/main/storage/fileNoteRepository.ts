@@ -0,0 +1,66 @@
+import type { StickyNote } from '../../shared/note';
+import { coalesceWrites, rotateBackup } from './atomicFile';
+import { applyChange, journalPathFor, readJournal, truncateJournal } from './journal';
+import { readNoteStore, recodeStoreCopies, writeNoteStore } from './noteFile';
+import { CachedNoteRepository } from './noteRepository';
+import { plainCodec, type StoreCodec } from './storeCodec';
+
+export interface FileNoteRepositoryOptions {
+  filePath: string;
+  backupDirectory: string;
+  maxBackups?: number;
+  /** Minimum time between two rolling backups. */
+  backupIntervalMs?: number;
+  codec?: StoreCodec;
+}
+
+/**
+ * Default backend: rewrites the whole `notes.json` atomically. Writes are
+ * serialized and coalesced, so a burst of window moves costs one write for
+ * every mutation that arrived while the previous write was in flight.
+ */
+export class FileNoteRepository extends CachedNoteRepository {
+  private lastBackupAt = 0;
+  private readonly scheduleWrite = coalesceWrites(() => this.writeSnapshot());
+
+  private readonly codec: StoreCodec;
+
+  constructor(private readonly options: FileNoteRepositoryOptions) {
+    super();
+    this.codec = options.codec ?? plainCodec;
+  }
+
+  protected async load(): Promise<StickyNote[]> {
+    const notes = await readNoteStore(this.options.filePath, this.codec);
+
+    // Fold in changes left behind if the journal backend was used last
+    const journalPath = journalPathFor(this.options.filePath);
+    const { changes, torn } = await readJournal(journalPath, this.codec);
+    if (changes.length === 0 && !torn) {
+      return notes;
+    }
+    const byId = new Map(notes.map(note => [note.id, note]));
+    changes.forEach(change => applyChange(byId, change));
+    await writeNoteStore(this.options.filePath, [...byId.values()], this.codec);
+    await truncateJournal(journalPath);
+    return [...byId.values()];
+  }
+
+  protected persist(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  async rewrite(): Promise<void> {
+    await this.scheduleWrite();
+    await recodeStoreCopies(this.options.filePath, this.options.backupDirectory, this.codec);
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const { filePath, backupDirectory, maxBackups = 5, backupIntervalMs = 15 * 60 * 1000 } = this.options;
+    if (Date.now() - this.lastBackupAt >= backupIntervalMs) {
+      await rotateBackup(filePath, { directory: backupDirectory, maxBackups });
+      this.lastBackupAt = Date.now();
+    }
+    await writeNoteStore(filePath, this.snapshot(), this.codec);
+  }
+}
@@ -0,0 +1,30 @@
+import * as path from 'path';
+import { FileNoteRepository } from './fileNoteRepository';
+import { JournalNoteRepository } from './journalNoteRepository';
+import type { NoteRepository } from './noteRepository';
+import type { StoreCodec } from './storeCodec';
+
+export { DuplicateNoteError, NoteNotFoundError } from './noteRepository';
+export type { NoteEvent, NoteListener, NoteRepository, NoteUpdateOptions, StoredNotePatch } from './noteRepository';
+export { AttachmentsEncryptedError, AttachmentStore } from './attachmentStore';
+export { StoreLockedError, WrongPassphraseError } from './encryption';
+export { DuplicateNotebookError, NotebookNotFoundError, NotebookStore } from './notebookStore';
+export { RecoveryJournal } from './recoveryJournal';
+export { RevisionStore } from './revisionStore';
+export { plainCodec, recodeCorruptCopies, type StoreCodec } from './storeCodec';
+export { DuplicateTemplateError, TemplateNotFoundError, TemplateStore } from './templateStore';
+
+export type StorageBackend = 'file' | 'journal';
+
+export const isStorageBackend = (value: unknown): value is StorageBackend =>
+  value === 'file' || value === 'journal';
+
+/** Creates the repository for `notes.json` inside `directory`. */
+export function createNoteRepository(backend: StorageBackend, directory: string, codec?: StoreCodec): NoteRepository {
+  const options = {
+    filePath: path.join(directory, 'notes.json'),
+    backupDirectory: path.join(directory, 'backups'),
+    codec
+  };
+  return backend === 'journal' ? new JournalNoteRepository(options) : new FileNoteRepository(options);
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { noteIdValidator, noteValidator, storedNotePatchValidator, type StickyNote } from '../../shared/note';
+import { isoDate, object, oneOf } from '../../shared/validation';
+import type { NoteChange } from './noteRepository';
+import type { StoreCodec } from './storeCodec';
+
+// The journal is newline-delimited JSON, one NoteChange per line, appended
+// next to the snapshot as `<name>.journal`. Replaying it over the snapshot
+// is idempotent, so a crash between compaction steps loses nothing. Each line
+// is encoded on its own, so appending never has to rewrite earlier ones.
+
+const changeType = object({ type: oneOf('put', 'patch', 'delete') });
+const putChange = object({ type: oneOf('put'), note: noteValidator });
+const patchChange = object({ type: oneOf('patch'), id: noteIdValidator, patch: storedNotePatchValidator, updated: isoDate() });
+const deleteChange = object({ type: oneOf('delete'), id: noteIdValidator });
+
+export const journalPathFor = (storePath: string): string => {
+  const { dir, name } = path.parse(storePath);
+  return path.join(dir, `${name}.journal`);
+};
+
+function parseChange(line: string, lineNumber: number): NoteChange {
+  const data: unknown = JSON.parse(line);
+  const where = `journal line ${lineNumber}`;
+  switch (changeType(data, where).type) {
+    case 'put':
+      return putChange(data, where) as NoteChange;
+    case 'patch':
+      return patchChange(data, where) as NoteChange;
+    case 'delete':
+      return deleteChange(data, where) as NoteChange;
+  }
+}
+
+export interface JournalContents {
+  changes: NoteChange[];
+  /**
+   * The last entry was torn by a crash and skipped. The journal must be
+   * compacted before anything is appended, or the next entry would be
+   * written onto the end of the torn line.
+   */
+  torn: boolean;
+}
+
+/**
+ * Reads every change in the journal. Only the last entry may be unreadable,
+ * since a crash can tear the line being appended, and it is skipped. Any
+ * earlier unreadable entry is thrown, so the journal is left in place
+ * instead of being folded into the store without it.
+ */
+export async function readJournal(journalPath: string, codec: StoreCodec): Promise<JournalContents> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(journalPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { changes: [], torn: false };
+    throw error;
+  }
+
+  const lines = text.split('\n');
+  let lastEntry = lines.length - 1;
+  while (lastEntry >= 0 && !lines[lastEntry].trim()) lastEntry--;
+
+  const changes: NoteChange[] = [];
+  let torn = false;
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      changes.push(parseChange(codec.decode(line), index + 1));
+    } catch (error) {
+      if (index !== lastEntry) {
+        throw new Error(`Journal entry at line ${index + 1} of ${journalPath} is unreadable: ${error instanceof Error ? error.message : error}`);
+      }
+      console.warn(`Skipping torn journal entry at line ${index + 1}:`, error);
+      torn = true;
+    }
+  });
+  return { changes, torn };
+}
+
+export function applyChange(notes: Map<string, StickyNote>, change: NoteChange): void {
+  switch (change.type) {
+    case 'put':
+      notes.set(change.note.id, change.note);
+      break;
+    case 'patch': {
+      const existing = notes.get(change.id);
+      if (existing) {
+        notes.set(change.id, { ...existing, ...change.patch, updated: change.updated });
+      }
+      break;
+    }
+    case 'delete':
+      notes.delete(change.id);
+      break;
+  }
+}
+
+export async function appendJournal(journalPath: string, change: NoteChange, codec: StoreCodec): Promise<void> {
+  await fs.promises.appendFile(journalPath, `${codec.encode(JSON.stringify(change))}\n`, 'utf-8');
+}
+
+export async function truncateJournal(journalPath: string): Promise<void> {
+  await fs.promises.rm(journalPath, { force: true });
+}
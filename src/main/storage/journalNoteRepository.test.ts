@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { StickyNote } from '../../shared/note';
+import { journalPathFor } from './journal';
+import { JournalNoteRepository } from './journalNoteRepository';
+
+const note = (id: string): StickyNote => ({
+  id,
+  title: id,
+  content: '',
+  color: '#fff9b1',
+  x: 0,
+  y: 0,
+  width: 300,
+  height: 300,
+  created: '2024-05-01T08:00:00.000Z',
+  updated: '2024-05-01T08:00:00.000Z',
+  alwaysOnTop: false,
+  notebookId: 'default',
+  tags: []
+});
+
+describe('JournalNoteRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let journalPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sticky-notes-journal-'));
+    filePath = path.join(directory, 'notes.json');
+    journalPath = journalPathFor(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  // Each repository is dropped without `close`, as a crash would leave it
+  const openRepository = async () => {
+    const repository = new JournalNoteRepository({ filePath, backupDirectory: path.join(directory, 'backups') });
+    await repository.open();
+    return repository;
+  };
+
+  // What a crash halfway through an append leaves behind
+  const tearJournal = () => fs.promises.appendFile(journalPath, '{"type":"put","note":{"id":');
+
+  it('keeps changes made after a crash through a second crash', async () => {
+    const first = await openRepository();
+    await first.create(note('a'));
+    await tearJournal();
+
+    const second = await openRepository();
+    expect((await second.list()).map(({ id }) => id)).toEqual(['a']);
+    await second.create(note('b'));
+    await tearJournal();
+
+    const third = await openRepository();
+    expect((await third.list()).map(({ id }) => id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('refuses a journal whose unreadable entry is not the last', async () => {
+    const first = await openRepository();
+    await first.create(note('a'));
+    await fs.promises.appendFile(journalPath, 'not json\n');
+    await first.create(note('b'));
+
+    await expect(openRepository()).rejects.toThrow('Journal entry at line 2');
+    // Left in place for the user to recover from
+    expect(await fs.promises.readFile(journalPath, 'utf-8')).toContain('not json');
+  });
+});
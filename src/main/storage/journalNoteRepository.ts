@@ -0,0 +1,85 @@
+import type { StickyNote } from '../../shared/note';
+import { rotateBackup } from './atomicFile';
+import { appendJournal, applyChange, journalPathFor, readJournal, truncateJournal } from './journal';
+import { readNoteStore, recodeStoreCopies, writeNoteStore } from './noteFile';
+import { CachedNoteRepository, type NoteChange } from './noteRepository';
+import { plainCodec, type StoreCodec } from './storeCodec';
+
+export interface JournalNoteRepositoryOptions {
+  filePath: string;
+  backupDirectory: string;
+  maxBackups?: number;
+  /** Number of journal entries after which the snapshot is rewritten. */
+  compactAfter?: number;
+  codec?: StoreCodec;
+}
+
+/**
+ * Append-only backend for large boards: each mutation appends one line to
+ * `<name>.journal` and only compaction rewrites the `notes.json` snapshot.
+ */
+export class JournalNoteRepository extends CachedNoteRepository {
+  private readonly journalPath: string;
+  private readonly codec: StoreCodec;
+  private appending: Promise<void> = Promise.resolve();
+  private entries = 0;
+
+  constructor(private readonly options: JournalNoteRepositoryOptions) {
+    super();
+    this.journalPath = journalPathFor(options.filePath);
+    this.codec = options.codec ?? plainCodec;
+  }
+
+  protected async load(): Promise<StickyNote[]> {
+    const notes = await readNoteStore(this.options.filePath, this.codec);
+    const { changes, torn } = await readJournal(this.journalPath, this.codec);
+    const byId = new Map(notes.map(note => [note.id, note]));
+    changes.forEach(change => applyChange(byId, change));
+    this.entries = changes.length;
+    if (torn) {
+      // Fold the readable entries into the snapshot and drop the torn line,
+      // so the next append starts a line of its own
+      await writeNoteStore(this.options.filePath, [...byId.values()], this.codec);
+      await truncateJournal(this.journalPath);
+      this.entries = 0;
+    }
+    return [...byId.values()];
+  }
+
+  protected persist(change: NoteChange): Promise<void> {
+    const append = this.appending
+      .catch(() => undefined)
+      .then(async () => {
+        await appendJournal(this.journalPath, change, this.codec);
+        this.entries++;
+        if (this.entries >= (this.options.compactAfter ?? 500)) {
+          await this.compact();
+        }
+      });
+    this.appending = append;
+    return append;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    if (this.entries > 0) {
+      await this.compact();
+    }
+    await super.close();
+  }
+
+  async rewrite(): Promise<void> {
+    await this.flush();
+    await this.compact();
+    await recodeStoreCopies(this.options.filePath, this.options.backupDirectory, this.codec);
+  }
+
+  /** Rewrites the snapshot from memory and drops the replayed journal. */
+  private async compact(): Promise<void> {
+    const { filePath, backupDirectory, maxBackups = 5 } = this.options;
+    await rotateBackup(filePath, { directory: backupDirectory, maxBackups });
+    await writeNoteStore(filePath, this.snapshot(), this.codec);
+    await truncateJournal(this.journalPath);
+    this.entries = 0;
+  }
+}
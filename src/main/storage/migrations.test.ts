@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NOTEBOOK_ID } from '../../shared/notebook';
+import { NOTE_SCHEMA_VERSION } from '../../shared/note';
+import { detectSchemaVersion, migrateStore } from './migrations';
+
+// A note as the first version of the app wrote it: a bare array, no title,
+// fractional window bounds
+const v1Note = {
+  id: 'a',
+  content: '\n  Call the bank  \nabout the card',
+  color: '#fff9b1',
+  x: 10.4,
+  y: 20.6,
+  width: 300,
+  height: 250.5,
+  created: '2024-01-01T08:00:00.000Z',
+  updated: '2024-01-02T08:00:00.000Z'
+};
+
+const currentNote = {
+  ...v1Note,
+  title: 'Call the bank',
+  x: 10,
+  y: 21,
+  height: 251,
+  alwaysOnTop: true,
+  notebookId: DEFAULT_NOTEBOOK_ID,
+  tags: []
+};
+
+describe('detectSchemaVersion', () => {
+  it('reads the version of the store', () => {
+    expect(detectSchemaVersion([])).toBe(1);
+    expect(detectSchemaVersion({ schemaVersion: 4, notes: [] })).toBe(4);
+  });
+
+  it('rejects anything that is not a note store', () => {
+    expect(() => detectSchemaVersion({ notes: [] })).toThrow('Unrecognised note store format');
+    expect(() => detectSchemaVersion({ schemaVersion: 1.5, notes: [] })).toThrow();
+    expect(() => detectSchemaVersion('notes')).toThrow();
+  });
+});
+
+describe('migrateStore', () => {
+  it('brings a v1 store up to the current version', () => {
+    const { fromVersion, notes, quarantined } = migrateStore([v1Note]);
+    expect(fromVersion).toBe(1);
+    expect(quarantined).toEqual([]);
+    expect(notes).toEqual([currentNote]);
+  });
+
+  it('keeps what a v1 note already had', () => {
+    const { notes } = migrateStore([{ ...v1Note, title: 'Bank', alwaysOnTop: false }]);
+    expect(notes[0]).toMatchObject({ title: 'Bank', alwaysOnTop: false });
+  });
+
+  it('fills in missing timestamps from each other', () => {
+    const withoutCreated: Record<string, unknown> = { ...v1Note };
+    delete withoutCreated.created;
+    const { notes } = migrateStore([withoutCreated]);
+    expect(notes[0]).toMatchObject({ created: v1Note.updated, updated: v1Note.updated });
+  });
+
+  it('migrates every version from 2 onward to the same note', () => {
+    const { title, alwaysOnTop, x, y, height } = currentNote;
+    const v2Note = { ...v1Note, title, alwaysOnTop, x, y, height };
+    for (let version = 2; version < NOTE_SCHEMA_VERSION; version++) {
+      const note = version >= 4 ? { ...v2Note, notebookId: DEFAULT_NOTEBOOK_ID, tags: [] } : v2Note;
+      const result = migrateStore({ schemaVersion: version, notes: [note] });
+      expect(result.fromVersion).toBe(version);
+      expect(result.notes).toEqual([currentNote]);
+    }
+  });
+
+  it('puts notes from before notebooks in the default notebook', () => {
+    const { notes } = migrateStore({ schemaVersion: 3, notes: [{ ...currentNote, notebookId: undefined, tags: undefined }] });
+    expect(notes[0]).toMatchObject({ notebookId: DEFAULT_NOTEBOOK_ID, tags: [] });
+  });
+
+  it('leaves a current store as it is', () => {
+    const { fromVersion, notes } = migrateStore({ schemaVersion: NOTE_SCHEMA_VERSION, notes: [currentNote] });
+    expect(fromVersion).toBe(NOTE_SCHEMA_VERSION);
+    expect(notes).toEqual([currentNote]);
+  });
+
+  it('quarantines invalid records and repeated ids instead of dropping them', () => {
+    const invalid = { ...v1Note, id: 'b', width: 'wide' };
+    const { notes, quarantined } = migrateStore([v1Note, invalid, { ...v1Note, content: 'Again' }, 'not a note']);
+    expect(notes.map(note => note.id)).toEqual(['a']);
+    // Records are quarantined as migrated, so they can be fixed up and restored as they are
+    expect(quarantined.map(entry => entry.record)).toEqual([
+      expect.objectContaining({ id: 'b', width: 'wide', title: 'Call the bank' }),
+      expect.objectContaining({ id: 'a', content: 'Again' }),
+      'not a note'
+    ]);
+    expect(quarantined[1].reason).toBe('Duplicate note id a');
+  });
+
+  it('refuses stores newer than this app', () => {
+    expect(() => migrateStore({ schemaVersion: NOTE_SCHEMA_VERSION + 1, notes: [] })).toThrow('is newer than this app supports');
+  });
+
+  it('refuses a versioned store without a notes array', () => {
+    expect(() => migrateStore({ schemaVersion: 2 })).toThrow('Note store has no notes array');
+  });
+});
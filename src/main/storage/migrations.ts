@@ -0,0 +1,148 @@
+import { DEFAULT_NOTEBOOK_ID } from '../../shared/notebook';
+import { NOTE_SCHEMA_VERSION, noteValidator, type StickyNote } from '../../shared/note';
+
+type RawRecord = Record<string, unknown>;
+
+interface RawStore {
+  schemaVersion: number;
+  notes: unknown[];
+}
+
+export interface QuarantinedRecord {
+  reason: string;
+  record: unknown;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  notes: StickyNote[];
+  quarantined: QuarantinedRecord[];
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const firstLine = (content: unknown): string =>
+  typeof content === 'string' ? content.split('\n').find(line => line.trim())?.trim().slice(0, 100) ?? '' : '';
+
+const roundIfNumber = (value: unknown): unknown =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : value;
+
+/**
+ * Steps that upgrade a store from version N to N + 1. Each step works on raw,
+ * unvalidated records; records are only validated once the store is current.
+ */
+const migrations: Record<number, (store: RawStore) => RawStore> = {
+  // v1: the bare array written before the store was versioned. Notes had no
+  // title and every window was always on top.
+  1: (store) => ({
+    schemaVersion: 2,
+    notes: store.notes.map(note => {
+      if (!isRecord(note)) return note;
+      const now = new Date().toISOString();
+      return {
+        ...note,
+        title: typeof note.title === 'string' ? note.title : firstLine(note.content),
+        alwaysOnTop: typeof note.alwaysOnTop === 'boolean' ? note.alwaysOnTop : true,
+        x: roundIfNumber(note.x),
+        y: roundIfNumber(note.y),
+        width: roundIfNumber(note.width),
+        height: roundIfNumber(note.height),
+        created: note.created ?? note.updated ?? now,
+        updated: note.updated ?? note.created ?? now
+      };
+    })
+  }),
+  // v2: written before the Trash existed. `deletedAt` is optional, so notes
+  // carry over unchanged and stay live.
+  2: (store) => ({ schemaVersion: 3, notes: store.notes }),
+  // v3: written before notebooks and tags. Every note joins the default
+  // notebook; inline `#tags` in the content need no migration.
+  3: (store) => ({
+    schemaVersion: 4,
+    notes: store.notes.map(note => isRecord(note)
+      ? {
+        ...note,
+        notebookId: typeof note.notebookId === 'string' ? note.notebookId : DEFAULT_NOTEBOOK_ID,
+        tags: Array.isArray(note.tags) ? note.tags : []
+      }
+      : note)
+  }),
+  // v4: written before reminders. `dueAt` and `reminder` are optional, so
+  // notes carry over unchanged.
+  4: (store) => ({ schemaVersion: 5, notes: store.notes }),
+  // v5: written before notes remembered their display. `displayId` is
+  // optional; such notes stay where they are if that is on screen.
+  5: (store) => ({ schemaVersion: 6, notes: store.notes }),
+  // v6: written before note groups. `group` is optional, so every note
+  // carries over ungrouped.
+  6: (store) => ({ schemaVersion: 7, notes: store.notes }),
+  // v7: written before attachments. `attachments` is optional, so notes
+  // carry over without any.
+  7: (store) => ({ schemaVersion: 8, notes: store.notes }),
+  // v8: written before per-note typography. `typography` is optional, so
+  // notes carry over following the font preferences.
+  8: (store) => ({ schemaVersion: 9, notes: store.notes })
+};
+
+/** Returns the schema version of parsed `notes.json` contents. */
+export function detectSchemaVersion(data: unknown): number {
+  if (Array.isArray(data)) {
+    return 1;
+  }
+  if (isRecord(data) && typeof data.schemaVersion === 'number' && Number.isInteger(data.schemaVersion)) {
+    return data.schemaVersion;
+  }
+  throw new Error('Unrecognised note store format');
+}
+
+/**
+ * Upgrades parsed store contents to NOTE_SCHEMA_VERSION and validates every
+ * record. Records that fail validation, or repeat an earlier id, are returned
+ * in `quarantined` rather than dropped silently.
+ */
+export function migrateStore(data: unknown): MigrationResult {
+  const fromVersion = detectSchemaVersion(data);
+  if (fromVersion > NOTE_SCHEMA_VERSION) {
+    throw new Error(`Note store version ${fromVersion} is newer than this app supports (${NOTE_SCHEMA_VERSION})`);
+  }
+
+  let store: RawStore;
+  if (Array.isArray(data)) {
+    store = { schemaVersion: 1, notes: data };
+  } else {
+    const notes = (data as RawRecord).notes;
+    if (!Array.isArray(notes)) {
+      throw new Error('Note store has no notes array');
+    }
+    store = { schemaVersion: fromVersion, notes };
+  }
+
+  while (store.schemaVersion < NOTE_SCHEMA_VERSION) {
+    const step = migrations[store.schemaVersion];
+    if (!step) {
+      throw new Error(`No migration from note store version ${store.schemaVersion}`);
+    }
+    store = step(store);
+  }
+
+  const notes: StickyNote[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seenIds = new Set<string>();
+
+  store.notes.forEach((record, index) => {
+    try {
+      const note = noteValidator(record, `notes[${index}]`);
+      if (seenIds.has(note.id)) {
+        quarantined.push({ reason: `Duplicate note id ${note.id}`, record });
+        return;
+      }
+      seenIds.add(note.id);
+      notes.push(note);
+    } catch (error) {
+      quarantined.push({ reason: error instanceof Error ? error.message : String(error), record });
+    }
+  });
+
+  return { fromVersion, notes, quarantined };
+}
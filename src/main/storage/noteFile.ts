@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NOTE_SCHEMA_VERSION, type NoteStoreFile, type StickyNote } from '../../shared/note';
+import { writeFileAtomic } from './atomicFile';
+import { detectSchemaVersion, migrateStore, type QuarantinedRecord } from './migrations';
+import { recodeFile, type StoreCodec } from './storeCodec';
+
+const timestamp = (): string => new Date().toISOString().replace(/[:.]/g, '-');
+
+const siblingPath = (filePath: string, suffix: string): string => {
+  const { dir, name } = path.parse(filePath);
+  return path.join(dir, `${name}.${suffix}.json`);
+};
+
+/** Appends records to `<name>.quarantine.json` next to the store. */
+async function quarantineRecords(filePath: string, records: QuarantinedRecord[], codec: StoreCodec): Promise<void> {
+  const quarantinePath = siblingPath(filePath, 'quarantine');
+  let existing: unknown[] = [];
+  try {
+    const parsed = JSON.parse(codec.decode(await fs.promises.readFile(quarantinePath, 'utf-8')));
+    if (Array.isArray(parsed)) existing = parsed;
+  } catch {
+    // Missing or unreadable quarantine files are started afresh
+  }
+  const quarantinedAt = new Date().toISOString();
+  const entries = records.map(entry => ({ quarantinedAt, ...entry }));
+  await fs.promises.writeFile(quarantinePath, codec.encode(JSON.stringify([...existing, ...entries], null, 2)));
+  console.warn(`Quarantined ${records.length} malformed note(s) to ${quarantinePath}`);
+}
+
+export async function writeNoteStore(filePath: string, notes: StickyNote[], codec: StoreCodec): Promise<void> {
+  const store: NoteStoreFile = { schemaVersion: NOTE_SCHEMA_VERSION, notes };
+  await writeFileAtomic(filePath, codec.encode(JSON.stringify(store, null, 2)));
+}
+
+/**
+ * Reads the note store, migrating older versions forward. Before the file is
+ * rewritten a copy is kept as `<name>.v<old>-<timestamp>.json`. A file that
+ * cannot be parsed at all is moved aside to `<name>.corrupt-<timestamp>.json`
+ * instead of being overwritten by the next save. Errors from `codec`, such
+ * as a missing key, are thrown: the file is fine, it just cannot be read yet.
+ */
+export async function readNoteStore(filePath: string, codec: StoreCodec): Promise<StickyNote[]> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  text = codec.decode(text);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+    detectSchemaVersion(data);
+  } catch (error) {
+    const corruptPath = siblingPath(filePath, `corrupt-${timestamp()}`);
+    await fs.promises.rename(filePath, corruptPath);
+    console.error(`Note store is unreadable, moved it to ${corruptPath}:`, error);
+    return [];
+  }
+
+  const { fromVersion, notes, quarantined } = migrateStore(data);
+  if (fromVersion === NOTE_SCHEMA_VERSION && quarantined.length === 0) {
+    return notes;
+  }
+
+  await fs.promises.copyFile(filePath, siblingPath(filePath, `v${fromVersion}-${timestamp()}`));
+  if (quarantined.length > 0) {
+    await quarantineRecords(filePath, quarantined, codec);
+  }
+  await writeNoteStore(filePath, notes, codec);
+  if (fromVersion !== NOTE_SCHEMA_VERSION) {
+    console.warn(`Migrated note store from version ${fromVersion} to ${NOTE_SCHEMA_VERSION}`);
+  }
+  return notes;
+}
+
+/**
+ * Re-encodes the copies kept beside the store: rolling backups, migration
+ * copies and quarantined records. Copies that cannot be decoded are left alone.
+ */
+export async function recodeStoreCopies(filePath: string, backupDirectory: string, codec: StoreCodec): Promise<void> {
+  const { dir, name, ext } = path.parse(filePath);
+  const copies: string[] = [];
+  for (const [directory, prefix] of [[backupDirectory, `${name}-`], [dir, `${name}.`]]) {
+    try {
+      copies.push(...(await fs.promises.readdir(directory))
+        .filter(file => file.startsWith(prefix) && file.endsWith(ext) && file !== path.basename(filePath))
+        .map(file => path.join(directory, file)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  for (const copy of copies) {
+    try {
+      await recodeFile(copy, codec);
+    } catch (error) {
+      console.warn(`Could not re-encode ${copy}:`, error);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import type { StickyNote } from '../../shared/note';
+
+export class NoteNotFoundError extends Error {
+  constructor(public readonly noteId: string) {
+    super(`Note ${noteId} does not exist`);
+    this.name = 'NoteNotFoundError';
+  }
+}
+
+export class DuplicateNoteError extends Error {
+  constructor(public readonly noteId: string) {
+    super(`Note ${noteId} already exists`);
+    this.name = 'DuplicateNoteError';
+  }
+}
+
+/** Fields the repository may change on a stored note. */
+export type StoredNotePatch = Partial<Omit<StickyNote, 'id' | 'created' | 'updated'>>;
+
+export interface NoteUpdateOptions {
+  /**
+   * Keep the note's `updated` time, for bookkeeping such as a fired reminder
+   * that should not count as an edit to the note.
+   */
+  keepTimestamp?: boolean;
+}
+
+/** A single persisted mutation, as handed to a backend. */
+export type NoteChange =
+  | { type: 'put'; note: StickyNote }
+  | { type: 'patch'; id: string; patch: StoredNotePatch; updated: string }
+  | { type: 'delete'; id: string };
+
+/** Emitted to subscribers after a mutation has been applied in memory. */
+export type NoteEvent =
+  | { type: 'saved'; note: StickyNote; previous?: StickyNote }
+  | { type: 'deleted'; note: StickyNote };
+
+export type NoteListener = (event: NoteEvent) => void;
+
+/**
+ * Storage for notes. Mutations are applied in call order; each returned
+ * promise resolves once that mutation is durable on disk.
+ */
+export interface NoteRepository {
+  open(): Promise<void>;
+  list(): Promise<StickyNote[]>;
+  get(id: string): Promise<StickyNote | undefined>;
+  create(note: StickyNote): Promise<StickyNote>;
+  update(id: string, patch: StoredNotePatch, options?: NoteUpdateOptions): Promise<StickyNote>;
+  /** Stores `note` exactly as given, timestamps included, creating or replacing it. */
+  put(note: StickyNote): Promise<StickyNote>;
+  delete(id: string): Promise<boolean>;
+  /** Registers a listener for every mutation; returns an unsubscribe function. */
+  subscribe(listener: NoteListener): () => void;
+  /** Resolves once every mutation issued so far has been persisted. */
+  flush(): Promise<void>;
+  /** Writes every stored file again, backups included, e.g. after the encryption key changed. */
+  rewrite(): Promise<void>;
+  /** Persists pending changes and drops the notes from memory until the next `open`. */
+  close(): Promise<void>;
+}
+
+/**
+ * Keeps every note in memory and applies mutations synchronously, so there
+ * is no read-modify-write window for concurrent callers to race in.
+ * Backends only decide how a change reaches the disk.
+ */
+export abstract class CachedNoteRepository implements NoteRepository {
+  protected notes = new Map<string, StickyNote>();
+  private lastPersist: Promise<void> = Promise.resolve();
+  private listeners = new Set<NoteListener>();
+
+  protected abstract load(): Promise<StickyNote[]>;
+  protected abstract persist(change: NoteChange): Promise<void>;
+
+  async open(): Promise<void> {
+    const notes = await this.load();
+    this.notes = new Map(notes.map(note => [note.id, note]));
+  }
+
+  async list(): Promise<StickyNote[]> {
+    return [...this.notes.values()].map(note => ({ ...note }));
+  }
+
+  async get(id: string): Promise<StickyNote | undefined> {
+    const note = this.notes.get(id);
+    return note && { ...note };
+  }
+
+  async create(note: StickyNote): Promise<StickyNote> {
+    if (this.notes.has(note.id)) {
+      throw new DuplicateNoteError(note.id);
+    }
+    this.notes.set(note.id, { ...note });
+    this.emit({ type: 'saved', note: { ...note } });
+    await this.track(this.persist({ type: 'put', note: { ...note } }));
+    return { ...note };
+  }
+
+  async update(id: string, patch: StoredNotePatch, options: NoteUpdateOptions = {}): Promise<StickyNote> {
+    const existing = this.notes.get(id);
+    if (!existing) {
+      throw new NoteNotFoundError(id);
+    }
+    const updated = options.keepTimestamp ? existing.updated : new Date().toISOString();
+    const note = { ...existing, ...patch, updated };
+    this.notes.set(id, note);
+    this.emit({ type: 'saved', note: { ...note }, previous: { ...existing } });
+    // JSON cannot carry `undefined`, so patches that clear a field are
+    // persisted as the whole note
+    const clearsField = Object.values(patch).some(value => value === undefined);
+    const change: NoteChange = clearsField
+      ? { type: 'put', note: { ...note } }
+      : { type: 'patch', id, patch: { ...patch }, updated };
+    await this.track(this.persist(change));
+    return { ...note };
+  }
+
+  async put(note: StickyNote): Promise<StickyNote> {
+    const existing = this.notes.get(note.id);
+    this.notes.set(note.id, { ...note });
+    this.emit({ type: 'saved', note: { ...note }, previous: existing && { ...existing } });
+    await this.track(this.persist({ type: 'put', note: { ...note } }));
+    return { ...note };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = this.notes.get(id);
+    if (!existing) {
+      return false;
+    }
+    this.notes.delete(id);
+    this.emit({ type: 'deleted', note: { ...existing } });
+    await this.track(this.persist({ type: 'delete', id }));
+    return true;
+  }
+
+  subscribe(listener: NoteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async flush(): Promise<void> {
+    await this.lastPersist;
+  }
+
+  abstract rewrite(): Promise<void>;
+
+  async close(): Promise<void> {
+    await this.flush();
+    this.notes = new Map();
+  }
+
+  protected snapshot(): StickyNote[] {
+    return [...this.notes.values()];
+  }
+
+  private emit(event: NoteEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Note listener failed:', error);
+      }
+    }
+  }
+
+  private track(persisted: Promise<void>): Promise<void> {
+    this.lastPersist = persisted.catch(() => undefined);
+    return persisted;
+  }
+}
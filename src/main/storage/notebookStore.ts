@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import {
+  DEFAULT_NOTEBOOK_ID,
+  DEFAULT_NOTEBOOK_NAME,
+  notebookNameValidator,
+  notebookValidator,
+  type Notebook
+} from '../../shared/notebook';
+import { array, number, object, oneOf } from '../../shared/validation';
+import { coalesceWrites, writeFileAtomic } from './atomicFile';
+import { plainCodec, type StoreCodec } from './storeCodec';
+
+const NOTEBOOK_STORE_VERSION = 1;
+
+const notebookFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  notebooks: array(notebookValidator)
+});
+
+export class NotebookNotFoundError extends Error {
+  constructor(public readonly notebookId: string) {
+    super(`Notebook ${notebookId} does not exist`);
+    this.name = 'NotebookNotFoundError';
+  }
+}
+
+export class DuplicateNotebookError extends Error {
+  constructor(public readonly notebookName: string) {
+    super(`A notebook named "${notebookName}" already exists`);
+    this.name = 'DuplicateNotebookError';
+  }
+}
+
+export interface NotebookStoreOptions {
+  filePath: string;
+  codec?: StoreCodec;
+}
+
+/**
+ * Notebook names, kept in `notebooks.json`. Notes refer to notebooks by id,
+ * so renaming one never touches the note store. The default notebook
+ * always exists.
+ */
+export class NotebookStore {
+  private notebooks = new Map<string, Notebook>();
+  private readonly scheduleWrite = coalesceWrites(() => this.write());
+
+  constructor(private readonly options: NotebookStoreOptions) {}
+
+  async open(): Promise<void> {
+    let text: string | undefined;
+    try {
+      text = await fs.promises.readFile(this.options.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    if (text !== undefined) {
+      const data = notebookFileValidator(JSON.parse((this.options.codec ?? plainCodec).decode(text)), 'notebooks');
+      oneOf(NOTEBOOK_STORE_VERSION)(data.schemaVersion, 'notebooks.schemaVersion');
+      this.notebooks = new Map(data.notebooks.map(notebook => [notebook.id, notebook]));
+    }
+    if (!this.notebooks.has(DEFAULT_NOTEBOOK_ID)) {
+      const now = new Date().toISOString();
+      this.notebooks.set(DEFAULT_NOTEBOOK_ID, {
+        id: DEFAULT_NOTEBOOK_ID,
+        name: DEFAULT_NOTEBOOK_NAME,
+        created: now,
+        updated: now
+      });
+      await this.scheduleWrite();
+    }
+  }
+
+  /** The default notebook first, then the rest by name. */
+  list(): Notebook[] {
+    return [...this.notebooks.values()]
+      .map(notebook => ({ ...notebook }))
+      .sort((a, b) => Number(b.id === DEFAULT_NOTEBOOK_ID) - Number(a.id === DEFAULT_NOTEBOOK_ID)
+        || a.name.localeCompare(b.name));
+  }
+
+  get(id: string): Notebook | undefined {
+    const notebook = this.notebooks.get(id);
+    return notebook && { ...notebook };
+  }
+
+  async create(name: string): Promise<Notebook> {
+    const cleanName = this.claimName(name);
+    const now = new Date().toISOString();
+    const notebook: Notebook = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      name: cleanName,
+      created: now,
+      updated: now
+    };
+    this.notebooks.set(notebook.id, notebook);
+    await this.scheduleWrite();
+    return { ...notebook };
+  }
+
+  async rename(id: string, name: string): Promise<Notebook> {
+    const existing = this.notebooks.get(id);
+    if (!existing) {
+      throw new NotebookNotFoundError(id);
+    }
+    const notebook = { ...existing, name: this.claimName(name, id), updated: new Date().toISOString() };
+    this.notebooks.set(id, notebook);
+    await this.scheduleWrite();
+    return { ...notebook };
+  }
+
+  /**
+   * Stores a notebook from another machine as given. Its name is not checked:
+   * two machines may each have created a notebook with the same name.
+   */
+  async put(notebook: Notebook): Promise<void> {
+    this.notebooks.set(notebook.id, { ...notebook });
+    await this.scheduleWrite();
+  }
+
+  async remove(id: string): Promise<void> {
+    if (id === DEFAULT_NOTEBOOK_ID) {
+      throw new Error('The default notebook cannot be removed');
+    }
+    if (!this.notebooks.delete(id)) {
+      throw new NotebookNotFoundError(id);
+    }
+    await this.scheduleWrite();
+  }
+
+  flush(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  /** Writes pending changes and drops the notebooks from memory until the next `open`. */
+  async close(): Promise<void> {
+    await this.scheduleWrite();
+    this.notebooks = new Map();
+  }
+
+  /** Trims `name` and checks no other notebook uses it, ignoring case. */
+  private claimName(name: string, exceptId?: string): string {
+    const cleanName = notebookNameValidator(name.trim(), 'name');
+    for (const notebook of this.notebooks.values()) {
+      if (notebook.id !== exceptId && notebook.name.toLowerCase() === cleanName.toLowerCase()) {
+        throw new DuplicateNotebookError(cleanName);
+      }
+    }
+    return cleanName;
+  }
+
+  private async write(): Promise<void> {
+    const data = {
+      schemaVersion: NOTEBOOK_STORE_VERSION,
+      notebooks: [...this.notebooks.values()]
+    };
+    await writeFileAtomic(this.options.filePath, (this.options.codec ?? plainCodec).encode(JSON.stringify(data, null, 2)));
+  }
+}
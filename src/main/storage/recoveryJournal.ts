@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import { noteIdValidator, notePatchValidator, type NotePatch, type StickyNote, type UnsavedEdits } from '../../shared/note';
+import { array, isoDate, number, object, oneOf } from '../../shared/validation';
+import { coalesceWrites, writeFileAtomic } from './atomicFile';
+import { plainCodec, type StoreCodec } from './storeCodec';
+
+const RECOVERY_JOURNAL_VERSION = 1;
+
+const recoveryFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  edits: array(object({
+    noteId: noteIdValidator,
+    patch: notePatchValidator,
+    editedAt: isoDate()
+  }))
+});
+
+const merge = (earlier: UnsavedEdits | undefined, later: UnsavedEdits): UnsavedEdits =>
+  earlier ? { ...later, patch: { ...earlier.patch, ...later.patch } } : later;
+
+export interface RecoveryJournalOptions {
+  filePath: string;
+  codec?: StoreCodec;
+}
+
+/**
+ * Edits windows have made but not saved yet, kept in `recovery.json`. Edits
+ * are recorded as they are typed and settled once saved, so whatever is
+ * still there when the app starts was cut off by a crash and can be offered
+ * back until it is recovered or discarded.
+ */
+export class RecoveryJournal {
+  private pending = new Map<string, UnsavedEdits>();
+  private recovered = new Map<string, UnsavedEdits>();
+  private readonly scheduleWrite = coalesceWrites(() => this.write());
+
+  constructor(private readonly options: RecoveryJournalOptions) {}
+
+  async open(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.options.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    // Decoding errors, such as a missing key, must not be mistaken for a damaged file
+    text = (this.options.codec ?? plainCodec).decode(text);
+    try {
+      const data = recoveryFileValidator(JSON.parse(text), 'recovery');
+      oneOf(RECOVERY_JOURNAL_VERSION)(data.schemaVersion, 'recovery.schemaVersion');
+      // Entries are written oldest first, so later edits win
+      for (const edits of data.edits) {
+        this.recovered.set(edits.noteId, merge(this.recovered.get(edits.noteId), edits));
+      }
+    } catch (error) {
+      console.error('Ignoring unreadable recovery journal:', error);
+    }
+  }
+
+  /** Adds edits to a note, on top of any recorded earlier. */
+  record(noteId: string, patch: NotePatch): Promise<void> {
+    const edits = { noteId, patch, editedAt: new Date().toISOString() };
+    this.pending.set(noteId, merge(this.pending.get(noteId), edits));
+    return this.scheduleWrite();
+  }
+
+  /** Forgets recorded edits that `saved` has stored; later ones are kept. */
+  settle(noteId: string, saved: NotePatch): Promise<void> {
+    const edits = this.pending.get(noteId);
+    if (!edits) {
+      return Promise.resolve();
+    }
+    const patch = Object.fromEntries(Object.entries(edits.patch).filter(
+      ([field, value]) => JSON.stringify(value) !== JSON.stringify(saved[field as keyof NotePatch])
+    ));
+    if (Object.keys(patch).length > 0) {
+      this.pending.set(noteId, { ...edits, patch });
+    } else {
+      this.pending.delete(noteId);
+    }
+    return this.scheduleWrite();
+  }
+
+  /** Forgets edits to a note that are not going to be saved. */
+  discard(noteId: string): Promise<void> {
+    return this.pending.delete(noteId) ? this.scheduleWrite() : Promise.resolve();
+  }
+
+  /**
+   * Drops edits left from the last session that there is nothing to recover
+   * from: the note is gone or in the Trash, or already has every edit.
+   */
+  prune(notes: StickyNote[]): Promise<void> {
+    const byId = new Map(notes.map(note => [note.id, note]));
+    let changed = false;
+    for (const [noteId, edits] of this.recovered) {
+      const note = byId.get(noteId);
+      const lost = Object.entries(edits.patch).some(
+        ([field, value]) => JSON.stringify(value) !== JSON.stringify(note?.[field as keyof StickyNote])
+      );
+      if (!note || note.deletedAt || !lost) {
+        this.recovered.delete(noteId);
+        changed = true;
+      }
+    }
+    return changed ? this.scheduleWrite() : Promise.resolve();
+  }
+
+  /** Edits cut off when the app last stopped, newest first. */
+  listRecovered(): UnsavedEdits[] {
+    return [...this.recovered.values()].sort((a, b) => b.editedAt.localeCompare(a.editedAt));
+  }
+
+  /** Removes and returns the edits to a note left from the last session. */
+  takeRecovered(noteId: string): UnsavedEdits | undefined {
+    const edits = this.recovered.get(noteId);
+    if (edits) {
+      this.recovered.delete(noteId);
+      this.scheduleWrite().catch(error => console.error('Error writing recovery journal:', error));
+    }
+    return edits;
+  }
+
+  flush(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  /** Writes pending changes and drops the edits from memory until the next `open`. */
+  async close(): Promise<void> {
+    await this.scheduleWrite();
+    this.pending = new Map();
+    this.recovered = new Map();
+  }
+
+  private async write(): Promise<void> {
+    const data = {
+      schemaVersion: RECOVERY_JOURNAL_VERSION,
+      edits: [...this.recovered.values(), ...this.pending.values()]
+    };
+    await writeFileAtomic(this.options.filePath, (this.options.codec ?? plainCodec).encode(JSON.stringify(data)));
+  }
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { noteIdValidator, type NoteRevision, type StickyNote } from '../../shared/note';
+import { array, isoDate, number, object, oneOf, record, string } from '../../shared/validation';
+import { coalesceWrites, writeFileAtomic } from './atomicFile';
+import { plainCodec, recodeCorruptCopies, type StoreCodec } from './storeCodec';
+
+const REVISION_STORE_VERSION = 1;
+
+const revisionValidator = object({
+  id: string({ nonEmpty: true }),
+  noteId: noteIdValidator,
+  title: string(),
+  content: string(),
+  savedAt: isoDate()
+});
+
+const revisionFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  revisions: record(array(revisionValidator))
+});
+
+export interface RevisionStoreOptions {
+  filePath: string;
+  /** Revisions kept per note; the oldest are dropped first. */
+  maxPerNote?: number;
+  /**
+   * Saves closer together than this extend the current editing burst
+   * instead of recording another revision.
+   */
+  minIntervalMs?: number;
+  codec?: StoreCodec;
+}
+
+/**
+ * Bounded per-note history of titles and contents, kept in its own
+ * `revisions.json` so the note store stays small.
+ */
+export class RevisionStore {
+  private revisions = new Map<string, NoteRevision[]>();
+  private lastCaptureAt = new Map<string, number>();
+  private readonly scheduleWrite = coalesceWrites(() => this.write());
+
+  constructor(private readonly options: RevisionStoreOptions) {}
+
+  async open(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.options.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    // Decoding errors, such as a missing key, must not be mistaken for a damaged file
+    text = (this.options.codec ?? plainCodec).decode(text);
+    try {
+      const data = revisionFileValidator(JSON.parse(text), 'revisions');
+      oneOf(REVISION_STORE_VERSION)(data.schemaVersion, 'revisions.schemaVersion');
+      this.revisions = new Map(Object.entries(data.revisions));
+    } catch (error) {
+      // History is a convenience; never block startup on it, but move the
+      // file aside so the next capture does not write over what it held
+      const { dir, name } = path.parse(this.options.filePath);
+      const corruptPath = path.join(dir, `${name}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+      try {
+        await fs.promises.rename(this.options.filePath, corruptPath);
+        console.error(`Revision history is unreadable, moved it to ${corruptPath}:`, error);
+      } catch (renameError) {
+        console.error('Revision history is unreadable and could not be moved aside:', error, renameError);
+      }
+    }
+  }
+
+  list(noteId: string): NoteRevision[] {
+    return [...(this.revisions.get(noteId) ?? [])].reverse();
+  }
+
+  get(noteId: string, revisionId: string): NoteRevision | undefined {
+    return this.revisions.get(noteId)?.find(revision => revision.id === revisionId);
+  }
+
+  /**
+   * Records `previous` as a revision when a save changed its title or
+   * content, unless this note was captured less than `minIntervalMs` ago.
+   * Pass `force` to record regardless, e.g. before restoring a revision.
+   */
+  capture(previous: StickyNote, next: StickyNote, force = false): Promise<void> {
+    if (previous.title === next.title && previous.content === next.content) {
+      return Promise.resolve();
+    }
+    const minIntervalMs = this.options.minIntervalMs ?? 60_000;
+    if (!force && Date.now() - (this.lastCaptureAt.get(previous.id) ?? 0) < minIntervalMs) {
+      return Promise.resolve();
+    }
+    this.lastCaptureAt.set(previous.id, Date.now());
+
+    const history = this.revisions.get(previous.id) ?? [];
+    const latest = history[history.length - 1];
+    if (latest && latest.title === previous.title && latest.content === previous.content) {
+      return Promise.resolve();
+    }
+
+    history.push({
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      noteId: previous.id,
+      title: previous.title,
+      content: previous.content,
+      savedAt: previous.updated
+    });
+    const maxPerNote = this.options.maxPerNote ?? 50;
+    this.revisions.set(previous.id, history.slice(-maxPerNote));
+    return this.scheduleWrite();
+  }
+
+  remove(noteId: string): Promise<void> {
+    this.lastCaptureAt.delete(noteId);
+    if (!this.revisions.delete(noteId)) {
+      return Promise.resolve();
+    }
+    return this.scheduleWrite();
+  }
+
+  flush(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  /**
+   * Writes the history again with the codec's current key, along with any
+   * unreadable copies `open` moved aside, so none is left in the old form.
+   */
+  async rewrite(): Promise<void> {
+    await this.scheduleWrite();
+    await recodeCorruptCopies(this.options.filePath, this.options.codec ?? plainCodec);
+  }
+
+  /** Writes pending changes and drops the history from memory until the next `open`. */
+  async close(): Promise<void> {
+    await this.scheduleWrite();
+    this.revisions = new Map();
+    this.lastCaptureAt.clear();
+  }
+
+  private async write(): Promise<void> {
+    const data = {
+      schemaVersion: REVISION_STORE_VERSION,
+      revisions: Object.fromEntries(this.revisions)
+    };
+    await writeFileAtomic(this.options.filePath, (this.options.codec ?? plainCodec).encode(JSON.stringify(data)));
+  }
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomicFile';
+
+/**
+ * Transforms store file contents on their way to and from the disk. The
+ * vault uses it to encrypt; `plainCodec` leaves the text as it is.
+ */
+export interface StoreCodec {
+  encode(text: string): string;
+  decode(text: string): string;
+}
+
+export const plainCodec: StoreCodec = {
+  encode: text => text,
+  decode: text => text
+};
+
+/**
+ * Reads a file with `codec` and writes it back encoded with its current
+ * settings, e.g. after the encryption key changed. Missing files are ignored.
+ */
+export async function recodeFile(filePath: string, codec: StoreCodec): Promise<void> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  await writeFileAtomic(filePath, codec.encode(codec.decode(text)));
+}
+
+/** Re-encodes the `<name>.corrupt-<timestamp>.json` copies an unreadable store was moved to. */
+export async function recodeCorruptCopies(filePath: string, codec: StoreCodec): Promise<void> {
+  const { dir, name } = path.parse(filePath);
+  for (const file of await fs.promises.readdir(dir)) {
+    if (file.startsWith(`${name}.corrupt-`)) {
+      await recodeFile(path.join(dir, file), codec);
+    }
+  }
+}
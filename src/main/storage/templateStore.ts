@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import type { StickyNote } from '../../shared/note';
+import { BUILT_IN_TEMPLATES, noteTemplateValidator, templateNameValidator, type NoteTemplate } from '../../shared/template';
+import { array, number, object, oneOf } from '../../shared/validation';
+import { coalesceWrites, writeFileAtomic } from './atomicFile';
+import { plainCodec, type StoreCodec } from './storeCodec';
+
+const TEMPLATE_STORE_VERSION = 1;
+
+const templateFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  templates: array(noteTemplateValidator)
+});
+
+export class TemplateNotFoundError extends Error {
+  constructor(public readonly templateId: string) {
+    super(`Template ${templateId} does not exist`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+export class DuplicateTemplateError extends Error {
+  constructor(public readonly templateName: string) {
+    super(`A template named "${templateName}" already exists`);
+    this.name = 'DuplicateTemplateError';
+  }
+}
+
+export interface TemplateStoreOptions {
+  filePath: string;
+  codec?: StoreCodec;
+}
+
+/**
+ * Templates saved from notes, kept in `templates.json` and encrypted along
+ * with the notes, since they hold note text. The built-in templates are
+ * listed with them but never stored.
+ */
+export class TemplateStore {
+  private templates = new Map<string, NoteTemplate>();
+  private readonly scheduleWrite = coalesceWrites(() => this.write());
+
+  constructor(private readonly options: TemplateStoreOptions) {}
+
+  async open(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.options.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    const data = templateFileValidator(JSON.parse((this.options.codec ?? plainCodec).decode(text)), 'templates');
+    oneOf(TEMPLATE_STORE_VERSION)(data.schemaVersion, 'templates.schemaVersion');
+    this.templates = new Map(data.templates.map(template => [template.id, template]));
+  }
+
+  /** The built-in templates first, then the saved ones by name. */
+  list(): NoteTemplate[] {
+    const saved = [...this.templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+    return [...BUILT_IN_TEMPLATES, ...saved].map(template => ({ ...template }));
+  }
+
+  get(id: string): NoteTemplate | undefined {
+    const template = BUILT_IN_TEMPLATES.find(builtIn => builtIn.id === id) ?? this.templates.get(id);
+    return template && { ...template };
+  }
+
+  /** Saves the title, content and color of `note` as a new template. */
+  async create(name: string, note: StickyNote): Promise<NoteTemplate> {
+    const template: NoteTemplate = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      name: this.claimName(name),
+      title: note.title,
+      content: note.content,
+      color: note.color,
+      created: new Date().toISOString()
+    };
+    this.templates.set(template.id, template);
+    await this.scheduleWrite();
+    return { ...template };
+  }
+
+  async rename(id: string, name: string): Promise<NoteTemplate> {
+    const existing = this.savedTemplate(id);
+    const template = { ...existing, name: this.claimName(name, id) };
+    this.templates.set(id, template);
+    await this.scheduleWrite();
+    return { ...template };
+  }
+
+  async remove(id: string): Promise<void> {
+    this.savedTemplate(id);
+    this.templates.delete(id);
+    await this.scheduleWrite();
+  }
+
+  flush(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  /** Writes pending changes and drops the templates from memory until the next `open`. */
+  async close(): Promise<void> {
+    await this.scheduleWrite();
+    this.templates = new Map();
+  }
+
+  private savedTemplate(id: string): NoteTemplate {
+    if (BUILT_IN_TEMPLATES.some(template => template.id === id)) {
+      throw new Error('Built-in templates cannot be changed');
+    }
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new TemplateNotFoundError(id);
+    }
+    return template;
+  }
+
+  /** Trims `name` and checks no other template uses it, ignoring case. */
+  private claimName(name: string, exceptId?: string): string {
+    const cleanName = templateNameValidator(name.trim(), 'name');
+    for (const template of [...BUILT_IN_TEMPLATES, ...this.templates.values()]) {
+      if (template.id !== exceptId && template.name.toLowerCase() === cleanName.toLowerCase()) {
+        throw new DuplicateTemplateError(cleanName);
+      }
+    }
+    return cleanName;
+  }
+
+  private async write(): Promise<void> {
+    const data = {
+      schemaVersion: TEMPLATE_STORE_VERSION,
+      templates: [...this.templates.values()]
+    };
+    await writeFileAtomic(this.options.filePath, (this.options.codec ?? plainCodec).encode(JSON.stringify(data)));
+  }
+}
@@ -0,0 +1,454 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { notebookIdValidator, notebookValidator, DEFAULT_NOTEBOOK_ID, type Notebook } from '../../shared/notebook';
+import { NOTE_SCHEMA_VERSION, noteIdValidator, noteValidator, type StickyNote } from '../../shared/note';
+import type { SyncStatus } from '../../shared/sync';
+import { array, nullable, number, object, record, string } from '../../shared/validation';
+import { coalesceWrites, writeFileAtomic } from '../storage/atomicFile';
+import { migrateStore } from '../storage/migrations';
+import type { AttachmentStore, NotebookStore, NoteRepository } from '../storage';
+import { mergeNotes, sameNote, type NoteVersion } from './merge';
+import { compareVectors, incrementVector, mergeVectors, type VersionVector } from './versionVector';
+
+// Layout of the sync folder. Every device only ever writes inside its own
+// directory, so two machines never race on the same file:
+//
+//   devices/<deviceId>/device.json          name and last sync time
+//   devices/<deviceId>/notebooks.json       the device's notebooks
+//   devices/<deviceId>/notes/<noteId>.json  its copy of each note, or a tombstone
+//   devices/<deviceId>/attachments/<file>    attachment files its notes refer to
+
+const SYNC_STATE_VERSION = 1;
+
+const vectorValidator = record(number({ integer: true, min: 0 }));
+
+const configValidator = object({
+  deviceId: string({ nonEmpty: true, maxLength: 128 }),
+  deviceName: string({ maxLength: 256 }),
+  directory: nullable(string({ nonEmpty: true }))
+});
+
+const stateValidator = object({
+  schemaVersion: number({ integer: true }),
+  directory: nullable(string({ nonEmpty: true })),
+  notes: record(object({ vector: vectorValidator, base: nullable(noteValidator) })),
+  notebooks: array(notebookIdValidator)
+});
+
+const noteFileValidator = object({
+  schemaVersion: number({ integer: true, min: 1 }),
+  deviceId: string({ nonEmpty: true, maxLength: 128 }),
+  noteId: noteIdValidator,
+  vector: vectorValidator
+});
+
+type SyncConfig = ReturnType<typeof configValidator>;
+
+interface NoteSyncState {
+  /** Vector of the copy this device last wrote. */
+  vector: VersionVector;
+  /** That copy, the common ancestor for the next merge; null once deleted. */
+  base: StickyNote | null;
+}
+
+interface SyncState {
+  /** Folder the state belongs to; choosing another one starts over. */
+  directory: string | null;
+  notes: Record<string, NoteSyncState>;
+  /** Notebook ids present after the last sync, so ones removed here are not brought back. */
+  notebooks: string[];
+}
+
+interface RemoteData {
+  notes: Map<string, NoteVersion[]>;
+  notebooks: Map<string, Notebook>;
+}
+
+export interface FolderSyncOptions {
+  /** Device id and chosen folder, in `sync.json`. */
+  configPath: string;
+  /** Per-note vectors and merge bases, in `sync-state.json`. */
+  statePath: string;
+  /** A fresh note id, for conflict copies. */
+  newId: () => string;
+  /** Where attachment files are copied from and into. */
+  attachments: AttachmentStore;
+  /** How often to look for changes from other machines. */
+  pollIntervalMs?: number;
+  /** Quiet time after a local edit before it is written out. */
+  debounceMs?: number;
+  /** Called after every pass; `changed` is true when it changed local notes. */
+  onSynced?: (status: SyncStatus, changed: boolean) => void;
+}
+
+const emptyState = (directory: string | null): SyncState => ({ directory, notes: {}, notebooks: [] });
+
+async function readDirectory(directory: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Mirrors the note store into a shared folder and merges what other machines
+ * wrote there. Each note carries a version vector; a copy that has seen
+ * everything ours has replaces it, and concurrent copies are merged field by
+ * field, with diverging text kept as a conflict copy.
+ */
+export class FolderSync {
+  private config: SyncConfig = { deviceId: '', deviceName: os.hostname(), directory: null };
+  private state: SyncState = emptyState(null);
+  private readonly sync = coalesceWrites(() => this.runSync());
+  // Parsed remote note files by path, reread only when their mtime changes
+  private cache = new Map<string, { mtimeMs: number; version: NoteVersion }>();
+  private writtenNotebooks = '';
+  private unsubscribe: (() => void) | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private applying = false;
+  private lastSyncAt?: string;
+  private lastError?: string;
+  private conflicts = 0;
+
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly notebooks: NotebookStore,
+    private readonly options: FolderSyncOptions
+  ) {}
+
+  async open(): Promise<void> {
+    let text: string | undefined;
+    try {
+      text = await fs.promises.readFile(this.options.configPath, 'utf-8');
+      this.config = configValidator(JSON.parse(text), 'sync');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Ignoring unreadable sync settings:', error);
+      }
+      this.config = { deviceId: randomUUID(), deviceName: os.hostname(), directory: null };
+      // Keep a damaged file for inspection rather than replacing the device id in it
+      if (text === undefined) {
+        await this.writeConfig();
+      }
+    }
+
+    try {
+      const data = stateValidator(JSON.parse(await fs.promises.readFile(this.options.statePath, 'utf-8')), 'syncState');
+      if (data.schemaVersion === SYNC_STATE_VERSION && data.directory === this.config.directory) {
+        this.state = { directory: data.directory, notes: data.notes, notebooks: data.notebooks };
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // Without the state every note is compared afresh, which is slower but safe
+        console.error('Ignoring unreadable sync state:', error);
+      }
+    }
+    this.state.directory = this.config.directory;
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      directory: this.config.directory,
+      deviceId: this.config.deviceId,
+      deviceName: this.config.deviceName,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+      conflicts: this.conflicts
+    };
+  }
+
+  /** Starts syncing into the configured folder, if there is one. */
+  async start(): Promise<void> {
+    if (!this.config.directory || this.unsubscribe) return;
+    this.unsubscribe = this.repository.subscribe(() => {
+      if (!this.applying) this.scheduleSync();
+    });
+    this.pollTimer = setInterval(() => {
+      this.sync().catch(error => console.error('Error syncing notes:', error));
+    }, this.options.pollIntervalMs ?? 10_000);
+    await this.sync();
+  }
+
+  /** Stops watching and writes out edits still waiting for the debounce. */
+  async stop(): Promise<void> {
+    const pending = this.debounceTimer !== null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pollTimer !== null) clearInterval(this.pollTimer);
+    if (this.debounceTimer !== null) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+    if (pending) {
+      await this.sync();
+    }
+  }
+
+  /** Switches to another folder, or turns sync off with null. */
+  async setDirectory(directory: string | null): Promise<SyncStatus> {
+    await this.stop();
+    if (directory !== this.config.directory) {
+      this.config.directory = directory;
+      this.state = emptyState(directory);
+      this.cache.clear();
+      this.writtenNotebooks = '';
+      this.lastSyncAt = undefined;
+      this.lastError = undefined;
+      await this.writeConfig();
+      await this.writeState();
+    }
+    await this.start();
+    return this.getStatus();
+  }
+
+  async syncNow(): Promise<SyncStatus> {
+    await this.sync();
+    return this.getStatus();
+  }
+
+  private scheduleSync(): void {
+    if (this.debounceTimer !== null) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.sync().catch(error => console.error('Error syncing notes:', error));
+    }, this.options.debounceMs ?? 1000);
+  }
+
+  private async runSync(): Promise<void> {
+    const directory = this.config.directory;
+    if (!directory) return;
+    let changed = false;
+    try {
+      const ownDirectory = path.join(directory, 'devices', this.config.deviceId);
+      await fs.promises.mkdir(path.join(ownDirectory, 'notes'), { recursive: true });
+      if (!this.lastSyncAt) {
+        await writeFileAtomic(path.join(ownDirectory, 'device.json'), JSON.stringify({
+          deviceId: this.config.deviceId,
+          deviceName: this.config.deviceName
+        }, null, 2));
+      }
+
+      const remote = await this.readRemote(directory);
+      await this.syncNotebooks(remote);
+      const local = new Map((await this.repository.list()).map(note => [note.id, note]));
+      const ids = new Set([...local.keys(), ...Object.keys(this.state.notes), ...remote.notes.keys()]);
+      for (const id of ids) {
+        changed = await this.syncNote(id, local.get(id) ?? null, remote) || changed;
+      }
+
+      const notebooks = JSON.stringify(this.notebooks.list(), null, 2);
+      if (notebooks !== this.writtenNotebooks) {
+        await writeFileAtomic(path.join(ownDirectory, 'notebooks.json'), notebooks);
+        this.writtenNotebooks = notebooks;
+      }
+      await this.writeState();
+      this.lastSyncAt = new Date().toISOString();
+      this.lastError = undefined;
+    } catch (error) {
+      console.error('Error syncing notes:', error);
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+    this.options.onSynced?.(this.getStatus(), changed);
+  }
+
+  /** Adds notebooks created elsewhere and takes later renames. */
+  private async syncNotebooks(remote: RemoteData): Promise<void> {
+    const known = new Set(this.state.notebooks);
+    for (const notebook of remote.notebooks.values()) {
+      const local = this.notebooks.get(notebook.id);
+      if (local ? notebook.updated > local.updated && notebook.name !== local.name : !known.has(notebook.id)) {
+        await this.notebooks.put(notebook);
+      }
+    }
+    this.state.notebooks = this.notebooks.list().map(notebook => notebook.id);
+  }
+
+  /** Brings one note up to date both ways; returns true if the local copy changed. */
+  private async syncNote(id: string, local: StickyNote | null, remote: RemoteData): Promise<boolean> {
+    const { deviceId } = this.config;
+    const saved = this.state.notes[id];
+    const editedHere = saved ? !sameNote(local, saved.base) : local !== null;
+    let current: NoteVersion = {
+      deviceId,
+      vector: editedHere ? incrementVector(saved?.vector ?? {}, deviceId) : saved?.vector ?? {},
+      note: local
+    };
+
+    for (const version of remote.notes.get(id) ?? []) {
+      const order = compareVectors(current.vector, version.vector);
+      if (order === 'before') {
+        current = version;
+      } else if (order === 'concurrent') {
+        const merged = mergeNotes(current, version, saved?.base, this.options.newId);
+        current = {
+          deviceId,
+          vector: incrementVector(mergeVectors(current.vector, version.vector), deviceId),
+          note: merged.note
+        };
+        if (merged.conflictCopy) {
+          await this.addConflictCopy(merged.conflictCopy);
+        }
+      }
+    }
+
+    let changed = false;
+    if (!sameNote(current.note, local)) {
+      await this.applyLocally(id, current.note, remote);
+      changed = true;
+    }
+    if (!saved || compareVectors(saved.vector, current.vector) !== 'equal' || !sameNote(saved.base, current.note)) {
+      await this.publish(id, current.vector, current.note);
+    }
+    return changed;
+  }
+
+  private async applyLocally(id: string, note: StickyNote | null, remote: RemoteData): Promise<void> {
+    if (note) {
+      await this.fetchAttachments(note);
+    }
+    if (note && !this.notebooks.get(note.notebookId)) {
+      // The notebook was removed here but is still in use elsewhere
+      const notebook = remote.notebooks.get(note.notebookId);
+      if (notebook) {
+        await this.notebooks.put(notebook);
+      } else {
+        note = { ...note, notebookId: DEFAULT_NOTEBOOK_ID };
+      }
+    }
+    // Repository events are emitted synchronously, so only they are muted
+    this.applying = true;
+    const applied = note ? this.repository.put(note) : this.repository.delete(id);
+    this.applying = false;
+    await applied;
+  }
+
+  private async addConflictCopy(note: StickyNote): Promise<void> {
+    this.applying = true;
+    const created = this.repository.create(note);
+    this.applying = false;
+    await created;
+    await this.publish(note.id, { [this.config.deviceId]: 1 }, note);
+    this.conflicts++;
+  }
+
+  private async publish(id: string, vector: VersionVector, note: StickyNote | null): Promise<void> {
+    // Files go first, so another machine never reads a note without them
+    if (note) {
+      await this.publishAttachments(note);
+    }
+    const file = {
+      schemaVersion: NOTE_SCHEMA_VERSION,
+      deviceId: this.config.deviceId,
+      noteId: id,
+      vector,
+      note
+    };
+    await writeFileAtomic(this.noteFilePath(this.config.deviceId, id), JSON.stringify(file, null, 2));
+    this.state.notes[id] = { vector, base: note };
+  }
+
+  private async publishAttachments(note: StickyNote): Promise<void> {
+    const { attachments } = this.options;
+    const directory = path.join(this.config.directory ?? '', 'devices', this.config.deviceId, 'attachments');
+    for (const { file } of note.attachments ?? []) {
+      const target = path.join(directory, file);
+      const published = await fs.promises.access(target).then(() => true, () => false);
+      if (published || !(await attachments.has(file))) continue;
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.copyFile(attachments.pathOf(file), target);
+    }
+  }
+
+  /** Copies in attachment files of a note from another machine that are not here yet. */
+  private async fetchAttachments(note: StickyNote): Promise<void> {
+    const { attachments } = this.options;
+    const devicesDirectory = path.join(this.config.directory ?? '', 'devices');
+    for (const { file } of note.attachments ?? []) {
+      if (await attachments.has(file)) continue;
+      for (const deviceId of await readDirectory(devicesDirectory)) {
+        const data = await fs.promises.readFile(path.join(devicesDirectory, deviceId, 'attachments', file)).catch(() => null);
+        if (data && await attachments.put(file, data)) break;
+      }
+    }
+  }
+
+  private noteFilePath(deviceId: string, noteId: string): string {
+    return path.join(this.config.directory ?? '', 'devices', deviceId, 'notes', `${encodeURIComponent(noteId)}.json`);
+  }
+
+  /** Reads every other device's notes and notebooks; unreadable files are skipped. */
+  private async readRemote(directory: string): Promise<RemoteData> {
+    const remote: RemoteData = { notes: new Map(), notebooks: new Map() };
+    for (const deviceId of await readDirectory(path.join(directory, 'devices'))) {
+      if (deviceId === this.config.deviceId) continue;
+      const deviceDirectory = path.join(directory, 'devices', deviceId);
+      for (const notebook of await this.readNotebooks(path.join(deviceDirectory, 'notebooks.json'))) {
+        const seen = remote.notebooks.get(notebook.id);
+        if (!seen || notebook.updated > seen.updated) {
+          remote.notebooks.set(notebook.id, notebook);
+        }
+      }
+      const notesDirectory = path.join(deviceDirectory, 'notes');
+      // Temp files from writes in progress do not end in `.json`
+      for (const name of (await readDirectory(notesDirectory)).filter(name => name.endsWith('.json'))) {
+        const version = await this.readNoteFile(path.join(notesDirectory, name));
+        if (version && version.deviceId === deviceId) {
+          const id = version.note?.id ?? decodeURIComponent(name.slice(0, -'.json'.length));
+          remote.notes.set(id, [...remote.notes.get(id) ?? [], version]);
+        }
+      }
+    }
+    return remote;
+  }
+
+  private async readNotebooks(filePath: string): Promise<Notebook[]> {
+    try {
+      return array(notebookValidator)(JSON.parse(await fs.promises.readFile(filePath, 'utf-8')), filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Skipping unreadable notebooks in sync folder: ${filePath}`, error);
+      }
+      return [];
+    }
+  }
+
+  private async readNoteFile(filePath: string): Promise<NoteVersion | null> {
+    try {
+      const { mtimeMs } = await fs.promises.stat(filePath);
+      const cached = this.cache.get(filePath);
+      if (cached?.mtimeMs === mtimeMs) {
+        return cached.version;
+      }
+      const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+      const header = noteFileValidator(data, filePath);
+      let note: StickyNote | null = null;
+      if (data.note !== null) {
+        // Machines may run different versions; older notes are upgraded, newer ones rejected
+        const migrated = migrateStore({ schemaVersion: header.schemaVersion, notes: [data.note] });
+        if (migrated.notes.length === 0) {
+          throw new Error(migrated.quarantined[0]?.reason ?? 'invalid note');
+        }
+        note = migrated.notes[0];
+      }
+      const version: NoteVersion = { deviceId: header.deviceId, vector: header.vector, note };
+      this.cache.set(filePath, { mtimeMs, version });
+      return version;
+    } catch (error) {
+      console.warn(`Skipping unreadable note in sync folder: ${filePath}`, error);
+      return null;
+    }
+  }
+
+  private async writeConfig(): Promise<void> {
+    await writeFileAtomic(this.options.configPath, JSON.stringify(this.config, null, 2));
+  }
+
+  private async writeState(): Promise<void> {
+    const data = { schemaVersion: SYNC_STATE_VERSION, ...this.state };
+    await writeFileAtomic(this.options.statePath, JSON.stringify(data));
+  }
+}
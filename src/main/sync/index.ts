@@ -0,0 +1 @@
+export { FolderSync, type FolderSyncOptions } from './folderSync';
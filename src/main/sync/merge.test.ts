@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { StickyNote } from '../../shared/note';
+import { mergeNotes, sameNote, type NoteVersion } from './merge';
+
+const base: StickyNote = {
+  id: 'note',
+  title: 'Groceries',
+  content: 'Milk',
+  color: '#fff9b1',
+  x: 100,
+  y: 100,
+  width: 300,
+  height: 300,
+  created: '2024-05-01T08:00:00.000Z',
+  updated: '2024-05-01T08:00:00.000Z',
+  alwaysOnTop: false,
+  notebookId: 'default',
+  tags: []
+};
+
+const edit = (changes: Partial<StickyNote>, updated: string): StickyNote => ({ ...base, ...changes, updated });
+
+const version = (deviceId: string, note: StickyNote | null): NoteVersion => ({ deviceId, vector: {}, note });
+
+const EARLIER = '2024-05-02T08:00:00.000Z';
+const LATER = '2024-05-02T09:00:00.000Z';
+const newId = () => 'copy';
+
+describe('mergeNotes', () => {
+  it('keeps fields each side changed on its own', () => {
+    const ours = edit({ color: '#b1e3ff' }, EARLIER);
+    const theirs = edit({ x: 400, y: 250 }, LATER);
+    const { note, conflictCopy } = mergeNotes(version('a', ours), version('b', theirs), base, newId);
+    expect(note).toMatchObject({ color: '#b1e3ff', x: 400, y: 250, updated: LATER });
+    expect(conflictCopy).toBeUndefined();
+  });
+
+  it('gives a field changed on both sides to the later edit', () => {
+    const ours = edit({ color: '#b1e3ff' }, LATER);
+    const theirs = edit({ color: '#ffb1d8' }, EARLIER);
+    expect(mergeNotes(version('a', ours), version('b', theirs), base, newId).note?.color).toBe('#b1e3ff');
+    expect(mergeNotes(version('b', theirs), version('a', ours), base, newId).note?.color).toBe('#b1e3ff');
+  });
+
+  it('breaks ties between edits at the same time by device id', () => {
+    const ours = edit({ color: '#b1e3ff' }, LATER);
+    const theirs = edit({ color: '#ffb1d8' }, LATER);
+    expect(mergeNotes(version('a', ours), version('b', theirs), base, newId).note?.color).toBe('#ffb1d8');
+    expect(mergeNotes(version('b', theirs), version('a', ours), base, newId).note?.color).toBe('#ffb1d8');
+  });
+
+  it('clears a field the other side removed', () => {
+    const withDue = { ...base, dueAt: '2024-06-01T08:00:00.000Z' };
+    const ours = { ...withDue, color: '#b1e3ff', updated: EARLIER };
+    const theirs = { ...base, updated: LATER };
+    const { note } = mergeNotes(version('a', ours), version('b', theirs), withDue, newId);
+    expect(note).not.toHaveProperty('dueAt');
+    expect(note?.color).toBe('#b1e3ff');
+  });
+
+  it('takes text edited on one side only', () => {
+    const ours = edit({ x: 200 }, LATER);
+    const theirs = edit({ content: 'Milk\nEggs' }, EARLIER);
+    const { note, conflictCopy } = mergeNotes(version('a', ours), version('b', theirs), base, newId);
+    expect(note).toMatchObject({ content: 'Milk\nEggs', x: 200 });
+    expect(conflictCopy).toBeUndefined();
+  });
+
+  it('keeps the older of two text edits as a conflict copy', () => {
+    const ours = edit({ content: 'Milk\nEggs' }, EARLIER);
+    const theirs = edit({ title: 'Shopping', content: 'Milk\nBread' }, LATER);
+    const { note, conflictCopy } = mergeNotes(version('a', ours), version('b', theirs), base, newId);
+    expect(note).toMatchObject({ id: 'note', title: 'Shopping', content: 'Milk\nBread' });
+    expect(conflictCopy).toMatchObject({ id: 'copy', title: 'Groceries (conflict)', content: 'Milk\nEggs', x: 124, y: 124 });
+  });
+
+  it('does not carry reminders or trash state over to a conflict copy', () => {
+    const ours = edit({ content: 'A', reminder: { at: LATER, recurrence: 'none' } }, LATER);
+    const theirs = edit({ content: 'B', deletedAt: EARLIER }, EARLIER);
+    const { conflictCopy } = mergeNotes(version('a', ours), version('b', theirs), base, newId);
+    expect(conflictCopy).toBeDefined();
+    expect(conflictCopy).not.toHaveProperty('reminder');
+    expect(conflictCopy).not.toHaveProperty('deletedAt');
+  });
+
+  it('treats every text difference as a conflict without a shared base', () => {
+    const ours = edit({ content: 'A' }, LATER);
+    const theirs = edit({ content: 'B' }, EARLIER);
+    const { note, conflictCopy } = mergeNotes(version('a', ours), version('b', theirs), undefined, newId);
+    expect(note?.content).toBe('A');
+    expect(conflictCopy?.content).toBe('B');
+  });
+
+  it('lets an edit win over a delete', () => {
+    const edited = edit({ content: 'Milk\nEggs' }, LATER);
+    expect(mergeNotes(version('a', null), version('b', edited), base, newId).note).toEqual(edited);
+    expect(mergeNotes(version('a', edited), version('b', null), base, newId).note).toEqual(edited);
+  });
+
+  it('lets a delete win over a copy nobody touched', () => {
+    expect(mergeNotes(version('a', null), version('b', { ...base }), base, newId).note).toBeNull();
+    expect(mergeNotes(version('a', null), version('b', null), base, newId).note).toBeNull();
+  });
+
+  it('keeps the earliest creation time', () => {
+    const ours = edit({ created: '2024-04-01T08:00:00.000Z', color: '#b1e3ff' }, EARLIER);
+    const theirs = edit({ x: 1 }, LATER);
+    expect(mergeNotes(version('a', ours), version('b', theirs), base, newId).note?.created).toBe('2024-04-01T08:00:00.000Z');
+  });
+});
+
+describe('sameNote', () => {
+  it('ignores the updated time and key order', () => {
+    const reordered = Object.fromEntries(Object.entries(base).reverse()) as unknown as StickyNote;
+    expect(sameNote(base, { ...reordered, updated: LATER })).toBe(true);
+    expect(sameNote(base, { ...base, tags: ['work'] })).toBe(false);
+    expect(sameNote(null, undefined)).toBe(true);
+    expect(sameNote(base, null)).toBe(false);
+  });
+});
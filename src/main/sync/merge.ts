@@ -0,0 +1,130 @@
+import type { StickyNote } from '../../shared/note';
+import type { VersionVector } from './versionVector';
+
+/** One device's copy of a note; `note` is null once the note has been deleted. */
+export interface NoteVersion {
+  deviceId: string;
+  vector: VersionVector;
+  note: StickyNote | null;
+}
+
+export interface MergeResult {
+  note: StickyNote | null;
+  /** The losing side of a content conflict, kept as a note of its own. */
+  conflictCopy?: StickyNote;
+}
+
+// Merged field by field: each side keeps what it changed, and a field changed
+// on both sides goes to the later edit
+const FIELD_KEYS = [
+  'color', 'x', 'y', 'width', 'height', 'displayId', 'group', 'alwaysOnTop',
+  'notebookId', 'tags', 'dueAt', 'reminder', 'attachments', 'typography', 'deletedAt'
+] as const;
+
+// Text cannot be merged safely, so title and content travel together and a
+// concurrent edit of both copies turns the older one into a conflict copy
+const CONTENT_KEYS = ['title', 'content'] as const;
+
+type MergedKey = (typeof FIELD_KEYS)[number] | (typeof CONTENT_KEYS)[number];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** JSON with sorted keys, so equal values compare equal whatever their key order. */
+const canonical = (value: unknown): string | undefined =>
+  JSON.stringify(value, (_, inner: unknown) => isPlainObject(inner)
+    ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+    : inner);
+
+const same = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+/**
+ * Whether two copies hold the same note. `updated` is ignored: applying a
+ * change from another machine must not count as a local edit.
+ */
+export function sameNote(a: StickyNote | null | undefined, b: StickyNote | null | undefined): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return same({ ...a, updated: undefined }, { ...b, updated: undefined });
+}
+
+const changed = (note: StickyNote, base: StickyNote | null | undefined, keys: readonly MergedKey[]): boolean =>
+  !base || keys.some(key => !same(note[key], base[key]));
+
+function assign(note: StickyNote, key: MergedKey, value: unknown): void {
+  const fields = note as unknown as Record<string, unknown>;
+  if (value === undefined) {
+    delete fields[key];
+  } else {
+    fields[key] = value;
+  }
+}
+
+/**
+ * Merges two copies of a note edited concurrently. `base` is the last copy
+ * both were known to share; without one every difference is a conflict.
+ * An edit beats a delete, and a delete beats a copy nobody touched.
+ */
+export function mergeNotes(
+  local: NoteVersion,
+  remote: NoteVersion,
+  base: StickyNote | null | undefined,
+  newId: () => string
+): MergeResult {
+  const ours = local.note;
+  const theirs = remote.note;
+  if (!ours || !theirs) {
+    const survivor = ours ?? theirs;
+    return { note: survivor && base && sameNote(survivor, base) ? null : survivor };
+  }
+
+  const theirsNewer = theirs.updated > ours.updated
+    || (theirs.updated === ours.updated && remote.deviceId > local.deviceId);
+  const merged: StickyNote = {
+    ...ours,
+    created: ours.created < theirs.created ? ours.created : theirs.created,
+    updated: theirsNewer ? theirs.updated : ours.updated
+  };
+
+  for (const key of FIELD_KEYS) {
+    if (same(ours[key], theirs[key])) continue;
+    const theirsChanged = changed(theirs, base, [key]);
+    if (theirsChanged && (!changed(ours, base, [key]) || theirsNewer)) {
+      assign(merged, key, theirs[key]);
+    }
+  }
+
+  if (same(ours.title, theirs.title) && same(ours.content, theirs.content)) {
+    return { note: merged };
+  }
+  const oursChanged = changed(ours, base, CONTENT_KEYS);
+  const theirsChanged = changed(theirs, base, CONTENT_KEYS);
+  if (!theirsChanged) {
+    return { note: merged };
+  }
+  if (!oursChanged || theirsNewer) {
+    merged.title = theirs.title;
+    merged.content = theirs.content;
+  }
+  if (!oursChanged) {
+    return { note: merged };
+  }
+
+  const loser = theirsNewer ? ours : theirs;
+  const now = new Date().toISOString();
+  const conflictCopy: StickyNote = {
+    ...merged,
+    id: newId(),
+    title: `${loser.title || 'Untitled'} (conflict)`,
+    content: loser.content,
+    // Offset so the copy's window does not hide the original
+    x: merged.x + 24,
+    y: merged.y + 24,
+    created: now,
+    updated: now
+  };
+  delete conflictCopy.reminder;
+  delete conflictCopy.deletedAt;
+  return { note: merged, conflictCopy };
+}
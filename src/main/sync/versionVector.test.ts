@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { compareVectors, incrementVector, mergeVectors } from './versionVector';
+
+describe('compareVectors', () => {
+  it('orders vectors one has fully seen', () => {
+    expect(compareVectors({ a: 1 }, { a: 1 })).toBe('equal');
+    expect(compareVectors({ a: 1 }, { a: 2 })).toBe('before');
+    expect(compareVectors({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+  });
+
+  it('treats missing devices as zero edits', () => {
+    expect(compareVectors({}, { a: 0 })).toBe('equal');
+    expect(compareVectors({}, { b: 1 })).toBe('before');
+  });
+
+  it('reports edits neither side has seen as concurrent', () => {
+    expect(compareVectors({ a: 2, b: 1 }, { a: 1, b: 2 })).toBe('concurrent');
+    expect(compareVectors({ a: 1 }, { b: 1 })).toBe('concurrent');
+  });
+});
+
+describe('incrementVector', () => {
+  it('counts an edit for the device without changing the original', () => {
+    const vector = { a: 1 };
+    expect(incrementVector(vector, 'a')).toEqual({ a: 2 });
+    expect(incrementVector(vector, 'b')).toEqual({ a: 1, b: 1 });
+    expect(vector).toEqual({ a: 1 });
+  });
+});
+
+describe('mergeVectors', () => {
+  it('keeps the highest count for every device', () => {
+    const merged = mergeVectors({ a: 3, b: 1 }, { b: 2, c: 1 });
+    expect(merged).toEqual({ a: 3, b: 2, c: 1 });
+    expect(compareVectors(merged, { a: 3, b: 1 })).toBe('after');
+    expect(compareVectors(merged, { b: 2, c: 1 })).toBe('after');
+  });
+});
@@ -0,0 +1,32 @@
+/** Per-device edit counters for one note: `{ [deviceId]: edits }`. */
+export type VersionVector = Record<string, number>;
+
+/** How `a` relates to `b`: the same, older, newer, or edited concurrently. */
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export function compareVectors(a: VersionVector, b: VersionVector): VectorOrder {
+  let aAhead = false;
+  let bAhead = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    if (left > right) aAhead = true;
+    if (right > left) bAhead = true;
+  }
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+export const incrementVector = (vector: VersionVector, deviceId: string): VersionVector =>
+  ({ ...vector, [deviceId]: (vector[deviceId] ?? 0) + 1 });
+
+/** The smallest vector that has seen everything both have seen. */
+export function mergeVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged = { ...a };
+  for (const [device, count] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] ?? 0, count);
+  }
+  return merged;
+}
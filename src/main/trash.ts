@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import type { StickyNote } from '../shared/note';
+import { DEFAULT_TRASH_SETTINGS, trashSettingsValidator, type TrashSettings } from '../shared/trash';
+import { writeFileAtomic } from './storage/atomicFile';
+import { NoteNotFoundError, type NoteRepository, type RevisionStore } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soft delete on top of the repository: trashed notes keep their record with
+ * `deletedAt` set until they are restored, purged by hand or expire.
+ */
+export class Trash {
+  private settings: TrashSettings = DEFAULT_TRASH_SETTINGS;
+
+  constructor(
+    private readonly repository: NoteRepository,
+    private readonly revisions: RevisionStore,
+    private readonly settingsPath: string
+  ) {}
+
+  async open(): Promise<void> {
+    try {
+      const text = await fs.promises.readFile(this.settingsPath, 'utf-8');
+      this.settings = trashSettingsValidator(JSON.parse(text), 'trash');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Ignoring unreadable trash settings:', error);
+      }
+    }
+  }
+
+  getSettings(): TrashSettings {
+    return { ...this.settings };
+  }
+
+  async setSettings(settings: TrashSettings): Promise<TrashSettings> {
+    this.settings = { ...settings };
+    await writeFileAtomic(this.settingsPath, JSON.stringify(this.settings, null, 2));
+    await this.purgeExpired();
+    return this.getSettings();
+  }
+
+  async list(): Promise<StickyNote[]> {
+    const notes = await this.repository.list();
+    return notes
+      .filter(note => note.deletedAt)
+      .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }
+
+  moveToTrash(noteId: string): Promise<StickyNote> {
+    return this.repository.update(noteId, { deletedAt: new Date().toISOString() });
+  }
+
+  async restore(noteId: string): Promise<StickyNote> {
+    const note = await this.repository.get(noteId);
+    if (!note?.deletedAt) {
+      throw new NoteNotFoundError(noteId);
+    }
+    return this.repository.update(noteId, { deletedAt: undefined });
+  }
+
+  /** Permanently removes a trashed note and its history. */
+  async purge(noteId: string): Promise<void> {
+    const note = await this.repository.get(noteId);
+    if (!note?.deletedAt) {
+      throw new NoteNotFoundError(noteId);
+    }
+    await this.repository.delete(noteId);
+    await this.revisions.remove(noteId);
+  }
+
+  async empty(): Promise<void> {
+    for (const note of await this.list()) {
+      await this.purge(note.id);
+    }
+  }
+
+  /** Purges notes that have been in the Trash longer than the retention period. */
+  async purgeExpired(now = Date.now()): Promise<number> {
+    const { retentionDays } = this.settings;
+    if (retentionDays === 0) {
+      return 0;
+    }
+    const expired = (await this.list()).filter(
+      note => now - Date.parse(note.deletedAt as string) >= retentionDays * DAY_MS
+    );
+    for (const note of expired) {
+      await this.purge(note.id);
+    }
+    return expired.length;
+  }
+}
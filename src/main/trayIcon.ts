@@ -0,0 +1,32 @@
+import { nativeImage, type NativeImage } from 'electron';
+
+// The tray icon is drawn here rather than shipped as a file: a sticky note
+// with a folded corner, black on transparent so macOS can tint it as a
+// template image for light and dark menu bars.
+
+function drawNote(size: number): Buffer {
+  const pixels = Buffer.alloc(size * size * 4);
+  const margin = Math.round(size / 8);
+  const fold = Math.round(size * 5 / 16);
+  const last = size - margin - 1;
+  for (let y = margin; y <= last; y++) {
+    for (let x = margin; x <= last; x++) {
+      const intoFold = (x - (last - fold)) + (y - (last - fold));
+      if (intoFold > fold) continue;
+      const border = x === margin || y === margin || x === last || y === last || intoFold >= fold - 1;
+      // The folded-over flap is solid, the page itself a faint fill
+      const flap = x > last - fold && y > last - fold;
+      const alpha = border || flap ? 255 : 64;
+      const offset = (y * size + x) * 4;
+      pixels[offset + 3] = alpha;
+    }
+  }
+  return pixels;
+}
+
+export function createTrayIcon(): NativeImage {
+  const image = nativeImage.createFromBitmap(drawNote(16), { width: 16, height: 16 });
+  image.addRepresentation({ scaleFactor: 2, width: 32, height: 32, buffer: drawNote(32) });
+  image.setTemplateImage(true);
+  return image;
+}
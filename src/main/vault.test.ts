@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Vault } from './vault';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('Vault', () => {
+  let directory: string;
+  let keyPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sticky-notes-vault-'));
+    keyPath = path.join(directory, 'encryption.json');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('passes plaintext through when encryption is off', () => {
+    const vault = new Vault(keyPath);
+    expect(vault.encode('{"notes":[]}')).toBe('{"notes":[]}');
+    expect(vault.decode('{"notes":[]}')).toBe('{"notes":[]}');
+  });
+
+  it('refuses plaintext once encryption is on', async () => {
+    const vault = new Vault(keyPath);
+    await vault.enable(PASSPHRASE, async () => undefined);
+
+    const encoded = vault.encode('{"notes":[]}');
+    expect(encoded).not.toContain('notes');
+    expect(vault.decode(encoded)).toBe('{"notes":[]}');
+    expect(() => vault.decode('{"notes":[]}')).toThrow('plaintext');
+  });
+
+  it('accepts plaintext after an interrupted enable until resumed', async () => {
+    const vault = new Vault(keyPath);
+    await expect(vault.enable(PASSPHRASE, async () => {
+      throw new Error('crashed');
+    })).rejects.toThrow('crashed');
+
+    const restarted = new Vault(keyPath);
+    await restarted.open();
+    await restarted.unlock(PASSPHRASE);
+    expect(restarted.decode('{"notes":[]}')).toBe('{"notes":[]}');
+
+    let rewrites = 0;
+    await restarted.resume(async () => {
+      rewrites++;
+    });
+    expect(rewrites).toBe(1);
+    expect(() => restarted.decode('{"notes":[]}')).toThrow('plaintext');
+
+    await restarted.resume(async () => {
+      rewrites++;
+    });
+    expect(rewrites).toBe(1);
+  });
+
+  it('keeps the key file until an interrupted disable is resumed', async () => {
+    const vault = new Vault(keyPath);
+    await vault.enable(PASSPHRASE, async () => undefined);
+    await expect(vault.disable(PASSPHRASE, async () => {
+      throw new Error('crashed');
+    })).rejects.toThrow('crashed');
+
+    const restarted = new Vault(keyPath);
+    await restarted.open();
+    expect(restarted.getState().encrypted).toBe(true);
+    await restarted.unlock(PASSPHRASE);
+    expect(restarted.decode('{"notes":[]}')).toBe('{"notes":[]}');
+  });
+});
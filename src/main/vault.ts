@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import { DEFAULT_AUTO_LOCK_MINUTES, type LockState } from '../shared/encryption';
+import { IpcError } from '../shared/ipc';
+import { array, boolean, number, object, oneOf, optional, string } from '../shared/validation';
+import { writeFileAtomic } from './storage/atomicFile';
+import {
+  decrypt,
+  deriveKey,
+  encrypt,
+  isEncrypted,
+  keyIdOf,
+  newDataKey,
+  newKdfParams,
+  newKeyId,
+  StoreLockedError,
+  WrongPassphraseError
+} from './storage/encryption';
+import type { StoreCodec } from './storage';
+
+const KEY_FILE_VERSION = 1;
+
+// Notes are encrypted with random data keys, and only the data keys with the
+// passphrase, so a passphrase change never leaves the store unreadable: the
+// new key file is written before any note is re-encrypted, and lists the old
+// data key until every file has moved to the new one. While encryption is
+// being turned on or off, the key file also says that some files may still
+// be plaintext; otherwise a plaintext file is refused.
+const keyFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  kdf: object({
+    salt: string({ nonEmpty: true }),
+    N: number({ integer: true, min: 2 }),
+    r: number({ integer: true, min: 1 }),
+    p: number({ integer: true, min: 1 })
+  }),
+  /** The current data key first, then keys still in use by files not yet re-encrypted. */
+  keys: array(object({ kid: string({ nonEmpty: true }), wrapped: string({ nonEmpty: true }) })),
+  autoLockMinutes: number({ integer: true, min: 0 }),
+  acceptPlaintext: optional(boolean())
+});
+
+type KeyFile = ReturnType<typeof keyFileValidator>;
+
+const KEK_ID = 'passphrase';
+
+/**
+ * Holds the encryption keys and lock state, and encodes store files for the
+ * repository and revision store. Without a key file notes are kept as
+ * plaintext; with one they can only be read after `unlock`. Plaintext files
+ * are only accepted while turning encryption on or off, so either can be
+ * interrupted without losing anything; `resume` finishes the job.
+ */
+export class Vault implements StoreCodec {
+  private keyFile: KeyFile | null = null;
+  private keys = new Map<string, Buffer>();
+
+  constructor(private readonly filePath: string) {}
+
+  async open(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    // Unlike other settings, a damaged key file must stop startup: guessing
+    // would either lose the notes or silently store them unencrypted
+    const data = keyFileValidator(JSON.parse(text), 'encryption');
+    oneOf(KEY_FILE_VERSION)(data.schemaVersion, 'encryption.schemaVersion');
+    this.keyFile = data;
+  }
+
+  getState(): LockState {
+    return {
+      encrypted: this.keyFile !== null,
+      locked: this.isLocked(),
+      autoLockMinutes: this.keyFile?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES
+    };
+  }
+
+  isLocked(): boolean {
+    return this.keyFile !== null && !this.keys.has(this.keyFile.keys[0].kid);
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.keyFile) return;
+    this.keys = await this.unwrapKeys(this.keyFile, passphrase);
+  }
+
+  /** Forgets the keys; the caller drops decrypted notes from memory first. */
+  lock(): void {
+    if (!this.keyFile) return;
+    this.keys.forEach(key => key.fill(0));
+    this.keys.clear();
+  }
+
+  /** Starts encrypting with a new passphrase; `rewrite` re-encodes the stores. */
+  async enable(passphrase: string, rewrite: () => Promise<void>): Promise<void> {
+    if (this.keyFile) {
+      throw new IpcError('CONFLICT', 'Notes are already encrypted');
+    }
+    await this.rekey(passphrase, DEFAULT_AUTO_LOCK_MINUTES, rewrite);
+  }
+
+  /** Stops encrypting: `rewrite` stores everything as plaintext before the key file goes. */
+  async disable(passphrase: string, rewrite: () => Promise<void>): Promise<void> {
+    const keyFile = this.requireUnlocked();
+    await this.verify(keyFile, passphrase);
+    // Kept on disk until the end, so an interrupted rewrite is finished on the next unlock
+    this.keyFile = { ...keyFile, acceptPlaintext: true };
+    await this.write();
+    const pending = this.keyFile;
+    this.keyFile = null;
+    try {
+      await rewrite();
+    } catch (error) {
+      this.keyFile = pending;
+      throw error;
+    }
+    await fs.promises.rm(this.filePath, { force: true });
+    this.keys.forEach(key => key.fill(0));
+    this.keys.clear();
+  }
+
+  /** Replaces the passphrase and the data key, re-encrypting every store. */
+  async changePassphrase(current: string, next: string, rewrite: () => Promise<void>): Promise<void> {
+    const keyFile = this.requireUnlocked();
+    await this.verify(keyFile, current);
+    await this.rekey(next, keyFile.autoLockMinutes, rewrite);
+  }
+
+  /**
+   * Finishes an earlier `enable`, `disable` or `changePassphrase` that was
+   * interrupted before `rewrite` had re-encoded every store. Call once the
+   * stores are open.
+   */
+  async resume(rewrite: () => Promise<void>): Promise<void> {
+    const keyFile = this.requireUnlocked();
+    if (!keyFile.acceptPlaintext && keyFile.keys.length === 1) return;
+    await rewrite();
+    await this.finishRekey();
+  }
+
+  async setAutoLock(minutes: number): Promise<void> {
+    const keyFile = this.requireUnlocked();
+    this.keyFile = { ...keyFile, autoLockMinutes: minutes };
+    await this.write();
+  }
+
+  encode(text: string): string {
+    if (!this.keyFile) {
+      return text;
+    }
+    const { kid } = this.keyFile.keys[0];
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new StoreLockedError();
+    }
+    return encrypt(text, key, kid);
+  }
+
+  decode(text: string): string {
+    if (!isEncrypted(text)) {
+      if (this.keyFile && !this.keyFile.acceptPlaintext) {
+        throw new Error('Expected an encrypted file but found plaintext');
+      }
+      return text;
+    }
+    const key = this.keys.get(keyIdOf(text));
+    if (!key) {
+      throw this.isLocked() ? new StoreLockedError() : new Error('Encrypted with an unknown key');
+    }
+    return decrypt(text, key).toString('utf-8');
+  }
+
+  /**
+   * Encrypts with a fresh data key under `passphrase`. Old keys stay in the
+   * key file, wrapped with the new passphrase, until `rewrite` has finished.
+   */
+  private async rekey(passphrase: string, autoLockMinutes: number, rewrite: () => Promise<void>): Promise<void> {
+    const kdf = newKdfParams();
+    const kek = await deriveKey(passphrase, kdf);
+    const kid = newKeyId();
+    const key = newDataKey();
+    const previous = [...this.keys].filter(([id]) => id !== kid);
+    const wrap = ([id, dataKey]: [string, Buffer]) => ({ kid: id, wrapped: encrypt(dataKey, kek, KEK_ID) });
+
+    this.keyFile = {
+      schemaVersion: KEY_FILE_VERSION,
+      kdf,
+      keys: [[kid, key] as [string, Buffer], ...previous].map(wrap),
+      autoLockMinutes,
+      // Files are still plaintext when turning encryption on, or after an unfinished `enable`
+      acceptPlaintext: this.keyFile === null || this.keyFile.acceptPlaintext
+    };
+    kek.fill(0);
+    this.keys.set(kid, key);
+    await this.write();
+
+    await rewrite();
+    await this.finishRekey();
+  }
+
+  /** Drops the old keys and plaintext once every store has been rewritten. */
+  private async finishRekey(): Promise<void> {
+    if (!this.keyFile) return;
+    const [current, ...previous] = this.keyFile.keys;
+    this.keyFile = { ...this.keyFile, keys: [current], acceptPlaintext: undefined };
+    await this.write();
+    for (const { kid } of previous) {
+      this.keys.get(kid)?.fill(0);
+      this.keys.delete(kid);
+    }
+  }
+
+  private async unwrapKeys(keyFile: KeyFile, passphrase: string): Promise<Map<string, Buffer>> {
+    const kek = await deriveKey(passphrase, keyFile.kdf);
+    const keys = new Map<string, Buffer>();
+    try {
+      for (const { kid, wrapped } of keyFile.keys) {
+        keys.set(kid, decrypt(wrapped, kek));
+      }
+    } catch {
+      keys.forEach(key => key.fill(0));
+      throw new WrongPassphraseError();
+    } finally {
+      kek.fill(0);
+    }
+    return keys;
+  }
+
+  private async verify(keyFile: KeyFile, passphrase: string): Promise<void> {
+    (await this.unwrapKeys(keyFile, passphrase)).forEach(key => key.fill(0));
+  }
+
+  private requireUnlocked(): KeyFile {
+    if (!this.keyFile) {
+      throw new IpcError('CONFLICT', 'Notes are not encrypted');
+    }
+    if (this.isLocked()) {
+      throw new StoreLockedError();
+    }
+    return this.keyFile;
+  }
+
+  private async write(): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(this.keyFile, null, 2));
+  }
+}
@@ -0,0 +1,131 @@
+import { IpcError } from '../shared/ipc';
+import type { NotePatch, StickyNote } from '../shared/note';
+import { linkKey, renameWikiLinks, wikiLinkTitles, type NoteLinks } from '../shared/wikiLink';
+import type { NoteEvent } from './storage';
+
+const sameKeys = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((key, index) => key === b[index]);
+
+/**
+ * The `[[Note title]]` links between notes, kept in step with the
+ * repository. Once a rename is committed, e.g. when the title field loses
+ * focus, the links to the note are pointed at the new title; the titles
+ * autosaved while it is typed are not. Links to a note that is trashed or
+ * deleted stay in the text and are reported as broken, so restoring the
+ * note, or one with its title, mends them.
+ */
+export class WikiLinks {
+  private notes = new Map<string, StickyNote>();
+  // Link keys of each note's outgoing links
+  private outgoing = new Map<string, string[]>();
+  // The title each renamed note had before its uncommitted rename
+  private renamedFrom = new Map<string, string>();
+  // Renames are handled one after another
+  private rewriting = Promise.resolve();
+
+  constructor(
+    /** Saves a note whose links were rewritten, as an edit from a window would be. */
+    private readonly update: (noteId: string, patch: NotePatch) => Promise<StickyNote>,
+    /** Called whenever a title or a link changes, so windows can refresh. */
+    private readonly onChange: () => void
+  ) {}
+
+  rebuild(notes: StickyNote[]): void {
+    this.notes.clear();
+    this.outgoing.clear();
+    this.renamedFrom.clear();
+    notes.filter(note => !note.deletedAt).forEach(note => this.add(note));
+  }
+
+  apply(event: NoteEvent): void {
+    const { note } = event;
+    const before = this.notes.get(note.id);
+    const beforeLinks = this.outgoing.get(note.id) ?? [];
+    this.notes.delete(note.id);
+    this.outgoing.delete(note.id);
+    const after = event.type === 'saved' && !note.deletedAt ? note : undefined;
+    if (after) {
+      this.add(after);
+    }
+
+    const renamed = !!before && !!after && linkKey(before.title) !== linkKey(after.title);
+    if (!before && !after) return;
+    if (renamed || !before || !after || !sameKeys(beforeLinks, this.outgoing.get(note.id) ?? [])) {
+      this.onChange();
+    }
+    if (renamed && !this.renamedFrom.has(note.id)) {
+      this.renamedFrom.set(note.id, before.title);
+    }
+    if (!after) {
+      this.renamedFrom.delete(note.id);
+    }
+  }
+
+  /** Points the links to a note's old title at its current one, if it was renamed. */
+  commitRename(noteId: string): Promise<void> {
+    const from = this.renamedFrom.get(noteId);
+    this.renamedFrom.delete(noteId);
+    if (from === undefined) {
+      return this.rewriting;
+    }
+    this.rewriting = this.rewriting
+      .then(() => {
+        const note = this.notes.get(noteId);
+        return note && this.rewriteLinks(from, note.title);
+      })
+      .catch(error => console.error('Error updating links to a renamed note:', error));
+    return this.rewriting;
+  }
+
+  /** The note `title` links to; with several, the one edited last. */
+  resolve(title: string): StickyNote | undefined {
+    const key = linkKey(title);
+    let found: StickyNote | undefined;
+    for (const note of this.notes.values()) {
+      if (linkKey(note.title) === key && (!found || note.updated > found.updated)) {
+        found = note;
+      }
+    }
+    return found;
+  }
+
+  /** Notes linking to `noteId` and the links out of it that lead nowhere. */
+  get(noteId: string): NoteLinks {
+    const note = this.notes.get(noteId);
+    if (!note) {
+      throw new IpcError('NOT_FOUND', `Note ${noteId} does not exist`);
+    }
+    const key = linkKey(note.title);
+    const backlinks = key
+      ? [...this.notes.values()]
+        .filter(other => other.id !== noteId && this.outgoing.get(other.id)?.includes(key))
+        .map(other => ({ id: other.id, title: other.title }))
+        .sort((a, b) => a.title.localeCompare(b.title))
+      : [];
+    const broken = wikiLinkTitles(note.content).filter(title => !this.resolve(title));
+    return { backlinks, broken };
+  }
+
+  private add(note: StickyNote): void {
+    this.notes.set(note.id, note);
+    this.outgoing.set(note.id, wikiLinkTitles(note.content).map(linkKey));
+  }
+
+  /**
+   * Points links to `from` at `to`. Links are left alone when `to` is blank,
+   * or when another note still has the old title and the links keep leading
+   * somewhere.
+   */
+  private async rewriteLinks(from: string, to: string): Promise<void> {
+    const key = linkKey(from);
+    if (!key || !linkKey(to) || this.resolve(from)) return;
+    const linking = [...this.outgoing].filter(([, keys]) => keys.includes(key)).map(([id]) => id);
+    for (const id of linking) {
+      // Read from the cache each time: an earlier update may have changed it
+      const note = this.notes.get(id);
+      if (note) {
+        await this.update(id, { content: renameWikiLinks(note.content, from, to) });
+      }
+    }
+  }
+}
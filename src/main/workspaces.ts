@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IpcError } from '../shared/ipc';
+import { array, nullable, number, object, oneOf } from '../shared/validation';
+import {
+  workspaceIdValidator,
+  workspaceNameValidator,
+  workspaceValidator,
+  type WindowPlacement,
+  type Workspace,
+  type WorkspaceList
+} from '../shared/workspace';
+import { plainCodec, recodeCorruptCopies, type StoreCodec } from './storage';
+import { coalesceWrites, writeFileAtomic } from './storage/atomicFile';
+
+const WORKSPACE_STORE_VERSION = 1;
+
+const workspaceFileValidator = object({
+  schemaVersion: number({ integer: true }),
+  activeId: nullable(workspaceIdValidator),
+  workspaces: array(workspaceValidator)
+});
+
+/**
+ * Named window layouts, kept in `workspaces.json`. A workspace only records
+ * which notes are open and where; the notes themselves stay in the
+ * repository, so deleting a workspace never deletes a note.
+ */
+export class Workspaces {
+  private workspaces = new Map<string, Workspace>();
+  private activeId: string | null = null;
+  private readonly scheduleWrite = coalesceWrites(() => this.write());
+
+  constructor(
+    private readonly filePath: string,
+    private readonly codec: StoreCodec = plainCodec
+  ) {}
+
+  async open(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    // Decoding errors, such as a missing key, must not be mistaken for a damaged file
+    text = this.codec.decode(text);
+    try {
+      const data = workspaceFileValidator(JSON.parse(text), 'workspaces');
+      oneOf(WORKSPACE_STORE_VERSION)(data.schemaVersion, 'workspaces.schemaVersion');
+      this.workspaces = new Map(data.workspaces.map(workspace => [workspace.id, workspace]));
+      this.activeId = data.activeId && this.workspaces.has(data.activeId) ? data.activeId : null;
+    } catch (error) {
+      // Losing layouts is an inconvenience, not a reason to refuse to start,
+      // but the file is moved aside so the next save does not write over it
+      const { dir, name } = path.parse(this.filePath);
+      const corruptPath = path.join(dir, `${name}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+      try {
+        await fs.promises.rename(this.filePath, corruptPath);
+        console.error(`Workspaces are unreadable, moved them to ${corruptPath}:`, error);
+      } catch (renameError) {
+        console.error('Workspaces are unreadable and could not be moved aside:', error, renameError);
+      }
+    }
+  }
+
+  /** Every workspace by name, and which one is active. */
+  list(): WorkspaceList {
+    return {
+      activeId: this.activeId,
+      workspaces: [...this.workspaces.values()]
+        .map(workspace => this.copy(workspace))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    };
+  }
+
+  get(id: string): Workspace {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) {
+      throw new IpcError('NOT_FOUND', `Workspace ${id} does not exist`);
+    }
+    return this.copy(workspace);
+  }
+
+  getActive(): Workspace | undefined {
+    return this.activeId === null ? undefined : this.get(this.activeId);
+  }
+
+  /** Stores `windows` under a new name and makes it the active workspace. */
+  async create(name: string, windows: WindowPlacement[]): Promise<Workspace> {
+    const now = new Date().toISOString();
+    const workspace: Workspace = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      name: this.claimName(name),
+      created: now,
+      updated: now,
+      windows
+    };
+    this.workspaces.set(workspace.id, workspace);
+    this.activeId = workspace.id;
+    await this.scheduleWrite();
+    return this.copy(workspace);
+  }
+
+  /** Replaces the layout recorded for a workspace. */
+  async save(id: string, windows: WindowPlacement[]): Promise<Workspace> {
+    const workspace = { ...this.get(id), windows, updated: new Date().toISOString() };
+    this.workspaces.set(id, workspace);
+    await this.scheduleWrite();
+    return this.copy(workspace);
+  }
+
+  async rename(id: string, name: string): Promise<Workspace> {
+    const workspace = { ...this.get(id), name: this.claimName(name, id), updated: new Date().toISOString() };
+    this.workspaces.set(id, workspace);
+    await this.scheduleWrite();
+    return this.copy(workspace);
+  }
+
+  /** Removes a workspace; its windows stay open and no workspace is active afterwards. */
+  async delete(id: string): Promise<void> {
+    this.get(id);
+    this.workspaces.delete(id);
+    if (this.activeId === id) {
+      this.activeId = null;
+    }
+    await this.scheduleWrite();
+  }
+
+  async setActive(id: string | null): Promise<void> {
+    if (id !== null) {
+      this.get(id);
+    }
+    this.activeId = id;
+    await this.scheduleWrite();
+  }
+
+  flush(): Promise<void> {
+    return this.scheduleWrite();
+  }
+
+  /** Writes the workspaces again with the codec's current key, along with any unreadable copies `open` moved aside. */
+  async rewrite(): Promise<void> {
+    await this.scheduleWrite();
+    await recodeCorruptCopies(this.filePath, this.codec);
+  }
+
+  /** Writes pending changes and drops the workspaces from memory until the next `open`. */
+  async close(): Promise<void> {
+    await this.scheduleWrite();
+    this.workspaces = new Map();
+    this.activeId = null;
+  }
+
+  /** Trims `name` and checks no other workspace uses it, ignoring case. */
+  private claimName(name: string, exceptId?: string): string {
+    const cleanName = workspaceNameValidator(name.trim(), 'name');
+    for (const workspace of this.workspaces.values()) {
+      if (workspace.id !== exceptId && workspace.name.toLowerCase() === cleanName.toLowerCase()) {
+        throw new IpcError('CONFLICT', `A workspace named "${cleanName}" already exists`);
+      }
+    }
+    return cleanName;
+  }
+
+  private copy(workspace: Workspace): Workspace {
+    return { ...workspace, windows: workspace.windows.map(placement => ({ ...placement })) };
+  }
+
+  private async write(): Promise<void> {
+    const data = {
+      schemaVersion: WORKSPACE_STORE_VERSION,
+      activeId: this.activeId,
+      workspaces: [...this.workspaces.values()]
+    };
+    await writeFileAtomic(this.filePath, this.codec.encode(JSON.stringify(data, null, 2)));
+  }
+}
@@ -1,76 +1,48 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import {
+  IpcError,
+  isIpcChannel,
+  isIpcEvent,
+  validateIpcArgs,
+  type ElectronBridge,
+  type IpcChannel,
+  type IpcResponse
+} from './shared/ipc';
 
-interface StickyNote {
-  id: string;
-  content: string;
-  color: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  created: string;
-  updated: string;
-}
+const bridge: ElectronBridge = {
+  // Only channels from the shared registry are forwarded, and arguments are
+  // checked here as well so bad calls fail fast without a round trip.
+  invoke: (async (channel: IpcChannel, ...args: unknown[]): Promise<IpcResponse<unknown>> => {
+    try {
+      if (!isIpcChannel(channel)) {
+        throw new IpcError('UNKNOWN_CHANNEL', `Unknown IPC channel: ${String(channel)}`);
+      }
+      validateIpcArgs(channel, args);
+    } catch (error) {
+      return { ok: false, error: IpcError.from(error).toJSON() };
+    }
+    return ipcRenderer.invoke(channel, ...args);
+  }) as ElectronBridge['invoke'],
 
-interface ElectronAPI {
-  // CRUD operations
-  loadNotes: () => Promise<StickyNote[]>;
-  createNote: (note: Partial<StickyNote>) => Promise<StickyNote>;
-  updateNote: (id: string, note: Partial<StickyNote>) => Promise<StickyNote>;
-  deleteNote: (noteId: string) => Promise<void>;
-  
-  // Window operations
-  toggleAlwaysOnTop: (alwaysOnTop: boolean) => Promise<void>;
-  openNoteWindow: (noteId?: string) => Promise<void>;
-  saveAll: () => Promise<void>;
-  
-  // Legacy API for backward compatibility
-  saveNote: (note: StickyNote) => Promise<void>;
-  getNote: (noteId: string) => Promise<StickyNote | undefined>;
-  createNewNote: () => Promise<void>;
-  
-  // Event listeners
-  onNoteId: (callback: (noteId: string) => void) => void;
-  onLoadNote: (callback: (note: StickyNote) => void) => void;
-  removeAllListeners: (channel: string) => void;
-}
-
-// Expose protected methods that allow the renderer process to use
-// the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electronAPI', {
-  // CRUD operations using ipcRenderer.invoke channels
-  loadNotes: () => ipcRenderer.invoke('load-notes'),
-  createNote: (note: Partial<StickyNote>) => ipcRenderer.invoke('create-note', note),
-  updateNote: (id: string, note: Partial<StickyNote>) => ipcRenderer.invoke('update-note', id, note),
-  deleteNote: (noteId: string) => ipcRenderer.invoke('delete-note', noteId),
-  
-  // Window operations
-  toggleAlwaysOnTop: (alwaysOnTop: boolean) => ipcRenderer.invoke('toggle-always-on-top', alwaysOnTop),
-  openNoteWindow: (noteId?: string) => ipcRenderer.invoke('open-note-window', noteId),
-  saveAll: () => ipcRenderer.invoke('save-all'),
-  
-  // Legacy API for backward compatibility
-  saveNote: (note: StickyNote) => ipcRenderer.invoke('save-note', note),
-  getNote: (noteId: string) => ipcRenderer.invoke('get-note', noteId),
-  createNewNote: () => ipcRenderer.invoke('create-new-note'),
-  
-  // Event listeners
-  onNoteId: (callback: (noteId: string) => void) => {
-    ipcRenderer.on('note-id', (_, noteId) => callback(noteId));
-  },
-  
-  onLoadNote: (callback: (note: StickyNote) => void) => {
-    ipcRenderer.on('load-note', (_, note) => callback(note));
+  on: (event, callback) => {
+    if (!isIpcEvent(event)) {
+      throw new Error(`Unknown IPC event: ${String(event)}`);
+    }
+    const listener = (_: Electron.IpcRendererEvent, ...args: unknown[]) =>
+      (callback as (...args: unknown[]) => void)(...args);
+    ipcRenderer.on(event, listener);
+    return () => {
+      ipcRenderer.removeListener(event, listener);
+    };
   },
-  
-  removeAllListeners: (channel: string) => {
-    ipcRenderer.removeAllListeners(channel);
-  }
-} as ElectronAPI);
 
-// Declare global interface for TypeScript
-declare global {
-  interface Window {
-    electronAPI: ElectronAPI;
+  removeAllListeners: (event) => {
+    if (isIpcEvent(event)) {
+      ipcRenderer.removeAllListeners(event);
+    }
   }
-}
+};
+
+// Expose protected methods that allow the renderer process to use
+// the ipcRenderer without exposing the entire object
+contextBridge.exposeInMainWorld('electronAPI', bridge);
@@ -1,64 +1,90 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { api, onIpcEvent } from './api';
+import AttachmentList from './AttachmentList';
+import BacklinksPanel from './BacklinksPanel';
+import EncryptionSettings from './EncryptionSettings';
+import Highlight from './Highlight';
+import ImportDialog from './ImportDialog';
+import LauncherSettings from './LauncherSettings';
+import Markdown from './Markdown';
+import NameInput from './NameInput';
+import NotebookSection from './NotebookSection';
+import RecoveryDialog from './RecoveryDialog';
+import ReminderEditor from './ReminderEditor';
+import RevisionHistory from './RevisionHistory';
+import SaveIndicator from './SaveIndicator';
+import SearchPanel from './SearchPanel';
+import SyncControl from './SyncControl';
+import TagBar from './TagBar';
+import TagEditor from './TagEditor';
+import TemplateMenu from './TemplateMenu';
+import TrashView from './TrashView';
+import TypographyEditor from './TypographyEditor';
+import { useAttachmentDrop } from './useAttachmentDrop';
+import { useAutosave } from './useAutosave';
+import { useColorScheme } from './useColorScheme';
+import { useNoteEvents } from './useNoteEvents';
+import { useNoteLinks } from './useNoteLinks';
+import { usePreferences } from './usePreferences';
+import { usePreviewMode } from './usePreviewMode';
+import WorkspaceControl from './WorkspaceControl';
+import type { ExportFormat, ImportPreview, NoteFileFormat } from '../shared/exchange';
+import { checklistProgress, toggleTask } from '../shared/markdown';
+import { isReminderPending } from '../shared/reminder';
+import { DEFAULT_NOTEBOOK_ID, normalizeTag, noteTags, type Notebook } from '../shared/notebook';
+import type { StickyNote, UnsavedEdits } from '../shared/note';
+import { noteBackground } from '../shared/palette';
+import { isSearchQueryActive, type SearchQuery, type SearchResult } from '../shared/search';
+import { typographyVariables } from '../shared/typography';
 
-interface StickyNote {
-  id: string;
-  title: string;
-  content: string;
-  color: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  created: string;
-  updated: string;
-  alwaysOnTop: boolean;
-}
+/** Fields edited in the detail pane and saved together after a pause. */
+const EDITABLE_FIELDS = ['title', 'content', 'color', 'alwaysOnTop'] as const;
+type EditableField = typeof EDITABLE_FIELDS[number];
 
-interface ExtendedElectronAPI {
-  // Existing API methods
-  saveNote: (note: StickyNote) => Promise<void>;
-  deleteNote: (noteId: string) => Promise<void>;
-  getNote: (noteId: string) => Promise<StickyNote | undefined>;
-  createNewNote: () => Promise<void>;
-  onNoteId: (callback: (noteId: string) => void) => void;
-  onLoadNote: (callback: (note: StickyNote) => void) => void;
-  removeAllListeners: (channel: string) => void;
-  // Extended API methods needed for main UI
-  loadNotes: () => Promise<StickyNote[]>;
-  updateNote: (note: StickyNote) => Promise<void>;
-  toggleAlwaysOnTop: (noteId: string, alwaysOnTop: boolean) => Promise<void>;
-  openNoteWindow: (noteId: string) => Promise<void>;
-}
+const upsertNote = (notes: StickyNote[], note: StickyNote): StickyNote[] =>
+  notes.some(n => n.id === note.id) ? notes.map(n => n.id === note.id ? note : n) : [...notes, note];
 
-declare global {
-  interface Window {
-    electronAPI: ExtendedElectronAPI;
-  }
+interface ListedNote {
+  note: StickyNote;
+  result?: SearchResult;
 }
 
-const COLORS = [
-  { name: 'Yellow', value: '#ffff88' },
-  { name: 'Pink', value: '#ffb3ba' },
-  { name: 'Green', value: '#bae1b3' },
-  { name: 'Blue', value: '#bae1ff' },
-  { name: 'Orange', value: '#ffdfba' },
-  { name: 'Purple', value: '#e1baff' }
-];
-
 const App: React.FC = () => {
   const [notes, setNotes] = useState<StickyNote[]>([]);
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
   const [selectedNote, setSelectedNote] = useState<StickyNote | null>(null);
   const [loading, setLoading] = useState(true);
-  const [saveTimeouts, setSaveTimeouts] = useState<Record<string, NodeJS.Timeout>>({});
+  const [showTrash, setShowTrash] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>({});
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [notebookFilter, setNotebookFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [creatingNotebook, setCreatingNotebook] = useState(false);
+  const [preview, togglePreview] = usePreviewMode(selectedNote?.id);
+  const drop = useAttachmentDrop(selectedNote?.id);
+  const links = useNoteLinks(selectedNote?.id);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [showEncryption, setShowEncryption] = useState(false);
+  const [showLauncher, setShowLauncher] = useState(false);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  // Keeping another window's version of a note drops the edits made here
+  const autosave = useAutosave(note => {
+    setNotes(prev => upsertNote(prev, note));
+    setSelectedNote(prev => prev?.id === note.id ? note : prev);
+  });
+  const [unsavedEdits, setUnsavedEdits] = useState<UnsavedEdits[]>([]);
+  const preferences = usePreferences();
+  const scheme = useColorScheme();
 
   // Load notes on component mount
   useEffect(() => {
     const loadAllNotes = async () => {
       try {
-        if (window.electronAPI?.loadNotes) {
-          const loadedNotes = await window.electronAPI.loadNotes();
-          setNotes(loadedNotes);
-        }
+        const [loadedNotes, loadedNotebooks] = await Promise.all([api.loadNotes(), api.listNotebooks()]);
+        setNotes(loadedNotes);
+        setNotebooks(loadedNotebooks);
       } catch (error) {
         console.error('Failed to load notes:', error);
       } finally {
@@ -69,82 +95,147 @@ const App: React.FC = () => {
     loadAllNotes();
   }, []);
 
-  // Debounced auto-save function
-  const debouncedSave = useCallback((note: StickyNote) => {
-    // Clear existing timeout for this note
-    if (saveTimeouts[note.id]) {
-      clearTimeout(saveTimeouts[note.id]);
-    }
+  // Edits a crash cut off are offered back once
+  useEffect(() => {
+    api.listUnsavedEdits()
+      .then(setUnsavedEdits)
+      .catch(error => console.error('Failed to check for unsaved edits:', error));
+  }, []);
+
+  // Imports started from the File menu arrive here for confirmation
+  useEffect(() => onIpcEvent('import-preview', setImportPreview), []);
+
+  // stickynotes://search links open the manager on their results
+  useEffect(() => onIpcEvent('show-search', (text) => {
+    setSearchQuery({ text });
+    setShowTrash(false);
+  }), []);
+
+  // The copied check mark fades back to the link icon
+  useEffect(() => {
+    if (!copiedLinkId) return;
+    const timeoutId = setTimeout(() => setCopiedLinkId(null), 1500);
+    return () => clearTimeout(timeoutId);
+  }, [copiedLinkId]);
 
-    // Set new timeout
+  // Re-run the search as the query changes and after notes are saved
+  useEffect(() => {
+    if (!isSearchQueryActive(searchQuery)) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
     const timeoutId = setTimeout(async () => {
       try {
-        if (window.electronAPI?.updateNote) {
-          await window.electronAPI.updateNote(note);
-        }
-        setSaveTimeouts(prev => {
-          const newTimeouts = { ...prev };
-          delete newTimeouts[note.id];
-          return newTimeouts;
-        });
+        const results = await api.searchNotes(searchQuery);
+        if (!cancelled) setSearchResults(results);
       } catch (error) {
-        console.error('Failed to save note:', error);
+        console.error('Failed to search notes:', error);
       }
-    }, 500); // 500ms debounce
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery, notes]);
+
+  const removeNote = (noteId: string) => {
+    autosave.discard(noteId);
+    setNotes(prev => prev.filter(n => n.id !== noteId));
+    setSelectedNote(prev => prev?.id === noteId ? null : prev);
+  };
 
-    setSaveTimeouts(prev => ({
-      ...prev,
-      [note.id]: timeoutId
-    }));
-  }, [saveTimeouts]);
+  // Apply changes pushed from main, keeping edits that are not saved yet
+  useNoteEvents({
+    onChanged: (changedNote) => {
+      if (changedNote.deletedAt) {
+        removeNote(changedNote.id);
+        return;
+      }
+      const note = { ...changedNote, ...autosave.unsaved(changedNote.id) };
+      setNotes(prev => upsertNote(prev, note));
+      setSelectedNote(prev => prev?.id === note.id ? note : prev);
+    },
+    onDeleted: (noteId) => removeNote(noteId)
+  });
 
   // Create new note
   const handleCreateNote = async () => {
-    const newNote: StickyNote = {
-      id: Date.now().toString(),
-      title: 'New Note',
-      content: '',
-      color: COLORS[0].value,
-      x: 100,
-      y: 100,
-      width: 300,
-      height: 200,
-      created: new Date().toISOString(),
-      updated: new Date().toISOString(),
-      alwaysOnTop: false
-    };
+    try {
+      // Color, size and staying on top come from the preferences
+      const newNote = await api.createNote({
+        title: 'New Note',
+        content: '',
+        notebookId: notebookFilter ?? DEFAULT_NOTEBOOK_ID,
+        tags: tagFilter ? [tagFilter] : []
+      });
+      setNotes(prev => upsertNote(prev, newNote));
+      setSelectedNote(newNote);
+    } catch (error) {
+      console.error('Failed to create note:', error);
+    }
+  };
 
+  // Same as above, with the title and content from a template
+  const handleCreateFromTemplate = async (templateId: string) => {
     try {
-      if (window.electronAPI?.saveNote) {
-        await window.electronAPI.saveNote(newNote);
-        setNotes(prev => [...prev, newNote]);
-        setSelectedNote(newNote);
-      }
+      const newNote = await api.createNoteFromTemplate(templateId, {
+        notebookId: notebookFilter ?? DEFAULT_NOTEBOOK_ID,
+        tags: tagFilter ? [tagFilter] : []
+      });
+      setNotes(prev => upsertNote(prev, newNote));
+      setSelectedNote(newNote);
     } catch (error) {
       console.error('Failed to create note:', error);
     }
   };
 
-  // Delete note
+  // Move note to the Trash
   const handleDeleteNote = async (noteId: string) => {
     try {
-      if (window.electronAPI?.deleteNote) {
-        await window.electronAPI.deleteNote(noteId);
-        setNotes(prev => prev.filter(n => n.id !== noteId));
-        if (selectedNote?.id === noteId) {
-          setSelectedNote(null);
-        }
+      await api.deleteNote(noteId);
+      setNotes(prev => prev.filter(n => n.id !== noteId));
+      if (selectedNote?.id === noteId) {
+        setSelectedNote(null);
       }
     } catch (error) {
       console.error('Failed to delete note:', error);
     }
   };
 
-  // Update note and trigger auto-save
+  // Update note and trigger auto-save: only the fields edited here are sent,
+  // so a save never overwrites what another window changed in the meantime
   const handleUpdateNote = (updatedNote: StickyNote) => {
+    const previous = notes.find(n => n.id === updatedNote.id);
+    const patch: Partial<Pick<StickyNote, EditableField>> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (updatedNote[field] !== previous?.[field]) {
+        Object.assign(patch, { [field]: updatedNote[field] });
+      }
+    }
     setNotes(prev => prev.map(n => n.id === updatedNote.id ? updatedNote : n));
     setSelectedNote(updatedNote);
-    debouncedSave(updatedNote);
+    if (previous && Object.keys(patch).length > 0) {
+      autosave.edit(updatedNote.id, patch, previous);
+    }
+  };
+
+  // Links to a note follow its new title once the title is typed out, not
+  // with every save while it is
+  const handleTitleCommit = async (noteId: string) => {
+    try {
+      await autosave.flush(noteId);
+      await api.commitNoteTitle(noteId);
+    } catch (error) {
+      console.error('Failed to update links to the note:', error);
+    }
+  };
+
+  // Replace a note with the version restored from the Trash or its history
+  const handleRestoredNote = (restoredNote: StickyNote) => {
+    autosave.discard(restoredNote.id);
+    setNotes(prev => upsertNote(prev, restoredNote));
+    setSelectedNote(restoredNote);
   };
 
   // Toggle always on top
@@ -152,13 +243,10 @@ const App: React.FC = () => {
     const note = notes.find(n => n.id === noteId);
     if (!note) return;
 
-    const updatedNote = { ...note, alwaysOnTop: !note.alwaysOnTop };
-    
     try {
-      if (window.electronAPI?.toggleAlwaysOnTop) {
-        await window.electronAPI.toggleAlwaysOnTop(noteId, updatedNote.alwaysOnTop);
-        handleUpdateNote(updatedNote);
-      }
+      const { alwaysOnTop } = await api.toggleAlwaysOnTop(noteId, !note.alwaysOnTop);
+      setNotes(prev => prev.map(n => n.id === noteId ? { ...n, alwaysOnTop } : n));
+      setSelectedNote(prev => prev?.id === noteId ? { ...prev, alwaysOnTop } : prev);
     } catch (error) {
       console.error('Failed to toggle always on top:', error);
     }
@@ -167,91 +255,357 @@ const App: React.FC = () => {
   // Open note in floating window
   const handleOpenNoteWindow = async (noteId: string) => {
     try {
-      if (window.electronAPI?.openNoteWindow) {
-        await window.electronAPI.openNoteWindow(noteId);
-      }
+      await api.openNoteWindow(noteId);
     } catch (error) {
       console.error('Failed to open note window:', error);
     }
   };
 
+  const handleCopyLink = async (noteId: string) => {
+    try {
+      await api.copyNoteLink(noteId);
+      setCopiedLinkId(noteId);
+    } catch (error) {
+      console.error('Failed to copy note link:', error);
+    }
+  };
+
+  // Move a note to another notebook or change its tags right away
+  const handleOrganizeNote = async (noteId: string, patch: Pick<Partial<StickyNote>, 'notebookId' | 'tags'>) => {
+    try {
+      const { notebookId, tags } = await api.updateNote(noteId, patch);
+      setNotes(prev => prev.map(n => n.id === noteId ? { ...n, notebookId, tags } : n));
+      setSelectedNote(prev => prev?.id === noteId ? { ...prev, notebookId, tags } : prev);
+    } catch (error) {
+      console.error('Failed to update note:', error);
+    }
+  };
+
+  // Due dates and reminders are saved as soon as they change
+  const handleScheduleChange = ({ id, dueAt, reminder }: StickyNote) => {
+    setNotes(prev => prev.map(n => n.id === id ? { ...n, dueAt, reminder } : n));
+    setSelectedNote(prev => prev?.id === id ? { ...prev, dueAt, reminder } : prev);
+  };
+
+  // So is a note's text style
+  const handleTypographyChange = ({ id, typography }: StickyNote) => {
+    setNotes(prev => prev.map(n => n.id === id ? { ...n, typography } : n));
+    setSelectedNote(prev => prev?.id === id ? { ...prev, typography } : prev);
+  };
+
+  // Merges and tag renames rewrite notes in main; reload to pick them up
+  const reloadLibrary = useCallback(async () => {
+    const [loadedNotes, loadedNotebooks] = await Promise.all([api.loadNotes(), api.listNotebooks()]);
+    setNotes(loadedNotes);
+    setNotebooks(loadedNotebooks);
+    setSelectedNote(prev => prev && (loadedNotes.find(n => n.id === prev.id) ?? null));
+  }, []);
+
+  const handleCreateNotebook = async (name: string) => {
+    setCreatingNotebook(false);
+    try {
+      const notebook = await api.createNotebook(name);
+      setNotebooks(await api.listNotebooks());
+      setNotebookFilter(notebook.id);
+    } catch (error) {
+      console.error('Failed to create notebook:', error);
+    }
+  };
+
+  const handleRenameNotebook = async (notebookId: string, name: string) => {
+    try {
+      await api.renameNotebook(notebookId, name);
+      setNotebooks(await api.listNotebooks());
+    } catch (error) {
+      console.error('Failed to rename notebook:', error);
+    }
+  };
+
+  const handleMergeNotebook = async (notebook: Notebook, targetId: string) => {
+    const target = notebooks.find(n => n.id === targetId);
+    if (!target || !window.confirm(`Move every note in "${notebook.name}" to "${target.name}" and remove "${notebook.name}"?`)) return;
+    try {
+      await api.mergeNotebooks(notebook.id, targetId);
+      setNotebookFilter(prev => prev === notebook.id ? null : prev);
+      await reloadLibrary();
+    } catch (error) {
+      console.error('Failed to merge notebooks:', error);
+    }
+  };
+
+  const handleDeleteNotebook = async (notebook: Notebook) => {
+    if (!window.confirm(`Delete the notebook "${notebook.name}"? Its notes move to the default notebook.`)) return;
+    try {
+      await api.deleteNotebook(notebook.id);
+      setNotebookFilter(prev => prev === notebook.id ? null : prev);
+      await reloadLibrary();
+    } catch (error) {
+      console.error('Failed to delete notebook:', error);
+    }
+  };
+
+  const handleSetNotebookWindowsVisible = async (notebookId: string, visible: boolean) => {
+    try {
+      await api.setNotebookWindowsVisible(notebookId, visible);
+    } catch (error) {
+      console.error('Failed to show or hide notebook windows:', error);
+    }
+  };
+
+  const handleRenameTag = async (from: string, to: string) => {
+    try {
+      await api.renameTag(from, to);
+      setTagFilter(prev => prev === from ? normalizeTag(to) : prev);
+      await reloadLibrary();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+    }
+  };
+
+  const handleChooseImport = async () => {
+    try {
+      setImportPreview(await api.chooseImport('file'));
+    } catch (error) {
+      window.alert(`Could not read the import: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Exports what the sidebar currently shows
+  const handleExport = async (format: ExportFormat, noteIds: string[]) => {
+    try {
+      await api.exportNotes(format, noteIds);
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+    }
+  };
+
+  // Pending edits are saved first so the file has what is on screen
+  const handleExportNote = async (noteId: string, format: NoteFileFormat) => {
+    try {
+      await autosave.flush(noteId);
+      await api.exportNote(noteId, format);
+    } catch (error) {
+      window.alert(`Could not export the note: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
   if (loading) {
     return <div className="loading">Loading notes...</div>;
   }
 
+  // Results carry a snapshot from the index; prefer the live copy for editing
+  const listedNotes: ListedNote[] = (searchResults
+    ? searchResults.map(result => ({ note: notes.find(n => n.id === result.note.id) ?? result.note, result }))
+    : notes.map(note => ({ note })))
+    .filter(({ note }) => !tagFilter || noteTags(note).includes(tagFilter));
+  const filtering = searchResults !== null || tagFilter !== null;
+  const visibleNotebooks = notebookFilter ? notebooks.filter(n => n.id === notebookFilter) : notebooks;
+  const shownNoteIds = listedNotes
+    .filter(({ note }) => visibleNotebooks.some(notebook => notebook.id === note.notebookId))
+    .map(({ note }) => note.id);
+
+  const renderNoteItem = ({ note, result }: ListedNote) => {
+    const progress = checklistProgress(note.content);
+    const overdue = note.dueAt !== undefined && Date.parse(note.dueAt) < Date.now();
+    return (
+      <div 
+        key={note.id}
+        className={`note-item ${selectedNote?.id === note.id ? 'selected' : ''}`}
+        onClick={() => {
+          setSelectedNote(note);
+          setShowTrash(false);
+        }}
+        style={{ borderLeft: `4px solid ${noteBackground(note.color, preferences.palette, scheme)}` }}
+      >
+        <div className="note-item-header">
+          <h3 className="note-title">
+            {result
+              ? <Highlight text={result.note.title} ranges={result.titleRanges} />
+              : note.title || 'Untitled'}
+          </h3>
+          <button 
+            className="btn-icon delete-btn"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDeleteNote(note.id);
+            }}
+            title="Move to Trash"
+          >
+            ×
+          </button>
+        </div>
+        <p className="note-preview">
+          {result
+            ? <Highlight text={result.snippet} ranges={result.snippetRanges} />
+            : <>{note.content.slice(0, 50)}{note.content.length > 50 ? '...' : ''}</>}
+        </p>
+        <div className="note-item-actions">
+          {note.dueAt && (
+            <span className={`note-badge ${overdue ? 'overdue' : ''}`}>
+              Due {new Date(note.dueAt).toLocaleDateString()}
+            </span>
+          )}
+          {note.reminder && isReminderPending(note.reminder) && (
+            <span className="note-badge" title={`Reminder ${new Date(note.reminder.at).toLocaleString()}`}>
+              ⏰
+            </span>
+          )}
+          {progress.total > 0 && (
+            <span className={`checklist-progress ${progress.done === progress.total ? 'complete' : ''}`}>
+              {progress.done}/{progress.total} done
+            </span>
+          )}
+          <button
+            className={`btn-icon ${note.alwaysOnTop ? 'active' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleToggleAlwaysOnTop(note.id);
+            }}
+            title="Toggle always on top"
+          >
+            📌
+          </button>
+          <button
+            className="btn-icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOpenNoteWindow(note.id);
+            }}
+            title="Open in floating window"
+          >
+            🗗
+          </button>
+          <button
+            className="btn-icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleCopyLink(note.id);
+            }}
+            title="Copy link"
+          >
+            {copiedLinkId === note.id ? '✓' : '🔗'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="app">
       <div className="sidebar">
         <div className="sidebar-header">
           <h1>Sticky Notes</h1>
-          <button 
-            className="btn btn-primary"
-            onClick={handleCreateNote}
-            title="Create new note"
-          >
-            + New Note
-          </button>
+          <div className="new-note-buttons">
+            <button 
+              className="btn btn-primary"
+              onClick={handleCreateNote}
+              title="Create new note"
+            >
+              + New Note
+            </button>
+            <TemplateMenu selectedNote={selectedNote} flushNote={autosave.flush} onCreate={handleCreateFromTemplate} />
+          </div>
         </div>
+
+        <SearchPanel query={searchQuery} colors={preferences.palette} onChange={setSearchQuery} />
         
+        <div className="sidebar-filters">
+          <select
+            className="notebook-filter"
+            value={notebookFilter ?? ''}
+            onChange={(e) => setNotebookFilter(e.target.value || null)}
+          >
+            <option value="">All notebooks</option>
+            {notebooks.map(notebook => (
+              <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+            ))}
+          </select>
+          <TagBar notes={notes} selectedTag={tagFilter} onSelect={setTagFilter} onRename={handleRenameTag} />
+        </div>
+
         <div className="notes-list">
           {notes.length === 0 ? (
             <p className="no-notes">No notes yet. Create your first note!</p>
+          ) : filtering && listedNotes.length === 0 ? (
+            <p className="no-notes">No matching notes</p>
           ) : (
-            notes.map(note => (
-              <div 
-                key={note.id}
-                className={`note-item ${selectedNote?.id === note.id ? 'selected' : ''}`}
-                onClick={() => setSelectedNote(note)}
-                style={{ borderLeft: `4px solid ${note.color}` }}
-              >
-                <div className="note-item-header">
-                  <h3 className="note-title">
-                    {note.title || 'Untitled'}
-                  </h3>
-                  <button 
-                    className="btn-icon delete-btn"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteNote(note.id);
-                    }}
-                    title="Delete note"
-                  >
-                    ×
-                  </button>
-                </div>
-                <p className="note-preview">
-                  {note.content.slice(0, 50)}{note.content.length > 50 ? '...' : ''}
-                </p>
-                <div className="note-item-actions">
-                  <button
-                    className={`btn-icon ${note.alwaysOnTop ? 'active' : ''}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleToggleAlwaysOnTop(note.id);
-                    }}
-                    title="Toggle always on top"
-                  >
-                    📌
-                  </button>
-                  <button
-                    className="btn-icon"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleOpenNoteWindow(note.id);
-                    }}
-                    title="Open in floating window"
-                  >
-                    🗗
-                  </button>
-                </div>
-              </div>
-            ))
+            visibleNotebooks.map(notebook => {
+              const items = listedNotes.filter(({ note }) => note.notebookId === notebook.id);
+              if (filtering && items.length === 0) return null;
+              return (
+                <NotebookSection
+                  key={notebook.id}
+                  notebook={notebook}
+                  notebooks={notebooks}
+                  count={items.length}
+                  collapsed={Boolean(collapsed[notebook.id])}
+                  onToggle={() => setCollapsed(prev => ({ ...prev, [notebook.id]: !prev[notebook.id] }))}
+                  onRename={(name) => handleRenameNotebook(notebook.id, name)}
+                  onMerge={(targetId) => handleMergeNotebook(notebook, targetId)}
+                  onDelete={() => handleDeleteNotebook(notebook)}
+                  onSetWindowsVisible={(visible) => handleSetNotebookWindowsVisible(notebook.id, visible)}
+                >
+                  {items.map(renderNoteItem)}
+                </NotebookSection>
+              );
+            })
+          )}
+        </div>
+
+        <div className="sidebar-footer">
+          {creatingNotebook ? (
+            <NameInput
+              placeholder="Notebook name"
+              onSubmit={handleCreateNotebook}
+              onCancel={() => setCreatingNotebook(false)}
+            />
+          ) : (
+            <button className="btn btn-secondary" onClick={() => setCreatingNotebook(true)}>
+              + Notebook
+            </button>
           )}
+          <button
+            className={`btn btn-secondary ${showTrash ? 'active' : ''}`}
+            onClick={() => setShowTrash(prev => !prev)}
+          >
+            🗑 Trash
+          </button>
+          <button className="btn btn-secondary" onClick={handleChooseImport}>
+            Import…
+          </button>
+          <select
+            className="export-select"
+            value=""
+            onChange={(e) => e.target.value && handleExport(e.target.value as ExportFormat, shownNoteIds)}
+            disabled={shownNoteIds.length === 0}
+            title="Export the notes shown in the sidebar"
+          >
+            <option value="">Export {shownNoteIds.length}…</option>
+            <option value="bundle">As a JSON bundle</option>
+            <option value="markdown">As Markdown files</option>
+            <option value="pdf">As a printable PDF</option>
+          </select>
+          <SyncControl onNotesChanged={reloadLibrary} />
+          <WorkspaceControl />
+          <button className="btn btn-secondary" onClick={() => setShowEncryption(true)}>
+            🔒 Encryption…
+          </button>
+          <button className="btn btn-secondary" onClick={() => setShowLauncher(true)}>
+            ⌨ Quick Capture…
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => api.openPreferences().catch(error => console.error('Failed to open preferences:', error))}
+          >
+            ⚙ Preferences…
+          </button>
         </div>
       </div>
 
       <div className="main-content">
-        {selectedNote ? (
+        {showTrash ? (
+          <TrashView onRestore={handleRestoredNote} />
+        ) : selectedNote ? (
           <div className="note-editor">
             <div className="note-editor-header">
               <input
@@ -262,14 +616,26 @@ const App: React.FC = () => {
                   title: e.target.value,
                   updated: new Date().toISOString()
                 })}
+                onBlur={() => handleTitleCommit(selectedNote.id)}
                 placeholder="Note title"
                 className="title-input"
               />
               
+              <select
+                className="notebook-select"
+                value={selectedNote.notebookId}
+                onChange={(e) => handleOrganizeNote(selectedNote.id, { notebookId: e.target.value })}
+                title="Notebook"
+              >
+                {notebooks.map(notebook => (
+                  <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                ))}
+              </select>
+
               <div className="color-picker">
                 <label>Color:</label>
                 <div className="color-options">
-                  {COLORS.map(color => (
+                  {preferences.palette.map(color => (
                     <button
                       key={color.name}
                       className={`color-option ${selectedNote.color === color.value ? 'selected' : ''}`}
@@ -286,21 +652,74 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <textarea
-              value={selectedNote.content}
-              onChange={(e) => handleUpdateNote({
-                ...selectedNote,
-                content: e.target.value,
-                updated: new Date().toISOString()
-              })}
-              placeholder="Start writing..."
-              className="content-textarea"
+            <TagEditor note={selectedNote} onChange={(tags) => handleOrganizeNote(selectedNote.id, { tags })} />
+            <ReminderEditor note={selectedNote} onChange={handleScheduleChange} />
+            <TypographyEditor
+              note={selectedNote}
+              defaultFontSize={preferences.fontSize}
+              onChange={handleTypographyChange}
             />
 
+            <div
+              className={`note-editor-body ${drop.dragging ? 'dropping' : ''}`}
+              style={typographyVariables(selectedNote.typography)}
+              {...drop.handlers}
+            >
+              {preview ? (
+                <Markdown
+                  content={selectedNote.content}
+                  brokenLinks={links?.broken}
+                  onToggleTask={(line) => handleUpdateNote({
+                    ...selectedNote,
+                    content: toggleTask(selectedNote.content, line),
+                    updated: new Date().toISOString()
+                  })}
+                  className="content-preview"
+                />
+              ) : (
+                <textarea
+                  value={selectedNote.content}
+                  onChange={(e) => handleUpdateNote({
+                    ...selectedNote,
+                    content: e.target.value,
+                    updated: new Date().toISOString()
+                  })}
+                  placeholder="Start writing..."
+                  className="content-textarea"
+                />
+              )}
+
+              {showHistory && (
+                <RevisionHistory
+                  note={selectedNote}
+                  onRestore={handleRestoredNote}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+            </div>
+
+            {selectedNote.attachments && (
+              <AttachmentList noteId={selectedNote.id} attachments={selectedNote.attachments} />
+            )}
+            {drop.error && <p className="attachment-error">{drop.error}</p>}
+            {links && (
+              <BacklinksPanel
+                links={links}
+                onSelect={(noteId) => {
+                  const note = notes.find(n => n.id === noteId);
+                  if (note) setSelectedNote(note);
+                }}
+              />
+            )}
+
             <div className="note-editor-footer">
               <div className="note-info">
                 Created: {new Date(selectedNote.created).toLocaleDateString()}<br/>
                 Updated: {new Date(selectedNote.updated).toLocaleDateString()}
+                <SaveIndicator
+                  status={autosave.statuses[selectedNote.id]}
+                  onRetry={() => autosave.flush(selectedNote.id)}
+                />
               </div>
               
               <div className="note-actions">
@@ -313,6 +732,32 @@ const App: React.FC = () => {
                   Always on top
                 </label>
                 
+                <button
+                  className={`btn btn-secondary ${preview ? 'active' : ''}`}
+                  onClick={togglePreview}
+                >
+                  {preview ? 'Edit' : 'Preview'}
+                </button>
+
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setShowHistory(prev => !prev)}
+                >
+                  History
+                </button>
+
+                <select
+                  className="export-select"
+                  value=""
+                  onChange={(e) => e.target.value && handleExportNote(selectedNote.id, e.target.value as NoteFileFormat)}
+                  title="Export this note"
+                >
+                  <option value="">Export…</option>
+                  <option value="markdown">As Markdown</option>
+                  <option value="pdf">As PDF</option>
+                  <option value="png">As PNG image</option>
+                </select>
+
                 <button
                   className="btn btn-secondary"
                   onClick={() => handleOpenNoteWindow(selectedNote.id)}
@@ -329,6 +774,25 @@ const App: React.FC = () => {
           </div>
         )}
       </div>
+
+      {unsavedEdits.length > 0 && (
+        <RecoveryDialog
+          edits={unsavedEdits}
+          notes={notes}
+          onRecovered={handleRestoredNote}
+          onResolved={(noteId) => setUnsavedEdits(prev => prev.filter(entry => entry.noteId !== noteId))}
+          onClose={() => setUnsavedEdits([])}
+        />
+      )}
+      {importPreview && (
+        <ImportDialog
+          preview={importPreview}
+          onImported={() => reloadLibrary().catch(error => console.error('Failed to reload notes:', error))}
+          onClose={() => setImportPreview(null)}
+        />
+      )}
+      {showEncryption && <EncryptionSettings onClose={() => setShowEncryption(false)} />}
+      {showLauncher && <LauncherSettings onClose={() => setShowLauncher(false)} />}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { api } from './api';
+import { attachmentUrl, isInlineImage, type Attachment } from '../shared/attachment';
+
+interface AttachmentListProps {
+  noteId: string;
+  attachments: Attachment[];
+}
+
+const formatSize = (size: number): string =>
+  size < 1024 ? `${size} B`
+    : size < 1024 * 1024 ? `${Math.round(size / 1024)} KB`
+      : `${(size / 1024 / 1024).toFixed(1)} MB`;
+
+/** A note's attachments: images as thumbnails, other files as chips; both open on click. */
+const AttachmentList: React.FC<AttachmentListProps> = ({ noteId, attachments }) => {
+  // Images whose file is missing, e.g. not synced yet, fall back to a chip
+  const [broken, setBroken] = useState<Set<string>>(new Set());
+
+  const open = (file: string) => {
+    api.openAttachment(noteId, file).catch(error => console.error('Failed to open attachment:', error));
+  };
+  const remove = (file: string) => {
+    api.removeAttachment(noteId, file).catch(error => console.error('Failed to remove attachment:', error));
+  };
+
+  return (
+    <div className="attachment-list">
+      {attachments.map(attachment => (
+        <div key={attachment.file} className="attachment" title={attachment.name}>
+          {isInlineImage(attachment) && !broken.has(attachment.file) ? (
+            <img
+              className="attachment-thumb"
+              src={attachmentUrl(attachment.file)}
+              alt={attachment.name}
+              onClick={() => open(attachment.file)}
+              onError={() => setBroken(prev => new Set(prev).add(attachment.file))}
+            />
+          ) : (
+            <button className="attachment-chip" onClick={() => open(attachment.file)}>
+              📎 <span className="attachment-name">{attachment.name}</span>
+              <span className="attachment-size">{formatSize(attachment.size)}</span>
+            </button>
+          )}
+          <button
+            className="btn-icon attachment-remove"
+            onClick={() => remove(attachment.file)}
+            title="Remove attachment"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentList;
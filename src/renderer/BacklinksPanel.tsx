@@ -0,0 +1,39 @@
+import React from 'react';
+import type { NoteLinks } from '../shared/wikiLink';
+
+interface BacklinksPanelProps {
+  links: NoteLinks;
+  onSelect: (noteId: string) => void;
+}
+
+/** "Linked from" list of notes that link here, plus any links from here that lead nowhere. */
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ links, onSelect }) => {
+  if (links.backlinks.length === 0 && links.broken.length === 0) return null;
+
+  return (
+    <div className="backlinks-panel">
+      {links.backlinks.length > 0 && (
+        <div className="backlinks">
+          <span className="backlinks-label">Linked from</span>
+          {links.backlinks.map(note => (
+            <button key={note.id} className="backlink" onClick={() => onSelect(note.id)}>
+              {note.title || 'Untitled'}
+            </button>
+          ))}
+        </div>
+      )}
+      {links.broken.length > 0 && (
+        <div className="backlinks">
+          <span className="backlinks-label">Broken links</span>
+          {links.broken.map(title => (
+            <span key={title} className="wiki-link broken" title="No note has this title">
+              [[{title}]]
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import { AUTO_LOCK_CHOICES, MIN_PASSPHRASE_LENGTH, type LockState } from '../shared/encryption';
+
+interface EncryptionSettingsProps {
+  onClose: () => void;
+}
+
+const autoLockLabel = (minutes: number): string =>
+  minutes === 0 ? 'Never' : `After ${minutes} minute${minutes === 1 ? '' : 's'} idle`;
+
+/** Turns encryption on or off, changes the passphrase and sets auto-lock. */
+const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ onClose }) => {
+  const [state, setState] = useState<LockState | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.getLockState().then(setState).catch(error => console.error('Failed to load lock state:', error));
+  }, []);
+
+  const run = async (action: () => Promise<LockState>, done?: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setState(await action());
+      setCurrent('');
+      setNext('');
+      setConfirm('');
+      if (done) setMessage(done);
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!state) {
+    return null;
+  }
+
+  const nextProblem = next.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : next !== confirm ? 'The passphrases do not match' : null;
+
+  const newPassphraseFields = (
+    <>
+      <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder="New passphrase" />
+      <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder="Repeat new passphrase" />
+      {next && nextProblem && <p className="encryption-hint">{nextProblem}</p>}
+    </>
+  );
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal encryption-settings">
+        <h2>Encryption</h2>
+
+        {!state.encrypted ? (
+          <section>
+            <p>
+              Encrypt notes and their history on this computer with a passphrase. There is no way to recover
+              the notes if the passphrase is forgotten.
+            </p>
+            {newPassphraseFields}
+            <button
+              className="btn btn-primary"
+              disabled={busy || nextProblem !== null}
+              onClick={() => run(() => api.enableEncryption(next), 'Notes are now encrypted.')}
+            >
+              Encrypt Notes
+            </button>
+          </section>
+        ) : (
+          <>
+            <section>
+              <label>
+                Lock automatically{' '}
+                <select
+                  value={state.autoLockMinutes}
+                  onChange={(e) => run(() => api.setAutoLock(Number(e.target.value)))}
+                  disabled={busy}
+                >
+                  {AUTO_LOCK_CHOICES.map(minutes => (
+                    <option key={minutes} value={minutes}>{autoLockLabel(minutes)}</option>
+                  ))}
+                </select>
+              </label>
+              <button className="btn btn-secondary" disabled={busy} onClick={() => run(api.lock)}>
+                Lock Now
+              </button>
+            </section>
+
+            <section>
+              <h3>Passphrase</h3>
+              <input
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                placeholder="Current passphrase"
+              />
+              {newPassphraseFields}
+              <div className="modal-actions">
+                <button
+                  className="btn btn-secondary"
+                  disabled={busy || !current}
+                  onClick={() => window.confirm('Store notes unencrypted again?')
+                    && run(() => api.disableEncryption(current), 'Notes are no longer encrypted.')}
+                >
+                  Turn Off Encryption
+                </button>
+                <button
+                  className="btn btn-primary"
+                  disabled={busy || !current || nextProblem !== null}
+                  onClick={() => run(() => api.changePassphrase(current, next), 'Passphrase changed.')}
+                >
+                  Change Passphrase
+                </button>
+              </div>
+            </section>
+          </>
+        )}
+
+        {message && <p className="encryption-message">{message}</p>}
+        {error && <p className="encryption-error">{error}</p>}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionSettings;
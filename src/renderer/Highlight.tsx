@@ -0,0 +1,24 @@
+import React from 'react';
+import type { TextRange } from '../shared/search';
+
+interface HighlightProps {
+  text: string;
+  ranges: TextRange[];
+}
+
+/** Renders `text` with the given non-overlapping ranges wrapped in <mark>. */
+const Highlight: React.FC<HighlightProps> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) {
+      parts.push(text.slice(cursor, range.start));
+    }
+    parts.push(<mark key={index}>{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export default Highlight;
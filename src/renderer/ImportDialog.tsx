@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { api } from './api';
+import type { CollisionStrategy, ImportPreview, ImportResult } from '../shared/exchange';
+
+const STRATEGY_LABELS: Record<CollisionStrategy, string> = {
+  skip: 'Keep my version',
+  overwrite: 'Replace with imported',
+  duplicate: 'Keep both'
+};
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  onImported: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+const actionFor = (exists: boolean, strategy: CollisionStrategy): string => {
+  if (!exists) return 'New';
+  return { skip: 'Skipped', overwrite: 'Replaces existing', duplicate: 'Added as a copy' }[strategy];
+};
+
+/** Shows what an import will change and applies it with the chosen strategy. */
+const ImportDialog: React.FC<ImportDialogProps> = ({ preview, onImported, onClose }) => {
+  const [strategy, setStrategy] = useState<CollisionStrategy>('skip');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const collisions = preview.entries.filter(entry => entry.exists).length;
+
+  const handleImport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const imported = await api.applyImport(preview.token, strategy);
+      setResult(imported);
+      onImported(imported);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal import-dialog">
+        <h2>Import {preview.entries.length} note{preview.entries.length === 1 ? '' : 's'}</h2>
+        <p className="import-source">{preview.source}</p>
+
+        {result ? (
+          <p>
+            {result.created} added, {result.overwritten} replaced, {result.duplicated} copied,{' '}
+            {result.skipped} skipped.
+          </p>
+        ) : (
+          <>
+            {collisions > 0 && (
+              <div className="import-strategy">
+                <span>{collisions} already exist:</span>
+                {(Object.keys(STRATEGY_LABELS) as CollisionStrategy[]).map(value => (
+                  <label key={value} className="checkbox-label">
+                    <input
+                      type="radio"
+                      name="strategy"
+                      checked={strategy === value}
+                      onChange={() => setStrategy(value)}
+                    />
+                    {STRATEGY_LABELS[value]}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <ul className="import-list">
+              {preview.entries.map((entry, index) => (
+                <li key={`${entry.id}-${index}`} className={entry.exists ? 'exists' : ''}>
+                  <span className="import-title">{entry.title || 'Untitled'}</span>
+                  {entry.notebookName && <span className="import-notebook">{entry.notebookName}</span>}
+                  <span className="import-action">{actionFor(entry.exists, strategy)}</span>
+                </li>
+              ))}
+            </ul>
+
+            {preview.invalid.length > 0 && (
+              <details className="import-invalid">
+                <summary>{preview.invalid.length} could not be read and will be left out</summary>
+                <ul>
+                  {preview.invalid.map((entry, index) => (
+                    <li key={index}>{entry.source}: {entry.reason}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </>
+        )}
+
+        {error && <p className="import-error">{error}</p>}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              className="btn btn-primary"
+              onClick={handleImport}
+              disabled={busy || preview.entries.length === 0}
+            >
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import type { LauncherSettings as Settings } from '../shared/launcher';
+
+interface LauncherSettingsProps {
+  onClose: () => void;
+}
+
+const IS_MAC = navigator.platform.toLowerCase().includes('mac');
+const MODIFIER_KEYS = new Set(['Meta', 'Control', 'Alt', 'Shift']);
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  '+': 'Plus'
+};
+
+/** An Electron accelerator for a key press, or null until it has a modifier and a key. */
+function toAccelerator(event: React.KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const parts: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) parts.push('CommandOrControl');
+  if (IS_MAC && event.ctrlKey) parts.push('Control');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (parts.length === 0 || (parts.length === 1 && parts[0] === 'Shift')) return null;
+  // `code` ignores what Alt or Shift turned the key into
+  const key = /^Key[A-Z]$/.test(event.code) ? event.code.slice(3)
+    : /^Digit\d$/.test(event.code) ? event.code.slice(5)
+      : KEY_NAMES[event.key] ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  return [...parts, key].join('+');
+}
+
+const describeShortcut = (accelerator: string): string =>
+  accelerator.replace('CommandOrControl', IS_MAC ? 'Cmd' : 'Ctrl').split('+').join(' + ');
+
+/** The quick-capture shortcut and whether the app shows in the Dock or taskbar. */
+const LauncherSettings: React.FC<LauncherSettingsProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getLauncherSettings().then(setSettings).catch(error => console.error('Failed to load launcher settings:', error));
+  }, []);
+
+  const save = async (next: Settings) => {
+    setError(null);
+    try {
+      setSettings(await api.setLauncherSettings(next));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal launcher-settings">
+        <h2>Quick Capture</h2>
+        <p>Press the shortcut anywhere to jot down a note, or use the tray icon's menu.</p>
+
+        <label>
+          Shortcut{' '}
+          <input
+            type="text"
+            readOnly
+            className="shortcut-input"
+            value={recording ? 'Press keys…' : settings.captureShortcut ? describeShortcut(settings.captureShortcut) : 'Off'}
+            onFocus={() => setRecording(true)}
+            onBlur={() => setRecording(false)}
+            onKeyDown={(e) => {
+              e.preventDefault();
+              if (e.key === 'Escape') {
+                e.currentTarget.blur();
+                return;
+              }
+              const captureShortcut = toAccelerator(e);
+              if (captureShortcut) {
+                e.currentTarget.blur();
+                save({ ...settings, captureShortcut });
+              }
+            }}
+          />
+        </label>
+        <button
+          className="btn btn-secondary"
+          disabled={!settings.captureShortcut}
+          onClick={() => save({ ...settings, captureShortcut: '' })}
+        >
+          Turn Off Shortcut
+        </button>
+
+        <label className="launcher-dock">
+          <input
+            type="checkbox"
+            checked={settings.showInDock}
+            onChange={(e) => save({ ...settings, showInDock: e.target.checked })}
+          />
+          {IS_MAC ? 'Show in the Dock' : 'Show in the taskbar'}
+        </label>
+
+        {error && <p className="launcher-error">{error}</p>}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LauncherSettings;
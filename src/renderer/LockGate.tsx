@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import LockScreen from './LockScreen';
+import type { LockState } from '../shared/encryption';
+
+interface LockGateProps {
+  compact?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only while notes are unlocked. Locking unmounts them,
+ * so no decrypted note stays in the window; they load afresh on unlock.
+ */
+const LockGate: React.FC<LockGateProps> = ({ compact, children }) => {
+  const [state, setState] = useState<LockState | null>(null);
+
+  useEffect(() => {
+    api.getLockState().then(setState).catch(error => console.error('Failed to load lock state:', error));
+    return onIpcEvent('lock-state', setState);
+  }, []);
+
+  if (!state) {
+    return null;
+  }
+  if (state.locked) {
+    return <LockScreen compact={compact} onUnlocked={setState} />;
+  }
+  return <>{children}</>;
+};
+
+export default LockGate;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { api } from './api';
+import type { LockState } from '../shared/encryption';
+
+interface LockScreenProps {
+  /** The small form shown in floating note windows. */
+  compact?: boolean;
+  onUnlocked: (state: LockState) => void;
+}
+
+/** Asks for the passphrase while notes are locked. */
+const LockScreen: React.FC<LockScreenProps> = ({ compact = false, onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onUnlocked(await api.unlock(passphrase));
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : String(unlockError));
+      setPassphrase('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={`lock-screen ${compact ? 'compact' : ''}`}>
+      {compact && (
+        <div className="note-window-titlebar">
+          <span className="note-window-title">Locked</span>
+          <button className="btn-icon" onClick={() => window.close()} title="Close note">
+            ×
+          </button>
+        </div>
+      )}
+      <form className="lock-form" onSubmit={handleSubmit}>
+        <div className="lock-icon">🔒</div>
+        {!compact && <h2>Notes are locked</h2>}
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus={!compact}
+        />
+        <button type="submit" className="btn btn-primary" disabled={busy || !passphrase}>
+          Unlock
+        </button>
+        {error && <p className="lock-error">{error}</p>}
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { api } from './api';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../shared/markdown';
+import { linkKey } from '../shared/wikiLink';
+
+interface MarkdownProps {
+  content: string;
+  /** Called with the source line of a task checkbox the user clicked. */
+  onToggleTask?: (line: number) => void;
+  /** `[[Title]]` links that lead to no note; shown struck through. */
+  brokenLinks?: string[];
+  className?: string;
+}
+
+const openWikiLink = (event: React.MouseEvent, title: string) => {
+  event.preventDefault();
+  api.openWikiLink(title).catch(error => console.error('Failed to open linked note:', error));
+};
+
+function renderInline(nodes: MarkdownInline[], broken: ReadonlySet<string>): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, broken)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, broken)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children, broken)}</del>;
+      case 'link':
+        // target=_blank routes the click through the window open handler,
+        // which hands the URL to the system browser
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noreferrer">
+            {renderInline(node.children, broken)}
+          </a>
+        );
+      case 'wikiLink':
+        return broken.has(linkKey(node.title)) ? (
+          <span key={index} className="wiki-link broken" title="No note has this title">{node.title}</span>
+        ) : (
+          <a key={index} className="wiki-link" href="#" onClick={(event) => openWikiLink(event, node.title)}>
+            {node.title}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(
+  blocks: MarkdownBlock[],
+  broken: ReadonlySet<string>,
+  onToggleTask?: (line: number) => void
+): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(`h${block.level}`, { key: index }, renderInline(block.children, broken));
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, broken)}</p>;
+      case 'code':
+        return <pre key={index}><code>{block.text}</code></pre>;
+      case 'quote':
+        return <blockquote key={index}>{renderBlocks(block.children, broken, onToggleTask)}</blockquote>;
+      case 'rule':
+        return <hr key={index} />;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li
+            key={itemIndex}
+            className={item.task ? `task-item ${item.task.checked ? 'done' : ''}` : undefined}
+            style={item.depth > 0 ? { marginLeft: `${item.depth * 1.25}em` } : undefined}
+          >
+            {item.task && (
+              <input
+                type="checkbox"
+                checked={item.task.checked}
+                disabled={!onToggleTask}
+                onChange={() => item.task && onToggleTask?.(item.task.line)}
+              />
+            )}
+            {renderInline(item.children, broken)}
+          </li>
+        ));
+        return block.ordered ? <ol key={index}>{items}</ol> : <ul key={index}>{items}</ul>;
+      }
+    }
+  });
+}
+
+/** Renders note content as Markdown; task checkboxes and `[[links]]` stay clickable. */
+const Markdown: React.FC<MarkdownProps> = ({ content, onToggleTask, brokenLinks, className }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const broken = useMemo(() => new Set(brokenLinks?.map(linkKey)), [brokenLinks]);
+  return (
+    <div className={`markdown ${className ?? ''}`}>
+      {renderBlocks(blocks, broken, onToggleTask)}
+    </div>
+  );
+};
+
+export default Markdown;
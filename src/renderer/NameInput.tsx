@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+
+interface NameInputProps {
+  initialValue?: string;
+  placeholder?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+/** An inline text field that submits on Enter or blur and cancels on Escape. */
+const NameInput: React.FC<NameInputProps> = ({ initialValue = '', placeholder, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+
+  const submit = () => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== initialValue) {
+      onSubmit(trimmed);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      className="name-input"
+      autoFocus
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={submit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit();
+        if (e.key === 'Escape') onCancel();
+      }}
+    />
+  );
+};
+
+export default NameInput;
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import AttachmentList from './AttachmentList';
+import Markdown from './Markdown';
+import SaveIndicator from './SaveIndicator';
+import { useAttachmentDrop } from './useAttachmentDrop';
+import { useAutosave } from './useAutosave';
+import { useColorScheme } from './useColorScheme';
+import { useNoteEvents } from './useNoteEvents';
+import { useNoteLinks } from './useNoteLinks';
+import { usePreferences } from './usePreferences';
+import { usePreviewMode } from './usePreviewMode';
+import { toggleTask } from '../shared/markdown';
+import type { StickyNote } from '../shared/note';
+import { noteBackground } from '../shared/palette';
+import { typographyVariables } from '../shared/typography';
+
+interface NoteWindowProps {
+  noteId: string;
+}
+
+const NoteWindow: React.FC<NoteWindowProps> = ({ noteId }) => {
+  const [note, setNote] = useState<StickyNote | null>(null);
+  const autosave = useAutosave(setNote);
+  const [preview, togglePreview] = usePreviewMode(noteId);
+  const drop = useAttachmentDrop(noteId);
+  const links = useNoteLinks(noteId);
+  const { palette } = usePreferences();
+  const scheme = useColorScheme();
+
+  // The main process pushes the note once the window has loaded; fetch it as
+  // well in case the push arrived before this effect subscribed
+  useEffect(() => {
+    const unsubscribe = onIpcEvent('load-note', (loadedNote) => {
+      if (loadedNote.id === noteId) {
+        setNote(loadedNote);
+      }
+    });
+    api.getNote(noteId)
+      .then(loadedNote => {
+        if (loadedNote) {
+          setNote(prev => prev ?? loadedNote);
+        }
+      })
+      .catch(error => console.error('Failed to load note:', error));
+    return unsubscribe;
+  }, [noteId]);
+
+  // Edits made in the manager or elsewhere arrive here; main closes the
+  // window itself when the note is deleted
+  useNoteEvents({
+    onChanged: (changedNote) => {
+      if (changedNote.id !== noteId) return;
+      // Typed content not yet saved wins over changes pushed from main
+      setNote({ ...changedNote, ...autosave.unsaved(noteId) });
+    }
+  });
+
+  const handleContentChange = (content: string) => {
+    if (!note) return;
+    setNote({ ...note, content });
+    autosave.edit(noteId, { content }, note);
+  };
+
+  if (!note) {
+    return <div className="loading">Loading note...</div>;
+  }
+
+  // Grouped notes can be collapsed from any member; more in the context menu
+  const { group } = note;
+
+  return (
+    <div
+      className={`note-window ${drop.dragging ? 'dropping' : ''}`}
+      style={{ backgroundColor: noteBackground(note.color, palette, scheme), ...typographyVariables(note.typography) }}
+      {...drop.handlers}
+    >
+      <div className="note-window-titlebar">
+        {group && (
+          <button
+            className="btn-icon note-window-group"
+            onClick={() => api.setGroupCollapsed(group.id, !group.collapsed)
+              .catch(error => console.error('Failed to collapse group:', error))}
+            title={group.collapsed ? 'Expand group' : 'Collapse group'}
+          >
+            {group.collapsed ? '▸' : '▾'}
+          </button>
+        )}
+        <span className="note-window-title">{note.title || 'Untitled'}</span>
+        <SaveIndicator status={autosave.statuses[noteId]} onRetry={() => autosave.flush(noteId)} />
+        <button
+          className={`btn-icon note-window-mode ${preview ? 'active' : ''}`}
+          onClick={togglePreview}
+          title={preview ? 'Edit' : 'Preview'}
+        >
+          {preview ? '✎' : '👁'}
+        </button>
+        <button
+          className="btn-icon"
+          onClick={() => window.close()}
+          title="Close note"
+        >
+          ×
+        </button>
+      </div>
+      {preview ? (
+        <Markdown
+          content={note.content}
+          brokenLinks={links?.broken}
+          onToggleTask={(line) => handleContentChange(toggleTask(note.content, line))}
+          className="note-window-preview"
+        />
+      ) : (
+        <textarea
+          value={note.content}
+          onChange={(e) => handleContentChange(e.target.value)}
+          placeholder="Start writing..."
+          className="note-window-textarea"
+          autoFocus
+        />
+      )}
+      {note.attachments && <AttachmentList noteId={noteId} attachments={note.attachments} />}
+      {drop.error && <p className="attachment-error">{drop.error}</p>}
+    </div>
+  );
+};
+
+export default NoteWindow;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import NameInput from './NameInput';
+import { DEFAULT_NOTEBOOK_ID, type Notebook } from '../shared/notebook';
+
+interface NotebookSectionProps {
+  notebook: Notebook;
+  notebooks: Notebook[];
+  count: number;
+  collapsed: boolean;
+  onToggle: () => void;
+  onRename: (name: string) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+  onSetWindowsVisible: (visible: boolean) => void;
+  children: React.ReactNode;
+}
+
+const NotebookSection: React.FC<NotebookSectionProps> = ({
+  notebook,
+  notebooks,
+  count,
+  collapsed,
+  onToggle,
+  onRename,
+  onMerge,
+  onDelete,
+  onSetWindowsVisible,
+  children
+}) => {
+  const [renaming, setRenaming] = useState(false);
+  const isDefault = notebook.id === DEFAULT_NOTEBOOK_ID;
+  const mergeTargets = notebooks.filter(n => n.id !== notebook.id);
+
+  return (
+    <section className="notebook-section">
+      <div className="notebook-header" onClick={onToggle}>
+        <span className="notebook-caret">{collapsed ? '▸' : '▾'}</span>
+        {renaming ? (
+          <NameInput
+            initialValue={notebook.name}
+            onSubmit={(name) => {
+              setRenaming(false);
+              onRename(name);
+            }}
+            onCancel={() => setRenaming(false)}
+          />
+        ) : (
+          <span
+            className="notebook-name"
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              setRenaming(true);
+            }}
+            title="Double-click to rename"
+          >
+            {notebook.name}
+          </span>
+        )}
+        <span className="notebook-count">{count}</span>
+        <div className="notebook-actions" onClick={(e) => e.stopPropagation()}>
+          <button className="btn-icon" onClick={() => onSetWindowsVisible(true)} title="Open all windows">
+            🗗
+          </button>
+          <button className="btn-icon" onClick={() => onSetWindowsVisible(false)} title="Hide all windows">
+            ▁
+          </button>
+          {!isDefault && mergeTargets.length > 0 && (
+            <select
+              className="notebook-merge"
+              value=""
+              onChange={(e) => e.target.value && onMerge(e.target.value)}
+              title="Merge into another notebook"
+            >
+              <option value="">Merge…</option>
+              {mergeTargets.map(target => (
+                <option key={target.id} value={target.id}>{target.name}</option>
+              ))}
+            </select>
+          )}
+          {!isDefault && (
+            <button className="btn-icon delete-btn" onClick={onDelete} title="Delete notebook">
+              ×
+            </button>
+          )}
+        </div>
+      </div>
+      {!collapsed && children}
+    </section>
+  );
+};
+
+export default NotebookSection;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import { darkVariant, DEFAULT_PALETTE, MAX_PALETTE_COLORS, type PaletteColor } from '../shared/palette';
+
+interface PaletteEditorProps {
+  palette: PaletteColor[];
+  onChange: (palette: PaletteColor[]) => void;
+  onError: (message: string) => void;
+}
+
+/** A name not used in `palette` yet, for a color just added. */
+const newColorName = (palette: PaletteColor[]): string => {
+  const names = new Set(palette.map(color => color.name.toLowerCase()));
+  let index = palette.length + 1;
+  while (names.has(`color ${index}`)) index++;
+  return `Color ${index}`;
+};
+
+/**
+ * Add, rename, recolor, reorder and delete the palette's colors, and trade
+ * palettes as files. Like the rest of the preferences, names and colors are
+ * saved once their field is left.
+ */
+const PaletteEditor: React.FC<PaletteEditorProps> = ({ palette, onChange, onError }) => {
+  const [draft, setDraft] = useState(palette);
+
+  useEffect(() => setDraft(palette), [palette]);
+
+  const edit = (index: number, change: Partial<PaletteColor>) =>
+    setDraft(draft.map((color, i) => i === index ? { ...color, ...change } : color));
+
+  const commit = () => {
+    if (JSON.stringify(draft) !== JSON.stringify(palette)) {
+      onChange(draft);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...palette];
+    const [color] = next.splice(index, 1);
+    next.splice(index + offset, 0, color);
+    onChange(next);
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await api.importPalette();
+      if (imported) onChange(imported);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await api.exportPalette();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="palette-editor">
+      <ul className="palette-list">
+        {draft.map((color, index) => (
+          <li key={index} className="palette-item">
+            <input
+              type="color"
+              value={color.value}
+              // A new color gets a new dark variant unless one is picked again
+              onChange={(e) => edit(index, { value: e.target.value, dark: undefined })}
+              onBlur={commit}
+              title="Color"
+            />
+            <input
+              type="color"
+              value={color.dark ?? darkVariant(color.value)}
+              onChange={(e) => edit(index, { dark: e.target.value })}
+              onBlur={commit}
+              title="Color in dark mode"
+            />
+            <input
+              type="text"
+              className="palette-name"
+              value={color.name}
+              maxLength={40}
+              onChange={(e) => edit(index, { name: e.target.value })}
+              onBlur={commit}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            />
+            <button className="btn-icon" onClick={() => move(index, -1)} disabled={index === 0} title="Move up">↑</button>
+            <button
+              className="btn-icon"
+              onClick={() => move(index, 1)}
+              disabled={index === draft.length - 1}
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              className="btn-icon"
+              onClick={() => onChange(palette.filter((_, i) => i !== index))}
+              disabled={draft.length === 1}
+              title="Delete color"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="palette-actions">
+        <button
+          className="btn btn-secondary"
+          onClick={() => onChange([...palette, { name: newColorName(palette), value: '#dddddd' }])}
+          disabled={palette.length >= MAX_PALETTE_COLORS}
+        >
+          Add Color
+        </button>
+        <button className="btn btn-secondary" onClick={handleImport}>Import…</button>
+        <button className="btn btn-secondary" onClick={handleExport}>Export…</button>
+        <button className="btn btn-secondary" onClick={() => onChange(DEFAULT_PALETTE)}>Reset</button>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditor;
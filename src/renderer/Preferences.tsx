@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import PaletteEditor from './PaletteEditor';
+import { usePreferences } from './usePreferences';
+import type { PaletteColor } from '../shared/palette';
+import { THEMES, type Preferences as PreferenceValues, type Theme } from '../shared/preferences';
+import { FONT_FAMILIES, type FontFamily } from '../shared/typography';
+
+type NumberField = 'defaultWidth' | 'defaultHeight' | 'autosaveDelayMs' | 'fontSize';
+
+const THEME_LABELS: Record<Theme, string> = {
+  system: 'Match System',
+  light: 'Light',
+  dark: 'Dark'
+};
+
+/**
+ * The Preferences window. Changes apply as they are made; numbers once the
+ * field is left, so a value is not rejected halfway through typing it.
+ */
+const Preferences: React.FC = () => {
+  const preferences = usePreferences();
+  const [draft, setDraft] = useState<PreferenceValues>(preferences);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.title = 'Preferences';
+  }, []);
+
+  useEffect(() => setDraft(preferences), [preferences]);
+
+  const save = async (next: PreferenceValues) => {
+    setDraft(next);
+    setError(null);
+    try {
+      await api.setPreferences(next);
+    } catch (saveError) {
+      setDraft(preferences);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  // New notes keep their color only while the palette still has it
+  const savePalette = (palette: PaletteColor[]) => save({
+    ...draft,
+    palette,
+    defaultColor: palette.some(color => color.value === draft.defaultColor) ? draft.defaultColor : palette[0].value
+  });
+
+  const numberInput = (field: NumberField, min: number, max: number, step: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft[field]}
+      onChange={(e) => setDraft({ ...draft, [field]: e.target.valueAsNumber })}
+      onBlur={() => draft[field] !== preferences[field] && save(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+    />
+  );
+
+  return (
+    <div className="preferences">
+      <h2>New Notes</h2>
+      <div className="preferences-row">
+        <span>Color</span>
+        <div className="color-options">
+          {draft.palette.map(color => (
+            <button
+              key={color.name}
+              className={`color-option ${draft.defaultColor === color.value ? 'selected' : ''}`}
+              style={{ backgroundColor: color.value }}
+              onClick={() => save({ ...draft, defaultColor: color.value })}
+              title={color.name}
+            />
+          ))}
+        </div>
+      </div>
+      <label className="preferences-row">
+        <span>Size</span>
+        {numberInput('defaultWidth', 200, 2000, 10)} × {numberInput('defaultHeight', 100, 2000, 10)} px
+      </label>
+      <label className="preferences-row">
+        <input
+          type="checkbox"
+          checked={draft.startOnTop}
+          onChange={(e) => save({ ...draft, startOnTop: e.target.checked })}
+        />
+        Keep new notes on top of other windows
+      </label>
+
+      <h2>Note Text</h2>
+      <label className="preferences-row">
+        <span>Font</span>
+        <select
+          value={draft.fontFamily}
+          onChange={(e) => save({ ...draft, fontFamily: e.target.value as FontFamily })}
+        >
+          {(Object.keys(FONT_FAMILIES) as FontFamily[]).map(family => (
+            <option key={family} value={family}>{FONT_FAMILIES[family].label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="preferences-row">
+        <span>Size</span>
+        {numberInput('fontSize', 9, 36, 1)} px
+      </label>
+
+      <h2>Appearance</h2>
+      <label className="preferences-row">
+        <span>Theme</span>
+        <select value={draft.theme} onChange={(e) => save({ ...draft, theme: e.target.value as Theme })}>
+          {THEMES.map(theme => (
+            <option key={theme} value={theme}>{THEME_LABELS[theme]}</option>
+          ))}
+        </select>
+      </label>
+
+      <h2>Palette</h2>
+      <PaletteEditor palette={draft.palette} onChange={savePalette} onError={setError} />
+
+      <h2>General</h2>
+      <label className="preferences-row">
+        <span>Save after</span>
+        {numberInput('autosaveDelayMs', 100, 10_000, 100)} ms without typing
+      </label>
+      <label className="preferences-row">
+        <input
+          type="checkbox"
+          checked={draft.launchAtLogin}
+          onChange={(e) => save({ ...draft, launchAtLogin: e.target.checked })}
+        />
+        Open Sticky Notes at login
+      </label>
+
+      {error && <p className="preferences-error">{error}</p>}
+    </div>
+  );
+};
+
+export default Preferences;
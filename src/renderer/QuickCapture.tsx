@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { api } from './api';
+import { useColorScheme } from './useColorScheme';
+import { usePreferences } from './usePreferences';
+import { draftFromText } from '../shared/note';
+import { noteBackground } from '../shared/palette';
+
+/**
+ * The quick-capture window: Enter saves the text as a new note and closes,
+ * Shift+Enter starts a new line and Escape closes without saving. The first
+ * line becomes the title.
+ */
+const QuickCapture: React.FC = () => {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { defaultColor, palette } = usePreferences();
+  const scheme = useColorScheme();
+
+  const save = async () => {
+    if (!text.trim()) {
+      window.close();
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await api.createNote(draftFromText(text));
+      window.close();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Show the capture in the color the note will have
+    <div className="quick-capture" style={{ backgroundColor: noteBackground(defaultColor, palette, scheme) }}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            save();
+          }
+          if (e.key === 'Escape') window.close();
+        }}
+        placeholder="Jot something down…"
+        disabled={saving}
+        autoFocus
+      />
+      <p className={error ? 'quick-capture-error' : 'quick-capture-hint'}>
+        {error ?? 'Enter to save · Shift+Enter for a new line · Esc to cancel'}
+      </p>
+    </div>
+  );
+};
+
+export default QuickCapture;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { api } from './api';
+import type { StickyNote, UnsavedEdits } from '../shared/note';
+
+interface RecoveryDialogProps {
+  edits: UnsavedEdits[];
+  notes: StickyNote[];
+  onRecovered: (note: StickyNote) => void;
+  /** Called with the note whose edits were restored or discarded. */
+  onResolved: (noteId: string) => void;
+  onClose: () => void;
+}
+
+const describe = (edits: UnsavedEdits): string => {
+  const { title, content } = edits.patch;
+  const text = content ?? title ?? '';
+  return text ? text.slice(0, 120) : 'Color or settings only';
+};
+
+/** Offers back edits that were not saved when the app last stopped. */
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ edits, notes, onRecovered, onResolved, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const resolve = async (noteId: string, restore: boolean) => {
+    setError(null);
+    try {
+      if (restore) {
+        onRecovered(await api.recoverEdits(noteId));
+      } else {
+        await api.discardEdits(noteId);
+      }
+      onResolved(noteId);
+    } catch (resolveError) {
+      setError(resolveError instanceof Error ? resolveError.message : String(resolveError));
+    }
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal recovery-dialog">
+        <h2>Unsaved edits</h2>
+        <p>
+          Sticky Notes stopped before these edits were saved. Restore them to put
+          them back into the notes, or discard them.
+        </p>
+
+        <ul className="recovery-list">
+          {edits.map(entry => {
+            const note = notes.find(n => n.id === entry.noteId);
+            return (
+              <li key={entry.noteId}>
+                <div className="recovery-details">
+                  <span className="recovery-title">{entry.patch.title ?? note?.title ?? 'Untitled'}</span>
+                  <span className="recovery-time">{new Date(entry.editedAt).toLocaleString()}</span>
+                  <span className="recovery-preview">{describe(entry)}</span>
+                </div>
+                <button className="btn btn-secondary" onClick={() => resolve(entry.noteId, false)}>Discard</button>
+                <button className="btn btn-primary" onClick={() => resolve(entry.noteId, true)}>Restore</button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {error && <p className="import-error">{error}</p>}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>Decide Later</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryDialog;
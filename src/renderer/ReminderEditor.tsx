@@ -0,0 +1,92 @@
+import React from 'react';
+import { api } from './api';
+import type { StickyNote } from '../shared/note';
+import { isReminderPending, RECURRENCES, type Recurrence } from '../shared/reminder';
+
+const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: 'Once',
+  daily: 'Every day',
+  weekdays: 'Weekdays',
+  weekly: 'Every week'
+};
+
+interface ReminderEditorProps {
+  note: StickyNote;
+  onChange: (note: StickyNote) => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// <input type="date"> and "datetime-local" work in local time without a zone
+const toLocalDate = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const toLocalDateTime = (iso: string): string => {
+  const date = new Date(iso);
+  return `${toLocalDate(iso)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Due date and reminder controls for the manager editor. */
+const ReminderEditor: React.FC<ReminderEditorProps> = ({ note, onChange }) => {
+  const handleDueDate = async (value: string) => {
+    try {
+      onChange(await api.setDueDate(note.id, value ? new Date(`${value}T23:59:59`).toISOString() : null));
+    } catch (error) {
+      console.error('Failed to set due date:', error);
+    }
+  };
+
+  const handleReminder = async (at: string | null, recurrence: Recurrence) => {
+    try {
+      onChange(await api.setReminder(note.id, at ? { at, recurrence } : null));
+    } catch (error) {
+      console.error('Failed to set reminder:', error);
+    }
+  };
+
+  const reminder = note.reminder;
+  const recurrence = reminder?.recurrence ?? 'none';
+
+  return (
+    <div className="reminder-editor">
+      <label className="reminder-field">
+        Due
+        <input
+          type="date"
+          value={note.dueAt ? toLocalDate(note.dueAt) : ''}
+          onChange={(e) => handleDueDate(e.target.value)}
+        />
+      </label>
+
+      <label className="reminder-field">
+        Remind me
+        <input
+          type="datetime-local"
+          value={reminder ? toLocalDateTime(reminder.at) : ''}
+          onChange={(e) => handleReminder(e.target.value ? new Date(e.target.value).toISOString() : null, recurrence)}
+        />
+      </label>
+
+      {reminder && (
+        <>
+          <select
+            value={recurrence}
+            onChange={(e) => handleReminder(reminder.at, e.target.value as Recurrence)}
+          >
+            {RECURRENCES.map(value => (
+              <option key={value} value={value}>{RECURRENCE_LABELS[value]}</option>
+            ))}
+          </select>
+          {!isReminderPending(reminder) && <span className="reminder-done">Done</span>}
+          <button className="btn-icon" onClick={() => handleReminder(null, recurrence)} title="Remove reminder">
+            ×
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReminderEditor;
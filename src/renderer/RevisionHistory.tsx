@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { api } from './api';
+import { diffLines } from './diff';
+import type { NoteRevision, StickyNote } from '../shared/note';
+
+interface RevisionHistoryProps {
+  note: StickyNote;
+  onRestore: (note: StickyNote) => void;
+  onClose: () => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ note, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.listRevisions(note.id)
+      .then(loaded => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch(error => console.error('Failed to load history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [note.id]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? null;
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, note.content) : []),
+    [selected, note.content]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      onRestore(await api.restoreRevision(note.id, selected.id));
+      setSelectedId(null);
+      setRevisions(await api.listRevisions(note.id));
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+    }
+  };
+
+  return (
+    <div className="revision-history">
+      <div className="revision-history-header">
+        <h3>History</h3>
+        <button className="btn-icon" onClick={onClose} title="Close history">×</button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="no-notes">No earlier versions yet.</p>
+      ) : (
+        <ul className="revision-list">
+          {revisions.map(revision => (
+            <li
+              key={revision.id}
+              className={`revision-item ${revision.id === selectedId ? 'selected' : ''}`}
+              onClick={() => setSelectedId(revision.id)}
+            >
+              <span className="revision-date">{new Date(revision.savedAt).toLocaleString()}</span>
+              <span className="revision-title">{revision.title || 'Untitled'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="revision-diff">
+          {selected.title !== note.title && (
+            <div className="diff-title">
+              <div className="diff-line removed">- {selected.title || 'Untitled'}</div>
+              <div className="diff-line added">+ {note.title || 'Untitled'}</div>
+            </div>
+          )}
+          <pre className="diff-body">
+            {diff.map((line, index) => (
+              <div key={index} className={`diff-line ${line.type}`}>
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+          <button className="btn btn-primary" onClick={handleRestore}>
+            Restore this version
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
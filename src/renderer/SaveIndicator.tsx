@@ -0,0 +1,30 @@
+import React from 'react';
+import type { SaveStatus } from './useAutosave';
+
+interface SaveIndicatorProps {
+  status?: SaveStatus;
+  onRetry: () => void;
+}
+
+const LABELS: Record<SaveStatus, string> = {
+  dirty: 'Edited',
+  saving: 'Saving…',
+  saved: 'Saved',
+  error: 'Not saved'
+};
+
+/** Save state of the note being edited; a failed save can be retried from here. */
+const SaveIndicator: React.FC<SaveIndicatorProps> = ({ status, onRetry }) => {
+  if (!status) return null;
+
+  return (
+    <span className={`save-status ${status}`} role="status">
+      {LABELS[status]}
+      {status === 'error' && (
+        <button className="save-retry" onClick={onRetry}>Retry</button>
+      )}
+    </span>
+  );
+};
+
+export default SaveIndicator;
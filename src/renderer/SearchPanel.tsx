@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { isSearchQueryActive, type SearchQuery } from '../shared/search';
+
+interface SearchPanelProps {
+  query: SearchQuery;
+  colors: { name: string; value: string }[];
+  onChange: (query: SearchQuery) => void;
+}
+
+// <input type="date"> works in local calendar days; the query needs instants
+const startOfDay = (day: string): string | undefined =>
+  day ? new Date(`${day}T00:00:00`).toISOString() : undefined;
+
+const endOfDay = (day: string): string | undefined =>
+  day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined;
+
+const toDay = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ query, colors, onChange }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const { text, ...filters } = query;
+
+  const toggleColor = (color: string) => {
+    const selected = query.colors ?? [];
+    onChange({
+      ...query,
+      colors: selected.includes(color) ? selected.filter(c => c !== color) : [...selected, color]
+    });
+  };
+
+  return (
+    <div className="search-panel">
+      <div className="search-row">
+        <input
+          type="search"
+          value={text ?? ''}
+          onChange={(e) => onChange({ ...query, text: e.target.value })}
+          placeholder="Search notes"
+          className="search-input"
+        />
+        <button
+          className={`btn-icon ${showFilters || isSearchQueryActive(filters) ? 'active' : ''}`}
+          onClick={() => setShowFilters(prev => !prev)}
+          title="Filters"
+        >
+          ⚙︎
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="search-filters">
+          <div className="filter-row">
+            <span className="filter-label">Color</span>
+            <div className="color-options">
+              {colors.map(color => (
+                <button
+                  key={color.value}
+                  className={`color-option ${query.colors?.includes(color.value) ? 'selected' : ''}`}
+                  style={{ backgroundColor: color.value }}
+                  onClick={() => toggleColor(color.value)}
+                  title={color.name}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-row">
+            <span className="filter-label">Created</span>
+            <input
+              type="date"
+              value={toDay(query.createdFrom)}
+              onChange={(e) => onChange({ ...query, createdFrom: startOfDay(e.target.value) })}
+            />
+            <input
+              type="date"
+              value={toDay(query.createdTo)}
+              onChange={(e) => onChange({ ...query, createdTo: endOfDay(e.target.value) })}
+            />
+          </div>
+
+          <div className="filter-row">
+            <span className="filter-label">Updated</span>
+            <input
+              type="date"
+              value={toDay(query.updatedFrom)}
+              onChange={(e) => onChange({ ...query, updatedFrom: startOfDay(e.target.value) })}
+            />
+            <input
+              type="date"
+              value={toDay(query.updatedTo)}
+              onChange={(e) => onChange({ ...query, updatedTo: endOfDay(e.target.value) })}
+            />
+          </div>
+
+          <div className="filter-row">
+            <span className="filter-label">On top</span>
+            <select
+              value={query.alwaysOnTop === undefined ? 'any' : String(query.alwaysOnTop)}
+              onChange={(e) => onChange({
+                ...query,
+                alwaysOnTop: e.target.value === 'any' ? undefined : e.target.value === 'true'
+              })}
+            >
+              <option value="any">Any</option>
+              <option value="true">Always on top</option>
+              <option value="false">Not on top</option>
+            </select>
+          </div>
+
+          <button className="btn btn-secondary" onClick={() => onChange({ text })}>
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
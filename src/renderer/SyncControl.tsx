@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import type { SyncStatus } from '../shared/sync';
+
+interface SyncControlProps {
+  /** Called when a sync pass changed notes, so the list can be reloaded. */
+  onNotesChanged: () => Promise<void>;
+}
+
+const describe = (status: SyncStatus): string => {
+  if (status.lastError) return 'Sync failed';
+  if (!status.lastSyncAt) return 'Syncing…';
+  return `Synced ${new Date(status.lastSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/** Sidebar footer controls for folder sync. */
+const SyncControl: React.FC<SyncControlProps> = ({ onNotesChanged }) => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    api.getSyncStatus().then(setStatus).catch(error => console.error('Failed to load sync status:', error));
+    return onIpcEvent('sync-status', (next, changed) => {
+      setStatus(next);
+      if (changed) {
+        onNotesChanged().catch(error => console.error('Failed to reload synced notes:', error));
+      }
+    });
+  }, [onNotesChanged]);
+
+  const run = async (action: () => Promise<SyncStatus>) => {
+    try {
+      setStatus(await action());
+    } catch (error) {
+      console.error('Failed to update sync:', error);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  if (!status.directory) {
+    return (
+      <button className="btn btn-secondary" onClick={() => run(api.chooseSyncFolder)}>
+        Sync…
+      </button>
+    );
+  }
+
+  const details = [
+    status.directory,
+    `This machine: ${status.deviceName}`,
+    status.lastError,
+    status.conflicts > 0 ? `${status.conflicts} conflict cop${status.conflicts === 1 ? 'y' : 'ies'} made` : undefined
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className="sync-control" title={details}>
+      <span className={`sync-state ${status.lastError ? 'failed' : ''}`}>{describe(status)}</span>
+      <button className="btn btn-secondary" onClick={() => run(api.syncNow)}>
+        Sync Now
+      </button>
+      <button
+        className="btn btn-secondary"
+        onClick={() => window.confirm('Stop syncing? Notes already synced stay on every machine.') && run(api.stopSync)}
+      >
+        Stop
+      </button>
+    </div>
+  );
+};
+
+export default SyncControl;
@@ -0,0 +1,54 @@
+import React, { useMemo, useState } from 'react';
+import NameInput from './NameInput';
+import { noteTags } from '../shared/notebook';
+import type { StickyNote } from '../shared/note';
+
+interface TagBarProps {
+  notes: StickyNote[];
+  selectedTag: string | null;
+  onSelect: (tag: string | null) => void;
+  onRename: (from: string, to: string) => void;
+}
+
+/** Tag chips for filtering the sidebar; double-click one to rename or merge it. */
+const TagBar: React.FC<TagBarProps> = ({ notes, selectedTag, onSelect, onRename }) => {
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const tags = useMemo(() => {
+    const counts = new Map<string, number>();
+    notes.forEach(note => noteTags(note).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts].sort(([a], [b]) => a.localeCompare(b));
+  }, [notes]);
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="tag-bar">
+      {tags.map(([tag, count]) => renaming === tag ? (
+        <NameInput
+          key={tag}
+          initialValue={tag}
+          onSubmit={(to) => {
+            setRenaming(null);
+            onRename(tag, to);
+          }}
+          onCancel={() => setRenaming(null)}
+        />
+      ) : (
+        <button
+          key={tag}
+          className={`tag-chip ${selectedTag === tag ? 'selected' : ''}`}
+          onClick={() => onSelect(selectedTag === tag ? null : tag)}
+          onDoubleClick={() => setRenaming(tag)}
+          title="Double-click to rename; renaming onto an existing tag merges them"
+        >
+          #{tag} <span className="tag-count">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagBar;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { inlineTags, normalizeTag } from '../shared/notebook';
+import type { StickyNote } from '../shared/note';
+
+interface TagEditorProps {
+  note: StickyNote;
+  onChange: (tags: string[]) => void;
+}
+
+/** Explicit tags can be added and removed; inline `#tags` are shown read-only. */
+const TagEditor: React.FC<TagEditorProps> = ({ note, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const inline = inlineTags(note.content).filter(tag => !note.tags.includes(tag));
+
+  const addTag = () => {
+    const tag = normalizeTag(draft);
+    setDraft('');
+    if (tag && !note.tags.includes(tag)) {
+      onChange([...note.tags, tag]);
+    }
+  };
+
+  return (
+    <div className="tag-editor">
+      {note.tags.map(tag => (
+        <span key={tag} className="tag-chip">
+          #{tag}
+          <button
+            className="btn-icon"
+            onClick={() => onChange(note.tags.filter(t => t !== tag))}
+            title={`Remove #${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {inline.map(tag => (
+        <span key={tag} className="tag-chip inline" title="Written in the note">#{tag}</span>
+      ))}
+      <input
+        type="text"
+        className="tag-input"
+        value={draft}
+        placeholder="Add tag"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={addTag}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag();
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import NameInput from './NameInput';
+import type { StickyNote } from '../shared/note';
+import type { NoteTemplate } from '../shared/template';
+
+interface TemplateMenuProps {
+  /** The note "Save as Template" saves; the item is hidden without one. */
+  selectedNote: StickyNote | null;
+  /** Saves the selected note's pending edits, so the template has them. */
+  flushNote: (noteId: string) => Promise<void>;
+  onCreate: (templateId: string) => void;
+}
+
+type Naming = { action: 'save' } | { action: 'rename'; template: NoteTemplate } | null;
+
+/**
+ * The dropdown next to "+ New Note": new notes from a template, saving the
+ * selected note as one, and renaming or deleting saved templates.
+ */
+const TemplateMenu: React.FC<TemplateMenuProps> = ({ selectedNote, flushNote, onCreate }) => {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [open, setOpen] = useState(false);
+  const [naming, setNaming] = useState<Naming>(null);
+  const menu = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    api.listTemplates().then(setTemplates).catch(error => console.error('Failed to load templates:', error));
+    return onIpcEvent('templates-changed', setTemplates);
+  }, []);
+
+  // Clicking anywhere else closes the dropdown
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menu.current?.contains(event.target as Node)) {
+        setOpen(false);
+        setNaming(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleName = (name: string) => {
+    const current = naming;
+    setNaming(null);
+    if (current?.action === 'rename') {
+      run(() => api.renameTemplate(current.template.id, name));
+    } else if (selectedNote) {
+      run(async () => {
+        await flushNote(selectedNote.id);
+        await api.saveTemplate(selectedNote.id, name);
+      });
+    }
+  };
+
+  return (
+    <div className="template-menu" ref={menu}>
+      <button
+        className={`btn btn-primary template-toggle ${open ? 'active' : ''}`}
+        onClick={() => setOpen(prev => !prev)}
+        title="New note from a template"
+      >
+        ▾
+      </button>
+      {open && (
+        <div className="template-dropdown">
+          <ul className="template-list">
+            {templates.map(template => (
+              <li key={template.id} className="template-item">
+                {naming?.action === 'rename' && naming.template.id === template.id ? (
+                  <NameInput
+                    initialValue={template.name}
+                    placeholder="Template name"
+                    onSubmit={handleName}
+                    onCancel={() => setNaming(null)}
+                  />
+                ) : (
+                  <>
+                    <button
+                      className="template-name"
+                      onClick={() => {
+                        setOpen(false);
+                        onCreate(template.id);
+                      }}
+                    >
+                      {template.name}
+                    </button>
+                    {!template.builtIn && (
+                      <>
+                        <button
+                          className="btn-icon"
+                          onClick={() => setNaming({ action: 'rename', template })}
+                          title="Rename template"
+                        >
+                          ✎
+                        </button>
+                        <button
+                          className="btn-icon"
+                          onClick={() => window.confirm(`Delete the template "${template.name}"? Notes made from it are kept.`)
+                            && run(() => api.deleteTemplate(template.id))}
+                          title="Delete template"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          {naming?.action === 'save' ? (
+            <NameInput
+              placeholder={selectedNote?.title || 'Template name'}
+              onSubmit={handleName}
+              onCancel={() => setNaming(null)}
+            />
+          ) : selectedNote && (
+            <button className="template-save" onClick={() => setNaming({ action: 'save' })}>
+              Save Note as Template…
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateMenu;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import type { StickyNote } from '../shared/note';
+import type { TrashSettings } from '../shared/trash';
+
+const RETENTION_OPTIONS = [
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+  { label: 'Forever', value: 0 }
+];
+
+interface TrashViewProps {
+  onRestore: (note: StickyNote) => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ onRestore }) => {
+  const [trashed, setTrashed] = useState<StickyNote[]>([]);
+  const [settings, setSettings] = useState<TrashSettings | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.listTrash(), api.getTrashSettings()])
+      .then(([notes, loadedSettings]) => {
+        setTrashed(notes);
+        setSettings(loadedSettings);
+      })
+      .catch(error => console.error('Failed to load trash:', error));
+  }, []);
+
+  const handleRestore = async (noteId: string) => {
+    try {
+      const note = await api.restoreNote(noteId);
+      setTrashed(prev => prev.filter(n => n.id !== noteId));
+      onRestore(note);
+    } catch (error) {
+      console.error('Failed to restore note:', error);
+    }
+  };
+
+  const handlePurge = async (note: StickyNote) => {
+    if (!window.confirm(`Delete "${note.title || 'Untitled'}" forever? This cannot be undone.`)) return;
+    try {
+      await api.purgeNote(note.id);
+      setTrashed(prev => prev.filter(n => n.id !== note.id));
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm(`Delete all ${trashed.length} notes in the Trash forever?`)) return;
+    try {
+      await api.emptyTrash();
+      setTrashed([]);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+    }
+  };
+
+  const handleRetentionChange = async (retentionDays: number) => {
+    try {
+      setSettings(await api.setTrashSettings({ retentionDays }));
+      setTrashed(await api.listTrash());
+    } catch (error) {
+      console.error('Failed to update trash settings:', error);
+    }
+  };
+
+  return (
+    <div className="trash-view">
+      <div className="trash-header">
+        <h2>Trash</h2>
+        {settings && (
+          <label className="trash-retention">
+            Delete notes after
+            <select
+              value={settings.retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            >
+              {RETENTION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button className="btn btn-secondary" onClick={handleEmpty} disabled={trashed.length === 0}>
+          Empty Trash
+        </button>
+      </div>
+
+      {trashed.length === 0 ? (
+        <p className="no-notes">The Trash is empty.</p>
+      ) : (
+        <ul className="trash-list">
+          {trashed.map(note => (
+            <li key={note.id} className="trash-item" style={{ borderLeft: `4px solid ${note.color}` }}>
+              <div className="trash-item-text">
+                <h3 className="note-title">{note.title || 'Untitled'}</h3>
+                <p className="note-preview">
+                  Deleted {new Date(note.deletedAt as string).toLocaleString()}
+                </p>
+              </div>
+              <button className="btn btn-secondary" onClick={() => handleRestore(note.id)}>
+                Restore
+              </button>
+              <button className="btn-icon delete-btn" onClick={() => handlePurge(note)} title="Delete forever">
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { api } from './api';
+import type { StickyNote } from '../shared/note';
+import {
+  FONT_FAMILIES,
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  TEXT_ALIGNMENTS,
+  type FontFamily,
+  type NoteTypography,
+  type TextAlign
+} from '../shared/typography';
+
+const ALIGNMENT_LABELS: Record<TextAlign, string> = {
+  left: 'Left',
+  center: 'Center',
+  right: 'Right'
+};
+
+interface TypographyEditorProps {
+  note: StickyNote;
+  /** The preferences' size, shown while the note has none of its own. */
+  defaultFontSize: number;
+  onChange: (note: StickyNote) => void;
+}
+
+/** Font, size and alignment of one note's text, for the manager editor. */
+const TypographyEditor: React.FC<TypographyEditorProps> = ({ note, defaultFontSize, onChange }) => {
+  const typography = note.typography ?? {};
+  const [size, setSize] = useState(typography.fontSize?.toString() ?? '');
+
+  useEffect(() => setSize(note.typography?.fontSize?.toString() ?? ''), [note.typography?.fontSize]);
+
+  const handleChange = async (next: NoteTypography) => {
+    try {
+      onChange(await api.setNoteTypography(note.id, next));
+    } catch (error) {
+      console.error('Failed to set text style:', error);
+    }
+  };
+
+  // An empty field goes back to the preferences' size; one out of range is clamped
+  const commitSize = () => {
+    const value = Number.parseInt(size, 10);
+    const fontSize = Number.isNaN(value) ? undefined : Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, value));
+    setSize(fontSize?.toString() ?? '');
+    if (fontSize !== typography.fontSize) {
+      handleChange({ ...typography, fontSize });
+    }
+  };
+
+  return (
+    <div className="typography-editor">
+      <select
+        value={typography.fontFamily ?? ''}
+        onChange={(e) => handleChange({ ...typography, fontFamily: (e.target.value || undefined) as FontFamily | undefined })}
+        title="Font"
+      >
+        <option value="">Default font</option>
+        {(Object.keys(FONT_FAMILIES) as FontFamily[]).map(family => (
+          <option key={family} value={family}>{FONT_FAMILIES[family].label}</option>
+        ))}
+      </select>
+
+      <label className="typography-size">
+        <input
+          type="number"
+          min={MIN_FONT_SIZE}
+          max={MAX_FONT_SIZE}
+          value={size}
+          placeholder={String(defaultFontSize)}
+          onChange={(e) => setSize(e.target.value)}
+          onBlur={commitSize}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        />
+        px
+      </label>
+
+      <div className="typography-align">
+        {TEXT_ALIGNMENTS.map(textAlign => (
+          <button
+            key={textAlign}
+            className={`btn-icon ${(typography.textAlign ?? 'left') === textAlign ? 'active' : ''}`}
+            onClick={() => handleChange({ ...typography, textAlign: textAlign === 'left' ? undefined : textAlign })}
+            title={`Align text ${textAlign}`}
+          >
+            {ALIGNMENT_LABELS[textAlign]}
+          </button>
+        ))}
+      </div>
+
+      {note.typography && (
+        <button className="btn-icon" onClick={() => handleChange({})} title="Use the default text style">
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TypographyEditor;
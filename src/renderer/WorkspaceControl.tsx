@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import NameInput from './NameInput';
+import type { WorkspaceList } from '../shared/workspace';
+
+type Naming = 'create' | 'rename' | null;
+
+/** Sidebar footer controls for switching, saving and naming workspaces. */
+const WorkspaceControl: React.FC = () => {
+  const [list, setList] = useState<WorkspaceList | null>(null);
+  const [naming, setNaming] = useState<Naming>(null);
+
+  useEffect(() => {
+    api.listWorkspaces().then(setList).catch(error => console.error('Failed to load workspaces:', error));
+    return onIpcEvent('workspaces-changed', setList);
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!list) {
+    return null;
+  }
+
+  const active = list.workspaces.find(workspace => workspace.id === list.activeId);
+
+  if (naming) {
+    return (
+      <NameInput
+        initialValue={naming === 'rename' ? active?.name : undefined}
+        placeholder="Workspace name"
+        onSubmit={(name) => {
+          setNaming(null);
+          run(() => naming === 'rename' && active ? api.renameWorkspace(active.id, name) : api.createWorkspace(name));
+        }}
+        onCancel={() => setNaming(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="workspace-control">
+      <select
+        value={list.activeId ?? ''}
+        onChange={(e) => e.target.value && run(() => api.switchWorkspace(e.target.value))}
+        title="Switch workspace"
+      >
+        {!active && <option value="">No workspace</option>}
+        {list.workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name} ({workspace.windows.length})
+          </option>
+        ))}
+      </select>
+      {active && (
+        <>
+          <button
+            className="btn btn-secondary"
+            onClick={() => run(() => api.saveWorkspace(active.id))}
+            title="Remember the open note windows and where they are"
+          >
+            Save
+          </button>
+          <button className="btn btn-secondary" onClick={() => setNaming('rename')}>
+            Rename
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => window.confirm(`Delete the workspace "${active.name}"? Its notes are kept.`)
+              && run(() => api.deleteWorkspace(active.id))}
+          >
+            Delete
+          </button>
+        </>
+      )}
+      <button
+        className="btn btn-secondary"
+        onClick={() => setNaming('create')}
+        title="Save the open note windows as a new workspace"
+      >
+        + Workspace
+      </button>
+    </div>
+  );
+};
+
+export default WorkspaceControl;
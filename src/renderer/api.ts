@@ -0,0 +1,15 @@
+import { createIpcClient, type ElectronBridge } from '../shared/ipc';
+
+declare global {
+  interface Window {
+    electronAPI: ElectronBridge;
+  }
+}
+
+export { IpcError } from '../shared/ipc';
+
+/** Typed client for the main process; rejects with IpcError on failure. */
+export const api = createIpcClient(window.electronAPI);
+
+export const onIpcEvent: ElectronBridge['on'] = (event, callback) =>
+  window.electronAPI.on(event, callback);
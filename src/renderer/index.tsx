@@ -1,7 +1,32 @@
-import React from 'react';
 import { createRoot } from 'react-dom/client';
+import { api, onIpcEvent } from './api';
 import App from './App';
+import LockGate from './LockGate';
+import NoteWindow from './NoteWindow';
+import Preferences from './Preferences';
+import QuickCapture from './QuickCapture';
+import type { Preferences as PreferenceValues } from '../shared/preferences';
+import { FONT_FAMILIES } from '../shared/typography';
 import './styles.css';
 
+// Floating note windows are opened with `#note=<id>`, quick capture with
+// `#capture` and preferences with `#preferences`; everything else is the manager
+const params = new URLSearchParams(window.location.hash.slice(1));
+const noteId = params.get('note');
+const capture = params.has('capture');
+
+// Note text in every window follows the font preferences
+const applyFont = ({ fontFamily, fontSize }: PreferenceValues) => {
+  document.documentElement.style.setProperty('--note-font-family', FONT_FAMILIES[fontFamily].stack);
+  document.documentElement.style.setProperty('--note-font-size', `${fontSize}px`);
+};
+api.getPreferences().then(applyFont).catch(error => console.error('Failed to load preferences:', error));
+onIpcEvent('preferences-changed', applyFont);
+
 const root = createRoot(document.getElementById('root') as HTMLElement);
-root.render(<App />);
+// Preferences hold no note contents, so they stay available while notes are locked
+root.render(params.has('preferences') ? <Preferences /> : (
+  <LockGate compact={Boolean(noteId) || capture}>
+    {noteId ? <NoteWindow noteId={noteId} /> : capture ? <QuickCapture /> : <App />}
+  </LockGate>
+));
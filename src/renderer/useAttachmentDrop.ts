@@ -0,0 +1,71 @@
+import type React from 'react';
+import { useState } from 'react';
+import { api } from './api';
+import { MAX_ATTACHMENT_SIZE } from '../shared/attachment';
+
+interface AttachmentDrop {
+  /** True while files are dragged over the element. */
+  dragging: boolean;
+  error: string | null;
+  handlers: {
+    onPaste: (event: React.ClipboardEvent) => void;
+    onDragOver: (event: React.DragEvent) => void;
+    onDragLeave: () => void;
+    onDrop: (event: React.DragEvent) => void;
+  };
+}
+
+/**
+ * Paste and drop handlers that attach files to a note. Pasted text is left
+ * to the editor; only files, such as a copied screenshot, are attached.
+ */
+export function useAttachmentDrop(noteId: string | undefined): AttachmentDrop {
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const attach = async (files: File[]) => {
+    if (!noteId) return;
+    setError(null);
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        setError(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+        continue;
+      }
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        await api.addAttachment(noteId, file.name || 'Pasted file', file.type, data);
+      } catch (attachError) {
+        setError(attachError instanceof Error ? attachError.message : String(attachError));
+      }
+    }
+  };
+
+  return {
+    dragging,
+    error,
+    handlers: {
+      onPaste: (event) => {
+        const files = Array.from(event.clipboardData.files);
+        if (files.length > 0) {
+          event.preventDefault();
+          attach(files);
+        }
+      },
+      onDragOver: (event) => {
+        if (event.dataTransfer.types.includes('Files')) {
+          event.preventDefault();
+          setDragging(true);
+        }
+      },
+      onDragLeave: () => setDragging(false),
+      onDrop: (event) => {
+        setDragging(false);
+        const files = Array.from(event.dataTransfer.files);
+        if (files.length > 0) {
+          event.preventDefault();
+          attach(files);
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { api, IpcError, onIpcEvent } from './api';
+import { usePreferences } from './usePreferences';
+import { patchBase, type NotePatch, type StickyNote } from '../shared/note';
+
+/**
+ * Where a note's edits in this window stand: waiting for a pause in typing,
+ * on their way to main, stored, or refused, in which case they are kept and
+ * sent again with the next save.
+ */
+export type SaveStatus = 'dirty' | 'saving' | 'saved' | 'error';
+
+interface Autosave {
+  statuses: Record<string, SaveStatus>;
+  /** Queues `patch`, made to `note` as shown until now, for saving after a pause in typing. */
+  edit: (noteId: string, patch: NotePatch, note: StickyNote) => void;
+  /** Edits not stored yet; they win over changes pushed from main. */
+  unsaved: (noteId: string) => NotePatch | undefined;
+  /** Saves pending edits now, of one note or of all of them. */
+  flush: (noteId?: string) => Promise<void>;
+  /** Drops a note's pending edits, e.g. once it was deleted or replaced. */
+  discard: (noteId: string) => void;
+}
+
+/**
+ * Debounced saving of edits made in this window, after the pause set in the
+ * preferences. Edits are journaled in main as they are made, so a crash
+ * before the save loses nothing, and are saved at once when main asks, e.g.
+ * before quitting, or the window closes.
+ *
+ * Each save carries the values the edited fields had when editing began.
+ * Should another window have changed one of them since, main refuses the
+ * save and the user picks which version to keep; `onReverted` gets the note
+ * when it is the other one.
+ */
+export function useAutosave(onReverted: (note: StickyNote) => void): Autosave {
+  const [statuses, setStatuses] = useState<Record<string, SaveStatus>>({});
+  const { autosaveDelayMs } = usePreferences();
+  const pending = useRef<Record<string, NotePatch>>({});
+  const inFlight = useRef<Record<string, NotePatch>>({});
+  // What the fields in `pending` held before they were edited here
+  const bases = useRef<Record<string, NotePatch>>({});
+  const reverted = useRef(onReverted);
+  reverted.current = onReverted;
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Saves of one note go out one after another, so they land in order
+  const saving = useRef<Record<string, Promise<void>>>({});
+
+  const setStatus = useCallback((noteId: string, status: SaveStatus | null) => {
+    setStatuses(prev => {
+      const next = { ...prev };
+      if (status) {
+        next[noteId] = status;
+      } else {
+        delete next[noteId];
+      }
+      return next;
+    });
+  }, []);
+
+  const save = useCallback((noteId: string): Promise<void> => {
+    clearTimeout(timers.current[noteId]);
+    delete timers.current[noteId];
+    const next = (saving.current[noteId] ?? Promise.resolve()).then(async () => {
+      const patch = pending.current[noteId];
+      if (!patch) return;
+      let base = bases.current[noteId];
+      delete pending.current[noteId];
+      delete bases.current[noteId];
+      inFlight.current[noteId] = patch;
+      setStatus(noteId, 'saving');
+      try {
+        try {
+          await api.updateNote(noteId, patch, base);
+        } catch (error) {
+          if (!(error instanceof IpcError && error.code === 'CONFLICT')) throw error;
+          const latest = await api.getNote(noteId);
+          if (!latest) throw error;
+          if (!window.confirm(`"${latest.title || 'Untitled'}" was changed in another window while you were editing it here. Keep your version?\n\nCancel keeps the other version and drops your edits.`)) {
+            clearTimeout(timers.current[noteId]);
+            delete timers.current[noteId];
+            delete pending.current[noteId];
+            delete bases.current[noteId];
+            await api.discardEdits(noteId);
+            setStatus(noteId, null);
+            reverted.current(latest);
+            return;
+          }
+          base = patchBase(latest, patch);
+          await api.updateNote(noteId, patch, base);
+        }
+        setStatus(noteId, pending.current[noteId] ? 'dirty' : 'saved');
+      } catch (error) {
+        pending.current[noteId] = { ...patch, ...pending.current[noteId] };
+        // Fields edited again meanwhile still began from the older value
+        bases.current[noteId] = { ...bases.current[noteId], ...base };
+        setStatus(noteId, 'error');
+        console.error('Failed to save note:', error);
+      } finally {
+        delete inFlight.current[noteId];
+      }
+    });
+    saving.current[noteId] = next;
+    return next;
+  }, [setStatus]);
+
+  const edit = useCallback((noteId: string, patch: NotePatch, note: StickyNote) => {
+    bases.current[noteId] = { ...patchBase(note, patch), ...bases.current[noteId] };
+    pending.current[noteId] = { ...pending.current[noteId], ...patch };
+    setStatus(noteId, 'dirty');
+    api.journalEdits(noteId, patch).catch(error => console.error('Failed to journal edits:', error));
+    clearTimeout(timers.current[noteId]);
+    timers.current[noteId] = setTimeout(() => save(noteId), autosaveDelayMs);
+  }, [save, setStatus, autosaveDelayMs]);
+
+  const unsaved = useCallback((noteId: string): NotePatch | undefined => {
+    const patch = { ...inFlight.current[noteId], ...pending.current[noteId] };
+    return Object.keys(patch).length > 0 ? patch : undefined;
+  }, []);
+
+  const flush = useCallback(async (noteId?: string) => {
+    const noteIds = noteId ? [noteId] : Object.keys({ ...pending.current, ...saving.current });
+    await Promise.all(noteIds.map(save));
+  }, [save]);
+
+  const discard = useCallback((noteId: string) => {
+    clearTimeout(timers.current[noteId]);
+    delete timers.current[noteId];
+    delete pending.current[noteId];
+    delete bases.current[noteId];
+    setStatus(noteId, null);
+  }, [setStatus]);
+
+  useEffect(() => onIpcEvent('flush-edits', () => {
+    flush().finally(() => {
+      api.editsFlushed().catch(error => console.error('Failed to confirm saving:', error));
+    });
+  }), [flush]);
+
+  // The saves are sent before the window goes; should they not arrive, the
+  // journal still has the edits
+  useEffect(() => {
+    const saveAll = () => {
+      flush().catch(error => console.error('Failed to save notes:', error));
+    };
+    window.addEventListener('beforeunload', saveAll);
+    return () => window.removeEventListener('beforeunload', saveAll);
+  }, [flush]);
+
+  return useMemo(() => ({ statuses, edit, unsaved, flush, discard }), [statuses, edit, unsaved, flush, discard]);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import type { ColorScheme } from '../shared/palette';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Whether the window is shown light or dark. Main applies the theme
+ * preference through `nativeTheme`, so this follows it as well as the system.
+ */
+export function useColorScheme(): ColorScheme {
+  const [dark, setDark] = useState(() => window.matchMedia(DARK_QUERY).matches);
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    const update = () => setDark(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  return dark ? 'dark' : 'light';
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { onIpcEvent } from './api';
+import type { StickyNote } from '../shared/note';
+
+interface NoteEventHandlers {
+  onChanged: (note: StickyNote) => void;
+  onDeleted?: (noteId: string) => void;
+}
+
+/**
+ * Subscribes to the note changes main pushes to this window. An event older
+ * than one already applied to the same note is dropped, so a late delivery
+ * can never roll a note back.
+ */
+export function useNoteEvents(handlers: NoteEventHandlers): void {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    const versions = new Map<string, number>();
+    const isFresh = (noteId: string, version: number) => {
+      if (version <= (versions.get(noteId) ?? 0)) return false;
+      versions.set(noteId, version);
+      return true;
+    };
+    const unsubscribeChanged = onIpcEvent('note-changed', (note, version) => {
+      if (isFresh(note.id, version)) latest.current.onChanged(note);
+    });
+    const unsubscribeDeleted = onIpcEvent('note-deleted', (noteId, version) => {
+      if (isFresh(noteId, version)) latest.current.onDeleted?.(noteId);
+    });
+    return () => {
+      unsubscribeChanged();
+      unsubscribeDeleted();
+    };
+  }, []);
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import type { NoteLinks } from '../shared/wikiLink';
+
+/** The note's backlinks and broken links, fetched again whenever links change. */
+export function useNoteLinks(noteId: string | undefined): NoteLinks | null {
+  const [links, setLinks] = useState<NoteLinks | null>(null);
+
+  useEffect(() => {
+    setLinks(null);
+    if (!noteId) return;
+    let current = true;
+    const load = () => {
+      api.getNoteLinks(noteId)
+        .then(result => current && setLinks(result))
+        .catch(error => console.error('Failed to load links:', error));
+    };
+    load();
+    const unsubscribe = onIpcEvent('links-changed', load);
+    return () => {
+      current = false;
+      unsubscribe();
+    };
+  }, [noteId]);
+
+  return links;
+}
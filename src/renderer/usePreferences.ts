@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { api, onIpcEvent } from './api';
+import { DEFAULT_PREFERENCES, type Preferences } from '../shared/preferences';
+
+/** The app's preferences, kept current as they change in any window. */
+export function usePreferences(): Preferences {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    let current = true;
+    api.getPreferences()
+      .then(loaded => current && setPreferences(loaded))
+      .catch(error => console.error('Failed to load preferences:', error));
+    const unsubscribe = onIpcEvent('preferences-changed', setPreferences);
+    return () => {
+      current = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return preferences;
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const storageKey = (noteId: string) => `preview-mode:${noteId}`;
+
+/**
+ * Whether a note is shown as rendered Markdown instead of the editor. The
+ * choice is remembered per note, and shared by the manager and note windows.
+ */
+export function usePreviewMode(noteId: string | undefined): [boolean, () => void] {
+  const [preview, setPreview] = useState(false);
+
+  useEffect(() => {
+    setPreview(noteId ? localStorage.getItem(storageKey(noteId)) === 'true' : false);
+  }, [noteId]);
+
+  const toggle = useCallback(() => {
+    if (!noteId) return;
+    setPreview(prev => {
+      localStorage.setItem(storageKey(noteId), String(!prev));
+      return !prev;
+    });
+  }, [noteId]);
+
+  return [preview, toggle];
+}
@@ -0,0 +1,58 @@
+import { number, object, string, ValidationError, type Validator } from './validation';
+
+/**
+ * A file attached to a note. The file itself lives in the app's
+ * `attachments/` folder under a name made from its SHA-256 hash, so the same
+ * content attached twice is stored once.
+ */
+export interface Attachment {
+  /** Hash and extension, e.g. `3f2a….png`; the file's name on disk. */
+  file: string;
+  /** Name the file had when it was attached. */
+  name: string;
+  /** MIME type as reported when it was attached; may be empty. */
+  type: string;
+  size: number;
+}
+
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+/** Scheme renderers load attachments through, e.g. for image thumbnails. */
+export const ATTACHMENT_SCHEME = 'note-attachment';
+
+export const attachmentUrl = (file: string): string =>
+  `${ATTACHMENT_SCHEME}://file/${encodeURIComponent(file)}`;
+
+// Only raster formats are shown inline; SVG can carry script
+const INLINE_IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/** The MIME type an attachment file is served with. */
+export const attachmentFileType = (file: string): string =>
+  INLINE_IMAGE_TYPES[file.slice(file.lastIndexOf('.'))] ?? 'application/octet-stream';
+
+export const isInlineImage = (attachment: Attachment): boolean =>
+  attachmentFileType(attachment.file).startsWith('image/');
+
+const ATTACHMENT_FILE_PATTERN = /^[0-9a-f]{64}(\.[a-z0-9]{1,10})?$/;
+
+/** Attachment file names are checked before they are joined onto a path. */
+export const attachmentFileValidator: Validator<string> = (value, path) => {
+  const file = string()(value, path);
+  if (!ATTACHMENT_FILE_PATTERN.test(file)) {
+    throw new ValidationError(path, 'expected an attachment file name');
+  }
+  return file;
+};
+
+export const attachmentValidator = object({
+  file: attachmentFileValidator,
+  name: string({ nonEmpty: true, maxLength: 255 }),
+  type: string({ maxLength: 255 }),
+  size: number({ integer: true, min: 0 })
+});
@@ -0,0 +1,5 @@
+/** The URL scheme the app registers, as in `stickynotes://note/<id>`. */
+export const DEEP_LINK_SCHEME = 'stickynotes';
+
+export const noteLink = (noteId: string): string =>
+  `${DEEP_LINK_SCHEME}://note/${encodeURIComponent(noteId)}`;
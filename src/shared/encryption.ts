@@ -0,0 +1,29 @@
+import { number, string, ValidationError, type Validator } from './validation';
+
+export interface LockState {
+  /** Whether notes are encrypted at rest with a passphrase. */
+  encrypted: boolean;
+  /** True while the passphrase is needed to read notes. */
+  locked: boolean;
+  /** Minutes without input before notes lock again; 0 never locks on its own. */
+  autoLockMinutes: number;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export const AUTO_LOCK_CHOICES = [0, 1, 5, 15, 30, 60] as const;
+
+export const passphraseValidator = string({ nonEmpty: true, maxLength: 1024 });
+
+/** For passphrases being set; existing ones are only checked against the key. */
+export const newPassphraseValidator: Validator<string> = (value, path) => {
+  const passphrase = passphraseValidator(value, path);
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new ValidationError(path, `must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  return passphrase;
+};
+
+export const autoLockMinutesValidator = number({ integer: true, min: 0, max: 24 * 60 });
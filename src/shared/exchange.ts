@@ -0,0 +1,50 @@
+import { oneOf } from './validation';
+
+/** Identifies a JSON bundle written by this app. */
+export const NOTE_BUNDLE_FORMAT = 'sticky-notes-bundle';
+export const NOTE_BUNDLE_VERSION = 1;
+
+/** Formats notes can be imported from. */
+export type ImportFormat = 'bundle' | 'markdown';
+
+/** A PDF export prints the notes as a board of cards, several to a page. */
+export type ExportFormat = ImportFormat | 'pdf';
+
+/** Formats one note can be exported as; as a PDF it is a page the size of the note. */
+export type NoteFileFormat = 'markdown' | 'pdf' | 'png';
+
+/** Where an import reads from: a bundle or `.md` file, or a folder of `.md` files. */
+export type ImportSourceKind = 'file' | 'folder';
+
+/** What to do with an imported note whose id already exists. */
+export type CollisionStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportPreviewEntry {
+  id: string;
+  title: string;
+  notebookName?: string;
+  /** A note with this id already exists, so the collision strategy applies. */
+  exists: boolean;
+}
+
+export interface ImportPreview {
+  /** Passed back to `apply-import`; only the most recent preview can be applied. */
+  token: string;
+  source: string;
+  format: ImportFormat;
+  entries: ImportPreviewEntry[];
+  /** Records that could not be read and will not be imported. */
+  invalid: { source: string; reason: string }[];
+}
+
+export interface ImportResult {
+  created: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+}
+
+export const exportFormatValidator = oneOf<ExportFormat>('bundle', 'markdown', 'pdf');
+export const noteFileFormatValidator = oneOf<NoteFileFormat>('markdown', 'pdf', 'png');
+export const importSourceKindValidator = oneOf<ImportSourceKind>('file', 'folder');
+export const collisionStrategyValidator = oneOf<CollisionStrategy>('skip', 'overwrite', 'duplicate');
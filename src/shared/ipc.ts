@@ -0,0 +1,479 @@
+// The single registry of IPC channels between the main process, the preload
+// bridge and the renderer. Every invoke channel is declared here with its
+// argument and result types plus a runtime validator for its arguments, so
+// main can reject malformed calls before they touch the note store.
+
+import { attachmentFileValidator, MAX_ATTACHMENT_SIZE } from './attachment';
+import {
+  identifiedNoteDraftValidator,
+  noteColorValidator,
+  noteDraftValidator,
+  noteGroupIdValidator,
+  noteIdValidator,
+  notePatchValidator,
+  type NoteDraft,
+  type NotePatch,
+  type NoteRevision,
+  type StickyNote,
+  type UnsavedEdits
+} from './note';
+import {
+  autoLockMinutesValidator,
+  newPassphraseValidator,
+  passphraseValidator,
+  type LockState
+} from './encryption';
+import {
+  collisionStrategyValidator,
+  exportFormatValidator,
+  importSourceKindValidator,
+  noteFileFormatValidator,
+  type CollisionStrategy,
+  type ExportFormat,
+  type ImportPreview,
+  type ImportResult,
+  type ImportSourceKind,
+  type NoteFileFormat
+} from './exchange';
+import {
+  notebookIdValidator,
+  notebookNameValidator,
+  tagValidator,
+  type Notebook,
+  type TagSummary
+} from './notebook';
+import { reminderInputValidator, type ReminderInput } from './reminder';
+import { searchQueryValidator, type SearchQuery, type SearchResult } from './search';
+import { launcherSettingsValidator, type LauncherSettings } from './launcher';
+import type { PaletteColor } from './palette';
+import { preferencesValidator, type Preferences } from './preferences';
+import type { SyncStatus } from './sync';
+import { templateIdValidator, templateNameValidator, type NoteTemplate } from './template';
+import { trashSettingsValidator, type TrashSettings } from './trash';
+import { noteTypographyValidator, type NoteTypography } from './typography';
+import type { NoteLinks } from './wikiLink';
+import { workspaceIdValidator, workspaceNameValidator, type Workspace, type WorkspaceList } from './workspace';
+import { array, boolean, bytes, isoDate, nullable, optional, string, tuple, ValidationError, type Validator } from './validation';
+
+export interface IpcContract {
+  'load-notes': { args: []; result: StickyNote[] };
+  'create-note': { args: [draft?: NoteDraft]; result: StickyNote };
+  /**
+   * Saves edits. With `base`, the values the edited fields had when editing
+   * began, the save fails with CONFLICT if another window has changed one of
+   * them since, instead of overwriting that change.
+   */
+  'update-note': { args: [id: string, patch: NotePatch, base?: NotePatch]; result: StickyNote };
+  /** Records edits as they are made, before the debounced save, for crash recovery. */
+  'journal-edits': { args: [id: string, patch: NotePatch]; result: void };
+  /** Edits left unsaved when the app last stopped, e.g. because it crashed. */
+  'list-unsaved-edits': { args: []; result: UnsavedEdits[] };
+  'recover-edits': { args: [id: string]; result: StickyNote };
+  /** Drops a note's unsaved edits, whether left from the last session or made in this one. */
+  'discard-edits': { args: [id: string]; result: void };
+  /** Confirms a window has saved its pending edits after `flush-edits`. */
+  'edits-flushed': { args: []; result: void };
+  /** Moves the note to the Trash. */
+  'delete-note': { args: [id: string]; result: void };
+  'toggle-always-on-top': { args: [id: string, alwaysOnTop: boolean]; result: StickyNote };
+  'open-note-window': { args: [id?: string]; result: void };
+  /** Puts the note's stickynotes:// link on the clipboard and returns it. */
+  'copy-note-link': { args: [id: string]; result: string };
+  'save-all': { args: []; result: void };
+  'list-trash': { args: []; result: StickyNote[] };
+  'restore-note': { args: [id: string]; result: StickyNote };
+  'purge-note': { args: [id: string]; result: void };
+  'empty-trash': { args: []; result: void };
+  'get-trash-settings': { args: []; result: TrashSettings };
+  'set-trash-settings': { args: [settings: TrashSettings]; result: TrashSettings };
+  'list-revisions': { args: [noteId: string]; result: NoteRevision[] };
+  'restore-revision': { args: [noteId: string, revisionId: string]; result: StickyNote };
+  'search-notes': { args: [query: SearchQuery]; result: SearchResult[] };
+  /** Sets or, with null, clears a note's due date. */
+  'set-due-date': { args: [id: string, dueAt: string | null]; result: StickyNote };
+  /** Sets or, with null, clears a note's reminder. */
+  'set-reminder': { args: [id: string, reminder: ReminderInput | null]; result: StickyNote };
+  /** Sets or, with null, clears a note's own font, size and alignment. */
+  'set-note-typography': { args: [id: string, typography: NoteTypography | null]; result: StickyNote };
+  'list-notebooks': { args: []; result: Notebook[] };
+  'create-notebook': { args: [name: string]; result: Notebook };
+  'rename-notebook': { args: [id: string, name: string]; result: Notebook };
+  /** Moves every note into the target notebook and removes the source. */
+  'merge-notebooks': { args: [sourceId: string, targetId: string]; result: Notebook };
+  /** Removes a notebook; its notes move to the default notebook. */
+  'delete-notebook': { args: [id: string]; result: void };
+  'list-tags': { args: []; result: TagSummary[] };
+  /** Renames a tag on every note, merging it into `to` if that exists; returns the notes changed. */
+  'rename-tag': { args: [from: string, to: string]; result: number };
+  /** Opens or hides the floating windows of every note in a notebook. */
+  'set-notebook-windows-visible': { args: [notebookId: string, visible: boolean]; result: void };
+  /** Asks where to save, then exports; resolves to the path written, or null if cancelled. */
+  'export-notes': { args: [format: ExportFormat, noteIds?: string[]]; result: string | null };
+  'export-note': { args: [noteId: string, format: NoteFileFormat]; result: string | null };
+  /** Asks for a file or folder and previews importing it; null if cancelled. */
+  'choose-import': { args: [kind: ImportSourceKind]; result: ImportPreview | null };
+  'apply-import': { args: [token: string, strategy: CollisionStrategy]; result: ImportResult };
+  'get-sync-status': { args: []; result: SyncStatus };
+  /** Asks for a folder to sync with; the status is unchanged if the dialog is cancelled. */
+  'choose-sync-folder': { args: []; result: SyncStatus };
+  'stop-sync': { args: []; result: SyncStatus };
+  'sync-now': { args: []; result: SyncStatus };
+  'get-lock-state': { args: []; result: LockState };
+  'unlock': { args: [passphrase: string]; result: LockState };
+  'lock': { args: []; result: LockState };
+  /** Encrypts the note store and its history with a new passphrase. */
+  'enable-encryption': { args: [passphrase: string]; result: LockState };
+  'disable-encryption': { args: [passphrase: string]; result: LockState };
+  'change-passphrase': { args: [current: string, next: string]; result: LockState };
+  'set-auto-lock': { args: [minutes: number]; result: LockState };
+  /** Groups the notes with the first one, joining its group if it has one; returns the group id. */
+  'group-notes': { args: [noteIds: string[]]; result: string };
+  /** Takes a note out of its group; a group left with one note is dissolved. */
+  'ungroup-note': { args: [noteId: string]; result: void };
+  'set-group-collapsed': { args: [groupId: string, collapsed: boolean]; result: void };
+  'set-group-color': { args: [groupId: string, color: string]; result: void };
+  /** Closes the windows of every note in the group. */
+  'close-group': { args: [groupId: string]; result: void };
+  /** Stores a pasted or dropped file and attaches it to the note. */
+  'add-attachment': { args: [noteId: string, name: string, type: string, data: Uint8Array]; result: StickyNote };
+  'remove-attachment': { args: [noteId: string, file: string]; result: StickyNote };
+  /** Opens one of the note's attachments in the app the system picks for it. */
+  'open-attachment': { args: [noteId: string, file: string]; result: void };
+  /** Notes linking to this one by `[[title]]`, and its links that lead nowhere. */
+  'get-note-links': { args: [noteId: string]; result: NoteLinks };
+  /** The note's title is done being edited: links to its old title are pointed at the new one. */
+  'commit-note-title': { args: [noteId: string]; result: void };
+  /** Opens the window of the note a `[[title]]` link leads to. */
+  'open-wiki-link': { args: [title: string]; result: void };
+  'list-workspaces': { args: []; result: WorkspaceList };
+  'get-launcher-settings': { args: []; result: LauncherSettings };
+  /** Fails with CONFLICT if another app already holds the shortcut. */
+  'set-launcher-settings': { args: [settings: LauncherSettings]; result: LauncherSettings };
+  'get-preferences': { args: []; result: Preferences };
+  'set-preferences': { args: [preferences: Preferences]; result: Preferences };
+  'open-preferences': { args: []; result: void };
+  /** Asks for a palette file and reads it; null if cancelled. Nothing is saved yet. */
+  'import-palette': { args: []; result: PaletteColor[] | null };
+  /** Asks where to save the palette; resolves to the path written, or null if cancelled. */
+  'export-palette': { args: []; result: string | null };
+  /** Built-in templates first, then the ones saved from notes. */
+  'list-templates': { args: []; result: NoteTemplate[] };
+  /** Creates a note from a template, placeholders filled in; `draft` overrides its fields. */
+  'create-note-from-template': { args: [templateId: string, draft?: NoteDraft]; result: StickyNote };
+  /** Saves a note's title, content and color as a template. Fails with CONFLICT if the name is taken. */
+  'save-template': { args: [noteId: string, name: string]; result: NoteTemplate };
+  'rename-template': { args: [id: string, name: string]; result: NoteTemplate };
+  'delete-template': { args: [id: string]; result: void };
+  /** Records the open note windows under a new name and makes it the active workspace. */
+  'create-workspace': { args: [name: string]; result: Workspace };
+  /** Replaces a workspace's layout with the open note windows. */
+  'save-workspace': { args: [id: string]; result: Workspace };
+  'rename-workspace': { args: [id: string, name: string]; result: Workspace };
+  /** Removes a workspace; open windows and notes are left alone. */
+  'delete-workspace': { args: [id: string]; result: void };
+  /** Saves the active layout, then closes, opens and moves note windows to match `id`. */
+  'switch-workspace': { args: [id: string]; result: Workspace };
+  // Legacy channels kept for older note windows
+  'save-note': { args: [note: NoteDraft & { id: string }]; result: void };
+  'get-note': { args: [id: string]; result: StickyNote | undefined };
+  'create-new-note': { args: []; result: void };
+}
+
+export type IpcChannel = keyof IpcContract;
+export type IpcArgs<C extends IpcChannel> = IpcContract[C]['args'];
+export type IpcResult<C extends IpcChannel> = IpcContract[C]['result'];
+
+export const IPC_ARGS: { [C in IpcChannel]: Validator<IpcArgs<C>> } = {
+  'load-notes': tuple(),
+  'create-note': tuple(optional(noteDraftValidator)),
+  'update-note': tuple(noteIdValidator, notePatchValidator, optional(notePatchValidator)),
+  'journal-edits': tuple(noteIdValidator, notePatchValidator),
+  'list-unsaved-edits': tuple(),
+  'recover-edits': tuple(noteIdValidator),
+  'discard-edits': tuple(noteIdValidator),
+  'edits-flushed': tuple(),
+  'delete-note': tuple(noteIdValidator),
+  'toggle-always-on-top': tuple(noteIdValidator, boolean()),
+  'open-note-window': tuple(optional(noteIdValidator)),
+  'copy-note-link': tuple(noteIdValidator),
+  'save-all': tuple(),
+  'list-trash': tuple(),
+  'restore-note': tuple(noteIdValidator),
+  'purge-note': tuple(noteIdValidator),
+  'empty-trash': tuple(),
+  'get-trash-settings': tuple(),
+  'set-trash-settings': tuple(trashSettingsValidator),
+  'list-revisions': tuple(noteIdValidator),
+  'restore-revision': tuple(noteIdValidator, string({ nonEmpty: true, maxLength: 128 })),
+  'search-notes': tuple(searchQueryValidator),
+  'set-due-date': tuple(noteIdValidator, nullable(isoDate())),
+  'set-reminder': tuple(noteIdValidator, nullable(reminderInputValidator)),
+  'set-note-typography': tuple(noteIdValidator, nullable(noteTypographyValidator)),
+  'list-notebooks': tuple(),
+  'create-notebook': tuple(notebookNameValidator),
+  'rename-notebook': tuple(notebookIdValidator, notebookNameValidator),
+  'merge-notebooks': tuple(notebookIdValidator, notebookIdValidator),
+  'delete-notebook': tuple(notebookIdValidator),
+  'list-tags': tuple(),
+  'rename-tag': tuple(tagValidator, tagValidator),
+  'set-notebook-windows-visible': tuple(notebookIdValidator, boolean()),
+  'export-notes': tuple(exportFormatValidator, optional(array(noteIdValidator, { maxLength: 100_000 }))),
+  'export-note': tuple(noteIdValidator, noteFileFormatValidator),
+  'choose-import': tuple(importSourceKindValidator),
+  'apply-import': tuple(string({ nonEmpty: true, maxLength: 128 }), collisionStrategyValidator),
+  'get-sync-status': tuple(),
+  'choose-sync-folder': tuple(),
+  'stop-sync': tuple(),
+  'sync-now': tuple(),
+  'get-lock-state': tuple(),
+  'unlock': tuple(passphraseValidator),
+  'lock': tuple(),
+  'enable-encryption': tuple(newPassphraseValidator),
+  'disable-encryption': tuple(passphraseValidator),
+  'change-passphrase': tuple(passphraseValidator, newPassphraseValidator),
+  'set-auto-lock': tuple(autoLockMinutesValidator),
+  'group-notes': tuple(array(noteIdValidator, { maxLength: 1000 })),
+  'ungroup-note': tuple(noteIdValidator),
+  'set-group-collapsed': tuple(noteGroupIdValidator, boolean()),
+  'set-group-color': tuple(noteGroupIdValidator, noteColorValidator),
+  'close-group': tuple(noteGroupIdValidator),
+  'add-attachment': tuple(
+    noteIdValidator,
+    string({ nonEmpty: true, maxLength: 1024 }),
+    string({ maxLength: 255 }),
+    bytes({ maxLength: MAX_ATTACHMENT_SIZE })
+  ),
+  'remove-attachment': tuple(noteIdValidator, attachmentFileValidator),
+  'open-attachment': tuple(noteIdValidator, attachmentFileValidator),
+  'get-note-links': tuple(noteIdValidator),
+  'commit-note-title': tuple(noteIdValidator),
+  'open-wiki-link': tuple(string({ nonEmpty: true, maxLength: 500 })),
+  'list-workspaces': tuple(),
+  'get-launcher-settings': tuple(),
+  'set-launcher-settings': tuple(launcherSettingsValidator),
+  'get-preferences': tuple(),
+  'set-preferences': tuple(preferencesValidator),
+  'open-preferences': tuple(),
+  'import-palette': tuple(),
+  'export-palette': tuple(),
+  'list-templates': tuple(),
+  'create-note-from-template': tuple(templateIdValidator, optional(noteDraftValidator)),
+  'save-template': tuple(noteIdValidator, templateNameValidator),
+  'rename-template': tuple(templateIdValidator, templateNameValidator),
+  'delete-template': tuple(templateIdValidator),
+  'create-workspace': tuple(workspaceNameValidator),
+  'save-workspace': tuple(workspaceIdValidator),
+  'rename-workspace': tuple(workspaceIdValidator, workspaceNameValidator),
+  'delete-workspace': tuple(workspaceIdValidator),
+  'switch-workspace': tuple(workspaceIdValidator),
+  'save-note': tuple(identifiedNoteDraftValidator),
+  'get-note': tuple(noteIdValidator),
+  'create-new-note': tuple()
+};
+
+/** Renderer-facing method names for each invoke channel. */
+export const IPC_METHODS = {
+  loadNotes: 'load-notes',
+  createNote: 'create-note',
+  updateNote: 'update-note',
+  journalEdits: 'journal-edits',
+  listUnsavedEdits: 'list-unsaved-edits',
+  recoverEdits: 'recover-edits',
+  discardEdits: 'discard-edits',
+  editsFlushed: 'edits-flushed',
+  deleteNote: 'delete-note',
+  toggleAlwaysOnTop: 'toggle-always-on-top',
+  openNoteWindow: 'open-note-window',
+  copyNoteLink: 'copy-note-link',
+  saveAll: 'save-all',
+  listTrash: 'list-trash',
+  restoreNote: 'restore-note',
+  purgeNote: 'purge-note',
+  emptyTrash: 'empty-trash',
+  getTrashSettings: 'get-trash-settings',
+  setTrashSettings: 'set-trash-settings',
+  listRevisions: 'list-revisions',
+  restoreRevision: 'restore-revision',
+  searchNotes: 'search-notes',
+  setDueDate: 'set-due-date',
+  setReminder: 'set-reminder',
+  setNoteTypography: 'set-note-typography',
+  listNotebooks: 'list-notebooks',
+  createNotebook: 'create-notebook',
+  renameNotebook: 'rename-notebook',
+  mergeNotebooks: 'merge-notebooks',
+  deleteNotebook: 'delete-notebook',
+  listTags: 'list-tags',
+  renameTag: 'rename-tag',
+  setNotebookWindowsVisible: 'set-notebook-windows-visible',
+  exportNotes: 'export-notes',
+  exportNote: 'export-note',
+  chooseImport: 'choose-import',
+  applyImport: 'apply-import',
+  getSyncStatus: 'get-sync-status',
+  chooseSyncFolder: 'choose-sync-folder',
+  stopSync: 'stop-sync',
+  syncNow: 'sync-now',
+  getLockState: 'get-lock-state',
+  unlock: 'unlock',
+  lock: 'lock',
+  enableEncryption: 'enable-encryption',
+  disableEncryption: 'disable-encryption',
+  changePassphrase: 'change-passphrase',
+  setAutoLock: 'set-auto-lock',
+  groupNotes: 'group-notes',
+  ungroupNote: 'ungroup-note',
+  setGroupCollapsed: 'set-group-collapsed',
+  setGroupColor: 'set-group-color',
+  closeGroup: 'close-group',
+  addAttachment: 'add-attachment',
+  removeAttachment: 'remove-attachment',
+  openAttachment: 'open-attachment',
+  getNoteLinks: 'get-note-links',
+  commitNoteTitle: 'commit-note-title',
+  openWikiLink: 'open-wiki-link',
+  listWorkspaces: 'list-workspaces',
+  getLauncherSettings: 'get-launcher-settings',
+  setLauncherSettings: 'set-launcher-settings',
+  getPreferences: 'get-preferences',
+  setPreferences: 'set-preferences',
+  openPreferences: 'open-preferences',
+  importPalette: 'import-palette',
+  exportPalette: 'export-palette',
+  listTemplates: 'list-templates',
+  createNoteFromTemplate: 'create-note-from-template',
+  saveTemplate: 'save-template',
+  renameTemplate: 'rename-template',
+  deleteTemplate: 'delete-template',
+  createWorkspace: 'create-workspace',
+  saveWorkspace: 'save-workspace',
+  renameWorkspace: 'rename-workspace',
+  deleteWorkspace: 'delete-workspace',
+  switchWorkspace: 'switch-workspace',
+  saveNote: 'save-note',
+  getNote: 'get-note',
+  createNewNote: 'create-new-note'
+} as const satisfies Record<string, IpcChannel>;
+
+/** Events pushed from main to renderer windows. */
+export interface IpcEvents {
+  'note-id': [noteId: string];
+  'load-note': [note: StickyNote];
+  /**
+   * A note was saved, from any window or by main itself. `version` grows with
+   * every change, so a window can drop an event older than one it has applied.
+   */
+  'note-changed': [note: StickyNote, version: number];
+  'note-deleted': [noteId: string, version: number];
+  /** An import started from the menu, for the manager to confirm. */
+  'import-preview': [preview: ImportPreview];
+  /** Sent after each sync pass; `changed` is true when notes were changed from the sync folder. */
+  'sync-status': [status: SyncStatus, changed: boolean];
+  /** Sent to every window when notes are locked, unlocked or encryption is turned on or off. */
+  'lock-state': [state: LockState];
+  /** Sent to the manager when workspaces change, from the menu or the manager itself. */
+  'workspaces-changed': [list: WorkspaceList];
+  /** Sent to the manager to search for `text`, e.g. from a stickynotes://search link. */
+  'show-search': [text: string];
+  /** Sent to every window when a note's title or `[[links]]` change, or a note comes or goes. */
+  'links-changed': [];
+  /** Asks a window to save its pending edits now and answer with `edits-flushed`, e.g. before quitting. */
+  'flush-edits': [];
+  /** Sent to every window when preferences change. */
+  'preferences-changed': [preferences: Preferences];
+  /** Sent to every window when a template is saved, renamed or deleted. */
+  'templates-changed': [templates: NoteTemplate[]];
+}
+
+export type IpcEvent = keyof IpcEvents;
+
+const IPC_EVENT_NAMES: readonly IpcEvent[] = [
+  'note-id',
+  'load-note',
+  'note-changed',
+  'note-deleted',
+  'import-preview',
+  'sync-status',
+  'lock-state',
+  'workspaces-changed',
+  'show-search',
+  'links-changed',
+  'flush-edits',
+  'preferences-changed',
+  'templates-changed'
+];
+
+export const isIpcChannel = (value: unknown): value is IpcChannel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(IPC_ARGS, value);
+
+export const isIpcEvent = (value: unknown): value is IpcEvent =>
+  IPC_EVENT_NAMES.includes(value as IpcEvent);
+
+export type IpcErrorCode = 'UNKNOWN_CHANNEL' | 'INVALID_PAYLOAD' | 'NOT_FOUND' | 'CONFLICT' | 'LOCKED' | 'INTERNAL';
+
+export interface SerializedIpcError {
+  code: IpcErrorCode;
+  message: string;
+}
+
+export class IpcError extends Error {
+  constructor(public readonly code: IpcErrorCode, message: string) {
+    super(message);
+    this.name = 'IpcError';
+  }
+
+  static from(error: unknown): IpcError {
+    if (error instanceof IpcError) {
+      return error;
+    }
+    if (error instanceof ValidationError) {
+      return new IpcError('INVALID_PAYLOAD', error.message);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new IpcError('INTERNAL', message);
+  }
+
+  toJSON(): SerializedIpcError {
+    return { code: this.code, message: this.message };
+  }
+}
+
+/**
+ * Results cross the bridge wrapped in an envelope because Electron strips
+ * custom properties from errors thrown through `invoke` and `contextBridge`.
+ */
+export type IpcResponse<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: SerializedIpcError };
+
+export const validateIpcArgs = <C extends IpcChannel>(channel: C, args: unknown[]): IpcArgs<C> =>
+  IPC_ARGS[channel](args, channel);
+
+/** The raw surface exposed by the preload script as `window.electronAPI`. */
+export interface ElectronBridge {
+  invoke: <C extends IpcChannel>(channel: C, ...args: IpcArgs<C>) => Promise<IpcResponse<IpcResult<C>>>;
+  on: <E extends IpcEvent>(event: E, callback: (...args: IpcEvents[E]) => void) => () => void;
+  removeAllListeners: (event: IpcEvent) => void;
+}
+
+export type IpcClient = {
+  [M in keyof typeof IPC_METHODS]: (
+    ...args: IpcArgs<(typeof IPC_METHODS)[M]>
+  ) => Promise<IpcResult<(typeof IPC_METHODS)[M]>>;
+};
+
+/** Builds the typed method API on top of the raw bridge, unwrapping envelopes into values or IpcErrors. */
+export const createIpcClient = (bridge: ElectronBridge): IpcClient => {
+  const client: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+  for (const [method, channel] of Object.entries(IPC_METHODS)) {
+    client[method] = async (...args: unknown[]) => {
+      const invoke = bridge.invoke as (channel: IpcChannel, ...args: unknown[]) => Promise<IpcResponse<unknown>>;
+      const response = await invoke(channel, ...args);
+      if (!response.ok) {
+        throw new IpcError(response.error.code, response.error.message);
+      }
+      return response.value;
+    };
+  }
+  return client as IpcClient;
+};
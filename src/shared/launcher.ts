@@ -0,0 +1,19 @@
+import { boolean, object, string } from './validation';
+
+/** How the app can be reached from outside its windows. */
+export interface LauncherSettings {
+  /** Electron accelerator that opens quick capture from anywhere; empty turns it off. */
+  captureShortcut: string;
+  /** Off leaves only the tray icon: no Dock icon on macOS, no taskbar buttons elsewhere. */
+  showInDock: boolean;
+}
+
+export const DEFAULT_LAUNCHER_SETTINGS: LauncherSettings = {
+  captureShortcut: 'CommandOrControl+Shift+Space',
+  showInDock: true
+};
+
+export const launcherSettingsValidator = object({
+  captureShortcut: string({ maxLength: 100 }),
+  showInDock: boolean()
+});
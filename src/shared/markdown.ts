@@ -0,0 +1,207 @@
+// A small Markdown subset for note contents: headings, emphasis, code, links,
+// `[[Note title]]` links, quotes, lists and `- [ ]` task lists. Parsing produces plain data so the
+// renderer can build elements without ever injecting HTML.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'wikiLink'; title: string };
+
+export interface MarkdownListItem {
+  depth: number;
+  children: MarkdownInline[];
+  /** Present on `- [ ]` items; `line` is the zero-based source line to toggle. */
+  task?: { checked: boolean; line: number };
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'rule' };
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TASK_LINE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s)/;
+
+/** Links are only rendered, and only opened, for these schemes. */
+export function isSafeLinkUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:', 'mailto:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const INLINE = new RegExp([
+  '`([^`]+)`',
+  '\\[\\[([^[\\]\\n]+)\\]\\]',
+  '\\[([^\\]]+)\\]\\(([^)\\s]+)\\)',
+  '(https?:\\/\\/[^\\s<]+[^\\s<.,;:!?)\\]\'"])',
+  '\\*\\*(.+?)\\*\\*',
+  '__(.+?)__',
+  '~~(.+?)~~',
+  '\\*([^*\\s](?:[^*]*[^*\\s])?)\\*',
+  '(?<![\\p{L}\\p{N}])_([^_\\s](?:[^_]*[^_\\s])?)_(?![\\p{L}\\p{N}])'
+].join('|'), 'gu');
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    value.split('\n').forEach((part, index) => {
+      if (index > 0) nodes.push({ type: 'break' });
+      if (part) nodes.push({ type: 'text', text: part });
+    });
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    pushText(text.slice(cursor, index));
+    cursor = index + match[0].length;
+
+    const [, code, wikiLink, linkText, linkHref, autolink, strong, strongAlt, strike, emphasis, emphasisAlt] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (wikiLink !== undefined) {
+      if (wikiLink.trim()) {
+        nodes.push({ type: 'wikiLink', title: wikiLink.trim() });
+      } else {
+        pushText(match[0]);
+      }
+    } else if (linkText !== undefined) {
+      if (isSafeLinkUrl(linkHref)) {
+        nodes.push({ type: 'link', href: linkHref, children: parseInline(linkText) });
+      } else {
+        pushText(match[0]);
+      }
+    } else if (autolink !== undefined) {
+      nodes.push({ type: 'link', href: autolink, children: [{ type: 'text', text: autolink }] });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (strike !== undefined) {
+      nodes.push({ type: 'strike', children: parseInline(strike) });
+    } else {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisAlt) });
+    }
+  }
+  pushText(text.slice(cursor));
+  return nodes;
+}
+
+const startsBlock = (line: string): boolean =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+function parseLines(lines: string[], firstLine: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if (!line.trim()) {
+      i++;
+    } else if ((match = line.match(FENCE))) {
+      const fence = match[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) {
+        body.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: 'code', text: body.join('\n'), language: match[2] || undefined });
+    } else if ((match = line.match(HEADING))) {
+      blocks.push({ type: 'heading', level: match[1].length, children: parseInline(match[2]) });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (QUOTE.test(line)) {
+      const start = i;
+      const body: string[] = [];
+      while (i < lines.length && (match = lines[i].match(QUOTE))) {
+        body.push(match[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(body, firstLine + start) });
+    } else if ((match = line.match(LIST_ITEM))) {
+      const ordered = /\d/.test(match[2]);
+      const items: MarkdownListItem[] = [];
+      while (i < lines.length && (match = lines[i].match(LIST_ITEM))) {
+        const depth = Math.floor(match[1].replace(/\t/g, '  ').length / 2);
+        // A top-level item of the other kind starts a new list
+        if (depth === 0 && /\d/.test(match[2]) !== ordered) break;
+        const task = match[3].match(TASK);
+        items.push(task
+          ? { depth, children: parseInline(task[2]), task: { checked: task[1] !== ' ', line: firstLine + i } }
+          : { depth, children: parseInline(match[3]) });
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+    } else {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i]))) {
+        body.push(lines[i++]);
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+    }
+  }
+  return blocks;
+}
+
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  return parseLines(content.split('\n'), 0);
+}
+
+/** Task lines outside fenced code blocks, as [line index, checked]. */
+function taskLines(content: string): [number, boolean][] {
+  const tasks: [number, boolean][] = [];
+  let fence: string | null = null;
+  content.split('\n').forEach((rawLine, index) => {
+    // Tasks inside block quotes count too
+    const line = rawLine.replace(/^(\s*>\s?)+/, '');
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch && (fence === null || line.trim().startsWith(fence))) {
+      fence = fence === null ? fenceMatch[1] : null;
+      return;
+    }
+    const match = fence === null && line.match(TASK_LINE);
+    if (match) {
+      tasks.push([index, match[2] !== ' ']);
+    }
+  });
+  return tasks;
+}
+
+/** How many `- [ ]` tasks in the content are ticked. */
+export function checklistProgress(content: string): ChecklistProgress {
+  const tasks = taskLines(content);
+  return { done: tasks.filter(([, checked]) => checked).length, total: tasks.length };
+}
+
+/** Flips the checkbox of the task on the given zero-based line. */
+export function toggleTask(content: string, line: number): string {
+  const lines = content.split('\n');
+  if (!taskLines(content).some(([index]) => index === line)) {
+    return content;
+  }
+  lines[line] = lines[line].replace(/^(\s*(?:>\s?)*\s*)(.*)$/, (_, quote: string, rest: string) =>
+    quote + rest.replace(TASK_LINE, (__, open: string, mark: string, close: string) =>
+      `${open}${mark === ' ' ? 'x' : ' '}${close}`));
+  return lines.join('\n');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { editConflicts, patchBase, type StickyNote } from './note';
+
+const note = (fields: Partial<StickyNote> = {}): StickyNote => ({
+  id: 'a',
+  title: 'Groceries',
+  content: 'milk',
+  color: '#ffff88',
+  x: 0,
+  y: 0,
+  width: 250,
+  height: 250,
+  alwaysOnTop: false,
+  notebookId: 'default',
+  tags: [],
+  created: '2024-06-01T09:00:00.000Z',
+  updated: '2024-06-01T09:00:00.000Z',
+  ...fields
+});
+
+describe('patchBase', () => {
+  it('picks the current values of the patched fields', () => {
+    expect(patchBase(note({ tags: ['home'] }), { content: 'eggs', tags: [] })).toEqual({ content: 'milk', tags: ['home'] });
+  });
+});
+
+describe('editConflicts', () => {
+  it('accepts edits to a note nobody else changed', () => {
+    expect(editConflicts(note(), { content: 'milk, eggs' }, { content: 'milk' })).toBe(false);
+  });
+
+  it('ignores changes elsewhere to fields the edits leave alone', () => {
+    const current = note({ color: '#bae1ff', x: 40, updated: '2024-06-01T10:00:00.000Z' });
+    expect(editConflicts(current, { content: 'milk, eggs' }, { content: 'milk' })).toBe(false);
+  });
+
+  it('refuses edits to a field changed elsewhere since they began', () => {
+    expect(editConflicts(note({ content: 'bread' }), { content: 'milk, eggs' }, { content: 'milk' })).toBe(true);
+  });
+
+  it('accepts a field changed elsewhere to the same value', () => {
+    expect(editConflicts(note({ content: 'milk, eggs' }), { content: 'milk, eggs' }, { content: 'milk' })).toBe(false);
+  });
+
+  it('compares tags by value', () => {
+    const current = note({ tags: ['home', 'shop'] });
+    expect(editConflicts(current, { tags: ['home'] }, { tags: ['home', 'shop'] })).toBe(false);
+    expect(editConflicts(current, { tags: ['home'] }, { tags: ['shop'] })).toBe(true);
+  });
+});
@@ -0,0 +1,212 @@
+import { attachmentValidator, type Attachment } from './attachment';
+import { notebookIdValidator, tagValidator } from './notebook';
+import { reminderValidator, type NoteReminder } from './reminder';
+import { noteTypographyValidator, type NoteTypography } from './typography';
+import { array, boolean, isoDate, number, optional, partial, object, string, type Validator } from './validation';
+
+/**
+ * Version of the on-disk note store. Bump it together with a new step in
+ * `src/main/storage/migrations.ts` whenever the StickyNote shape changes.
+ */
+export const NOTE_SCHEMA_VERSION = 9;
+
+/**
+ * Membership of a group of note windows that move together. Offsets are
+ * from the group's origin, so every member can be put back in place from
+ * any one of them.
+ */
+export interface NoteGroup {
+  id: string;
+  offsetX: number;
+  offsetY: number;
+  /** Kept the same on every member; collapsed windows show only their title bar. */
+  collapsed?: boolean;
+}
+
+export interface StickyNote {
+  id: string;
+  title: string;
+  content: string;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * The display the note was last placed on, as Electron's `screen` module
+   * identifies it. While that display is disconnected the note is shown
+   * elsewhere but keeps its position for when the display returns.
+   */
+  displayId?: number;
+  group?: NoteGroup;
+  created: string;
+  updated: string;
+  alwaysOnTop: boolean;
+  notebookId: string;
+  /** Explicit tags; `#tags` written in the content are parsed on demand. */
+  tags: string[];
+  /** When the note is due; shown in the sidebar but does not notify by itself. */
+  dueAt?: string;
+  reminder?: NoteReminder;
+  /** Pasted or dropped files, in the order they were added. */
+  attachments?: Attachment[];
+  /** The note's own font, size and alignment; missing when it has none. */
+  typography?: NoteTypography;
+  /** Set while the note is in the Trash. */
+  deletedAt?: string;
+}
+
+/** An earlier title and content of a note, kept for the history view. */
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  /** When this version was last saved. */
+  savedAt: string;
+}
+
+/**
+ * Edits a window made to a note but had not saved yet, kept in the recovery
+ * journal so they can be offered back after a crash.
+ */
+export interface UnsavedEdits {
+  noteId: string;
+  patch: NotePatch;
+  /** When the latest of the edits was made. */
+  editedAt: string;
+}
+
+/** The contents of `notes.json`. */
+export interface NoteStoreFile {
+  schemaVersion: number;
+  notes: StickyNote[];
+}
+
+/**
+ * Fields a caller may change on an existing note. Due dates, reminders and
+ * typography have their own channels, since clearing them needs an explicit
+ * null, and attachments are added and removed only through main.
+ */
+export type NotePatch = Partial<Omit<StickyNote, 'id' | 'created' | 'updated' | 'deletedAt' | 'dueAt' | 'reminder' | 'displayId' | 'group' | 'attachments' | 'typography'>>;
+
+/** Fields a caller may provide when creating a note; the rest get defaults. */
+export type NoteDraft = NotePatch & { id?: string };
+
+export const MAX_CONTENT_LENGTH = 1_000_000;
+
+/**
+ * The palette notes start with; `dark` is the color shown in dark mode. The
+ * command line and links know colors by these names whatever the palette.
+ */
+export const NOTE_COLORS = [
+  { name: 'Yellow', value: '#ffff88', dark: '#57532a' },
+  { name: 'Pink', value: '#ffb3ba', dark: '#5e3339' },
+  { name: 'Green', value: '#bae1b3', dark: '#304d33' },
+  { name: 'Blue', value: '#bae1ff', dark: '#2c465e' },
+  { name: 'Orange', value: '#ffdfba', dark: '#5c4329' },
+  { name: 'Purple', value: '#e1baff', dark: '#46335e' }
+];
+
+/** A color given by name (`pink`) or as `#rrggbb`, or undefined if it is neither. */
+export function parseNoteColor(value: string): string | undefined {
+  const named = NOTE_COLORS.find(color => color.name.toLowerCase() === value.toLowerCase());
+  if (named) return named.value;
+  return /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : undefined;
+}
+
+/** A note from plain text, the way quick capture makes one: the first line is the title. */
+export function draftFromText(text: string): NoteDraft {
+  const [firstLine, ...rest] = text.trim().split('\n');
+  return { title: firstLine.trim().slice(0, 500), content: rest.join('\n').trim() };
+}
+
+/** The values `note` has for the fields `patch` changes, to send as the base of an edit. */
+export function patchBase(note: StickyNote, patch: NotePatch): NotePatch {
+  return Object.fromEntries(Object.keys(patch).map(field => [field, note[field as keyof NotePatch]]));
+}
+
+/**
+ * Whether `note` was changed elsewhere since edits making `patch` began from
+ * `base`: some field now differs both from where the edits began and from
+ * what they set it to.
+ */
+export function editConflicts(note: StickyNote, patch: NotePatch, base: NotePatch): boolean {
+  return (Object.keys(patch) as (keyof NotePatch)[]).some(field => {
+    const current = JSON.stringify(note[field]);
+    return current !== JSON.stringify(base[field]) && current !== JSON.stringify(patch[field]);
+  });
+}
+
+export const noteIdValidator = string({ nonEmpty: true, maxLength: 128 });
+
+const noteFields = {
+  title: string({ maxLength: 500 }),
+  content: string({ maxLength: MAX_CONTENT_LENGTH }),
+  color: string({ maxLength: 64 }),
+  x: number({ integer: true }),
+  y: number({ integer: true }),
+  width: number({ integer: true, min: 1 }),
+  height: number({ integer: true, min: 1 }),
+  alwaysOnTop: boolean(),
+  notebookId: notebookIdValidator,
+  tags: array(tagValidator, { maxLength: 100 })
+};
+
+export const noteGroupIdValidator = string({ nonEmpty: true, maxLength: 128 });
+export const noteColorValidator = noteFields.color;
+
+const noteGroupValidator = object({
+  id: noteGroupIdValidator,
+  offsetX: number({ integer: true }),
+  offsetY: number({ integer: true }),
+  collapsed: optional(boolean())
+});
+
+export const noteValidator: Validator<StickyNote> = object({
+  id: noteIdValidator,
+  ...noteFields,
+  displayId: optional(number({ integer: true })),
+  group: optional(noteGroupValidator),
+  created: isoDate(),
+  updated: isoDate(),
+  dueAt: optional(isoDate()),
+  reminder: optional(reminderValidator),
+  attachments: optional(array(attachmentValidator, { maxLength: 1000 })),
+  typography: optional(noteTypographyValidator),
+  deletedAt: optional(isoDate())
+});
+
+export const notePatchValidator = partial(noteFields);
+
+/** Patches as the storage layer records them, including Trash state. */
+export const storedNotePatchValidator = partial({
+  ...noteFields,
+  displayId: number({ integer: true }),
+  group: noteGroupValidator,
+  dueAt: isoDate(),
+  reminder: reminderValidator,
+  attachments: array(attachmentValidator, { maxLength: 1000 }),
+  typography: noteTypographyValidator,
+  deletedAt: isoDate()
+});
+
+export const noteDraftValidator = partial({
+  ...noteFields,
+  id: noteIdValidator
+});
+
+/** A draft that must name the note it upserts (legacy `save-note`). */
+export const identifiedNoteDraftValidator = object({
+  id: noteIdValidator,
+  title: optional(noteFields.title),
+  content: optional(noteFields.content),
+  color: optional(noteFields.color),
+  x: optional(noteFields.x),
+  y: optional(noteFields.y),
+  width: optional(noteFields.width),
+  height: optional(noteFields.height),
+  alwaysOnTop: optional(noteFields.alwaysOnTop),
+  notebookId: optional(noteFields.notebookId),
+  tags: optional(noteFields.tags)
+});
@@ -0,0 +1,58 @@
+import type { StickyNote } from './note';
+import { isoDate, object, string } from './validation';
+
+/** A named group of notes. Every note belongs to exactly one notebook. */
+export interface Notebook {
+  id: string;
+  name: string;
+  created: string;
+  updated: string;
+}
+
+/** How often a tag is used across live notes. */
+export interface TagSummary {
+  tag: string;
+  count: number;
+}
+
+/** The notebook new and migrated notes land in; it cannot be removed. */
+export const DEFAULT_NOTEBOOK_ID = 'default';
+export const DEFAULT_NOTEBOOK_NAME = 'Notes';
+
+export const notebookIdValidator = string({ nonEmpty: true, maxLength: 128 });
+export const notebookNameValidator = string({ nonEmpty: true, maxLength: 100 });
+export const tagValidator = string({ nonEmpty: true, maxLength: 64 });
+
+export const notebookValidator = object({
+  id: notebookIdValidator,
+  name: notebookNameValidator,
+  created: isoDate(),
+  updated: isoDate()
+});
+
+// `#word` at the start of the text or after anything that cannot be part of a
+// word, so `C#`, `a#b` and `&#39;` are not tags and `# Heading` has no tag
+const INLINE_TAG = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu;
+
+/** Lowercases a tag and drops a leading `#`, so `#Work` and `work` are one tag. */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+/** Tags written inline in the content as `#tag`. */
+export function inlineTags(content: string): string[] {
+  return normalizeTags([...content.matchAll(INLINE_TAG)].map(match => match[2]));
+}
+
+/** Every tag on a note: its explicit list plus the ones in its content. */
+export function noteTags(note: Pick<StickyNote, 'tags' | 'content'>): string[] {
+  return normalizeTags([...note.tags, ...inlineTags(note.content)]).sort();
+}
+
+/** Rewrites inline `#from` tags in `content` to `#to`, leaving other text alone. */
+export function renameInlineTag(content: string, from: string, to: string): string {
+  return content.replace(INLINE_TAG, (match, lead: string, tag: string) =>
+    normalizeTag(tag) === from ? `${lead}#${to}` : match);
+}
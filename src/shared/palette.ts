@@ -0,0 +1,112 @@
+import { NOTE_COLORS } from './note';
+import { array, object, oneOf, optional, string, ValidationError, type Validator } from './validation';
+
+/** A named note color. */
+export interface PaletteColor {
+  name: string;
+  /** As `#rrggbb`; this is what notes store. */
+  value: string;
+  /** Shown instead of `value` in dark mode; derived from it when left out. */
+  dark?: string;
+}
+
+export type ColorScheme = 'light' | 'dark';
+
+export const MAX_PALETTE_COLORS = 24;
+
+export const DEFAULT_PALETTE: PaletteColor[] = NOTE_COLORS.map(color => ({ ...color }));
+
+export const hexColorValidator: Validator<string> = (value, path) => {
+  if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new ValidationError(path, 'expected a #rrggbb color');
+  }
+  return value.toLowerCase();
+};
+
+const paletteColorValidator: Validator<PaletteColor> = object({
+  name: string({ nonEmpty: true, maxLength: 40 }),
+  value: hexColorValidator,
+  dark: optional(hexColorValidator)
+});
+
+/** At least one color, and names that differ ignoring case so swatches can be told apart. */
+export const paletteValidator: Validator<PaletteColor[]> = (value, path) => {
+  const colors = array(paletteColorValidator, { maxLength: MAX_PALETTE_COLORS })(value, path);
+  if (colors.length === 0) {
+    throw new ValidationError(path, 'must have at least one color');
+  }
+  const names = new Set<string>();
+  colors.forEach((color, index) => {
+    const name = color.name.trim().toLowerCase();
+    if (!name) {
+      throw new ValidationError(`${path}[${index}].name`, 'must not be blank');
+    }
+    if (names.has(name)) {
+      throw new ValidationError(`${path}[${index}].name`, `duplicates “${color.name}”`);
+    }
+    names.add(name);
+  });
+  return colors;
+};
+
+const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0');
+
+/**
+ * A dark counterpart of a light note color: the same hue, muted and dimmed
+ * so light text stays readable on it.
+ */
+export function darkVariant(color: string): string {
+  if (!/^#[0-9a-f]{6}$/i.test(color)) return color;
+  const [r, g, b] = [1, 3, 5].map(start => parseInt(color.slice(start, start + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  let hue = 0;
+  if (chroma > 0) {
+    hue = max === r ? ((g - b) / chroma) % 6 : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+  }
+  const lightness = (max + min) / 2;
+  const saturation = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1));
+
+  // Back from HSL with the lightness pinned low
+  const darkSaturation = Math.min(saturation, 0.4);
+  const darkLightness = 0.26;
+  const darkChroma = (1 - Math.abs(2 * darkLightness - 1)) * darkSaturation;
+  const x = darkChroma * (1 - Math.abs(((hue + 6) % 2) - 1));
+  const sector = Math.floor((hue + 6) % 6);
+  const [r1, g1, b1] = [
+    [darkChroma, x, 0], [x, darkChroma, 0], [0, darkChroma, x],
+    [0, x, darkChroma], [x, 0, darkChroma], [darkChroma, 0, x]
+  ][sector];
+  const m = darkLightness - darkChroma / 2;
+  return `#${toHex(r1 + m)}${toHex(g1 + m)}${toHex(b1 + m)}`;
+}
+
+/**
+ * The background a note of `color` is shown with: the color itself in light
+ * mode, and in dark mode its palette entry's dark color or a derived one.
+ */
+export function noteBackground(color: string, palette: readonly PaletteColor[], scheme: ColorScheme): string {
+  if (scheme === 'light') return color;
+  const entry = palette.find(swatch => swatch.value === color.toLowerCase());
+  return entry?.dark ?? darkVariant(color);
+}
+
+/** Marks palette files so a stray JSON file is not taken for one. */
+export const PALETTE_FILE_TYPE = 'sticky-notes-palette';
+
+/** The contents of an exported `.json` palette file. */
+export interface PaletteFile {
+  type: typeof PALETTE_FILE_TYPE;
+  version: 1;
+  colors: PaletteColor[];
+}
+
+export const paletteFileValidator: Validator<PaletteFile> = object({
+  type: oneOf(PALETTE_FILE_TYPE),
+  version: oneOf(1),
+  colors: paletteValidator
+});
+
+export const createPaletteFile = (colors: PaletteColor[]): PaletteFile =>
+  ({ type: PALETTE_FILE_TYPE, version: 1, colors });
@@ -0,0 +1,56 @@
+import { DEFAULT_PALETTE, hexColorValidator, paletteValidator, type PaletteColor } from './palette';
+import { fontFamilyValidator, fontSizeValidator, type FontFamily } from './typography';
+import { boolean, number, object, oneOf, type Validator } from './validation';
+
+/** `system` follows the operating system's appearance. */
+export const THEMES = ['system', 'light', 'dark'] as const;
+export type Theme = typeof THEMES[number];
+
+/** App-wide preferences, kept in `preferences.json`. */
+export interface Preferences {
+  /** Color of new notes, as `#rrggbb`. */
+  defaultColor: string;
+  /** Size new note windows open at. */
+  defaultWidth: number;
+  defaultHeight: number;
+  /** Whether new notes float above other windows. */
+  startOnTop: boolean;
+  /** Pause in typing after which edits are saved. */
+  autosaveDelayMs: number;
+  launchAtLogin: boolean;
+  fontFamily: FontFamily;
+  /** Size of note text in pixels. */
+  fontSize: number;
+  theme: Theme;
+  /** Colors offered for notes, in the order they are shown. */
+  palette: PaletteColor[];
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  defaultColor: DEFAULT_PALETTE[0].value,
+  defaultWidth: 300,
+  defaultHeight: 200,
+  startOnTop: true,
+  autosaveDelayMs: 500,
+  launchAtLogin: false,
+  fontFamily: 'system',
+  fontSize: 14,
+  theme: 'system',
+  palette: DEFAULT_PALETTE
+};
+
+/** Each preference on its own, so a bad value can fall back without the rest. */
+export const preferenceValidators: { [K in keyof Preferences]: Validator<Preferences[K]> } = {
+  defaultColor: hexColorValidator,
+  defaultWidth: number({ integer: true, min: 200, max: 2000 }),
+  defaultHeight: number({ integer: true, min: 100, max: 2000 }),
+  startOnTop: boolean(),
+  autosaveDelayMs: number({ integer: true, min: 100, max: 10_000 }),
+  launchAtLogin: boolean(),
+  fontFamily: fontFamilyValidator,
+  fontSize: fontSizeValidator,
+  theme: oneOf(...THEMES),
+  palette: paletteValidator
+};
+
+export const preferencesValidator: Validator<Preferences> = object(preferenceValidators);
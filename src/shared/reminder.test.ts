@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { isReminderPending, nextOccurrence } from './reminder';
+
+// Local times, so the expectations hold in any time zone
+const local = (year: number, month: number, day: number, hours = 9, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+describe('nextOccurrence', () => {
+  it('returns nothing for one-off reminders', () => {
+    const at = local(2024, 5, 31).toISOString();
+    expect(nextOccurrence(at, 'none', local(2024, 6, 1).getTime())).toBeUndefined();
+  });
+
+  it('moves daily reminders to the first day after the given time', () => {
+    const at = local(2024, 5, 28).toISOString();
+    expect(nextOccurrence(at, 'daily', local(2024, 5, 31, 8).getTime())).toBe(local(2024, 5, 31).toISOString());
+    expect(nextOccurrence(at, 'daily', local(2024, 5, 31, 9).getTime())).toBe(local(2024, 6, 1).toISOString());
+  });
+
+  it('moves weekly reminders in whole weeks', () => {
+    const at = local(2024, 5, 3).toISOString();
+    expect(nextOccurrence(at, 'weekly', local(2024, 5, 20).getTime())).toBe(local(2024, 5, 24).toISOString());
+  });
+
+  it('skips the weekend for weekday reminders', () => {
+    // Friday 31 May 2024, fired at nine: next is Monday 3 June
+    const friday = local(2024, 5, 31).toISOString();
+    expect(nextOccurrence(friday, 'weekdays', local(2024, 5, 31, 9).getTime())).toBe(local(2024, 6, 3).toISOString());
+  });
+
+  it('moves a weekday reminder set on a weekend to the Monday', () => {
+    const saturday = local(2024, 6, 1).toISOString();
+    expect(nextOccurrence(saturday, 'weekdays', local(2024, 5, 31).getTime())).toBe(local(2024, 6, 3).toISOString());
+  });
+
+  it('keeps the time of day', () => {
+    const at = local(2024, 3, 1, 7, 30).toISOString();
+    const next = new Date(nextOccurrence(at, 'daily', local(2024, 4, 15, 12).getTime())!);
+    expect([next.getHours(), next.getMinutes()]).toEqual([7, 30]);
+  });
+});
+
+describe('isReminderPending', () => {
+  it('is pending until fired at or after its time', () => {
+    const at = local(2024, 5, 31).toISOString();
+    expect(isReminderPending({ at, recurrence: 'none' })).toBe(true);
+    expect(isReminderPending({ at, recurrence: 'none', firedAt: local(2024, 5, 30).toISOString() })).toBe(true);
+    expect(isReminderPending({ at, recurrence: 'none', firedAt: local(2024, 5, 31, 9, 1).toISOString() })).toBe(false);
+  });
+});
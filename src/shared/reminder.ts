@@ -0,0 +1,50 @@
+import { isoDate, object, oneOf, optional } from './validation';
+
+export type Recurrence = 'none' | 'daily' | 'weekdays' | 'weekly';
+
+export const RECURRENCES: readonly Recurrence[] = ['none', 'daily', 'weekdays', 'weekly'];
+
+export interface NoteReminder {
+  /** When the reminder is next due. Recurring reminders move forward after firing. */
+  at: string;
+  recurrence: Recurrence;
+  /** When a notification was last shown for it; set by the scheduler. */
+  firedAt?: string;
+}
+
+/** What the renderer sends to set a reminder; `firedAt` is managed by main. */
+export type ReminderInput = Pick<NoteReminder, 'at' | 'recurrence'>;
+
+export const reminderValidator = object({
+  at: isoDate(),
+  recurrence: oneOf(...RECURRENCES),
+  firedAt: optional(isoDate())
+});
+
+export const reminderInputValidator = object({
+  at: isoDate(),
+  recurrence: oneOf(...RECURRENCES)
+});
+
+/** Whether the reminder still has a notification to show at `at`. */
+export const isReminderPending = (reminder: NoteReminder): boolean =>
+  !reminder.firedAt || Date.parse(reminder.firedAt) < Date.parse(reminder.at);
+
+const isWeekend = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+/**
+ * The first occurrence of a recurring reminder strictly after `after`,
+ * stepping in local calendar days so the time of day survives DST changes.
+ * Returns undefined for one-off reminders.
+ */
+export function nextOccurrence(at: string, recurrence: Recurrence, after: number): string | undefined {
+  if (recurrence === 'none') {
+    return undefined;
+  }
+  const date = new Date(at);
+  const step = recurrence === 'weekly' ? 7 : 1;
+  while (date.getTime() <= after || (recurrence === 'weekdays' && isWeekend(date))) {
+    date.setDate(date.getDate() + step);
+  }
+  return date.toISOString();
+}
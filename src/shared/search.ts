@@ -0,0 +1,50 @@
+import type { StickyNote } from './note';
+import { array, boolean, isoDate, number, optional, object, string } from './validation';
+
+export interface SearchQuery {
+  /** Free text matched against title and content; words must all match. */
+  text?: string;
+  colors?: string[];
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  alwaysOnTop?: boolean;
+  limit?: number;
+}
+
+/** A highlighted span, as [start, end) offsets into the accompanying text. */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  note: StickyNote;
+  score: number;
+  titleRanges: TextRange[];
+  /** Excerpt of the content around the first match, or its beginning. */
+  snippet: string;
+  snippetRanges: TextRange[];
+}
+
+export const searchQueryValidator = object({
+  text: optional(string({ maxLength: 500 })),
+  colors: optional(array(string({ maxLength: 64 }), { maxLength: 64 })),
+  createdFrom: optional(isoDate()),
+  createdTo: optional(isoDate()),
+  updatedFrom: optional(isoDate()),
+  updatedTo: optional(isoDate()),
+  alwaysOnTop: optional(boolean()),
+  limit: optional(number({ integer: true, min: 1, max: 10_000 }))
+});
+
+/** Whether the query narrows the note list at all. */
+export const isSearchQueryActive = (query: SearchQuery): boolean =>
+  Boolean(
+    query.text?.trim()
+    || query.colors?.length
+    || query.createdFrom || query.createdTo
+    || query.updatedFrom || query.updatedTo
+    || query.alwaysOnTop !== undefined
+  );
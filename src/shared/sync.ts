@@ -0,0 +1,11 @@
+export interface SyncStatus {
+  /** Folder the note store is mirrored into; null while sync is off. */
+  directory: string | null;
+  /** Identifies this installation in the sync folder and in version vectors. */
+  deviceId: string;
+  deviceName: string;
+  lastSyncAt?: string;
+  lastError?: string;
+  /** Conflict copies made since the app started. */
+  conflicts: number;
+}
@@ -0,0 +1,87 @@
+import { MAX_CONTENT_LENGTH, type NoteDraft } from './note';
+import { boolean, isoDate, object, optional, string, type Validator } from './validation';
+
+/**
+ * A starting point for new notes. Placeholders such as `{{date}}` in the
+ * title and content are filled in when a note is made from it.
+ */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  title: string;
+  content: string;
+  /** Color of notes made from the template; the preferences' color when missing. */
+  color?: string;
+  /** Templates that ship with the app; they cannot be renamed or deleted. */
+  builtIn?: boolean;
+  created?: string;
+}
+
+/** The placeholders templates may use, with what they become. */
+export const TEMPLATE_VARIABLES = {
+  date: 'Today’s date, as 2024-05-31',
+  time: 'The time, as 14:05',
+  weekday: 'The day of the week, as Friday'
+} as const;
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'builtin-meeting',
+    name: 'Meeting Notes',
+    title: 'Meeting {{date}}',
+    content: '**Attendees:**\n\n## Agenda\n- \n\n## Notes\n\n## Action Items\n- [ ] ',
+    builtIn: true
+  },
+  {
+    id: 'builtin-daily-todo',
+    name: 'Daily To-Do',
+    title: 'To-Do for {{weekday}} {{date}}',
+    content: '- [ ] \n- [ ] \n- [ ] ',
+    builtIn: true
+  },
+  {
+    id: 'builtin-standup',
+    name: 'Standup',
+    title: 'Standup {{date}}',
+    content: '**Yesterday**\n- \n\n**Today**\n- \n\n**Blockers**\n- None',
+    builtIn: true
+  }
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fills in the placeholders in `text` for the local time `now`. Unknown
+ * ones are left as written, so a typo shows up in the note.
+ */
+export function expandTemplate(text: string, now: Date = new Date()): string {
+  const values: Record<keyof typeof TEMPLATE_VARIABLES, string> = {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    weekday: now.toLocaleDateString(undefined, { weekday: 'long' })
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as keyof typeof values] : placeholder);
+}
+
+/** A draft for a note made from `template` at `now`. */
+export function draftFromTemplate(template: NoteTemplate, now: Date = new Date()): NoteDraft {
+  return {
+    title: expandTemplate(template.title, now).slice(0, 500),
+    content: expandTemplate(template.content, now),
+    ...(template.color ? { color: template.color } : {})
+  };
+}
+
+export const templateIdValidator = string({ nonEmpty: true, maxLength: 128 });
+export const templateNameValidator = string({ nonEmpty: true, maxLength: 100 });
+
+export const noteTemplateValidator: Validator<NoteTemplate> = object({
+  id: templateIdValidator,
+  name: templateNameValidator,
+  title: string({ maxLength: 500 }),
+  content: string({ maxLength: MAX_CONTENT_LENGTH }),
+  color: optional(string({ maxLength: 64 })),
+  builtIn: optional(boolean()),
+  created: optional(isoDate())
+});
@@ -0,0 +1,12 @@
+import { number, object } from './validation';
+
+export interface TrashSettings {
+  /** Days a note stays in the Trash before it is purged; 0 keeps it forever. */
+  retentionDays: number;
+}
+
+export const DEFAULT_TRASH_SETTINGS: TrashSettings = { retentionDays: 30 };
+
+export const trashSettingsValidator = object({
+  retentionDays: number({ integer: true, min: 0, max: 3650 })
+});
@@ -0,0 +1,49 @@
+import { number, object, oneOf, optional, type Validator } from './validation';
+
+/** Fonts note text can be set in, each a stack of fallbacks. */
+export const FONT_FAMILIES = {
+  system: { label: 'System', stack: "-apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif" },
+  serif: { label: 'Serif', stack: "Georgia, 'Times New Roman', serif" },
+  mono: { label: 'Monospace', stack: "'SF Mono', Menlo, Consolas, monospace" },
+  handwriting: { label: 'Handwriting', stack: "'Marker Felt', 'Chalkboard SE', 'Comic Sans MS', cursive" }
+} as const;
+
+export type FontFamily = keyof typeof FONT_FAMILIES;
+
+export const TEXT_ALIGNMENTS = ['left', 'center', 'right'] as const;
+export type TextAlign = typeof TEXT_ALIGNMENTS[number];
+
+export const MIN_FONT_SIZE = 9;
+export const MAX_FONT_SIZE = 36;
+
+/**
+ * How one note's text is set. Anything left out follows the font
+ * preferences, so an empty object means the note has no settings of its own.
+ */
+export interface NoteTypography {
+  fontFamily?: FontFamily;
+  /** In pixels. */
+  fontSize?: number;
+  textAlign?: TextAlign;
+}
+
+export const fontFamilyValidator = oneOf(...Object.keys(FONT_FAMILIES) as FontFamily[]);
+export const fontSizeValidator = number({ integer: true, min: MIN_FONT_SIZE, max: MAX_FONT_SIZE });
+
+export const noteTypographyValidator: Validator<NoteTypography> = object({
+  fontFamily: optional(fontFamilyValidator),
+  fontSize: optional(fontSizeValidator),
+  textAlign: optional(oneOf(...TEXT_ALIGNMENTS))
+});
+
+/**
+ * The CSS variables note text is set with, for the element around a note's
+ * text; fields the note leaves out keep the preferences' values.
+ */
+export function typographyVariables(typography: NoteTypography | undefined): Record<string, string> {
+  const variables: Record<string, string> = {};
+  if (typography?.fontFamily) variables['--note-font-family'] = FONT_FAMILIES[typography.fontFamily].stack;
+  if (typography?.fontSize) variables['--note-font-size'] = `${typography.fontSize}px`;
+  if (typography?.textAlign) variables['--note-text-align'] = typography.textAlign;
+  return variables;
+}
@@ -0,0 +1,161 @@
+// Tiny runtime validators shared by the main, preload and renderer processes.
+// Each validator either returns the value narrowed to its type or throws a
+// ValidationError pointing at the offending path.
+
+export class ValidationError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+type Shape = Record<string, Validator<unknown>>;
+
+type ShapeOutput<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+export const string = (options: { nonEmpty?: boolean; maxLength?: number } = {}): Validator<string> =>
+  (value, path) => {
+    if (typeof value !== 'string') {
+      throw new ValidationError(path, 'expected a string');
+    }
+    if (options.nonEmpty && value.length === 0) {
+      throw new ValidationError(path, 'must not be empty');
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(path, `must be at most ${options.maxLength} characters`);
+    }
+    return value;
+  };
+
+export const number = (options: { integer?: boolean; min?: number; max?: number } = {}): Validator<number> =>
+  (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ValidationError(path, 'expected a finite number');
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      throw new ValidationError(path, 'expected an integer');
+    }
+    if (options.min !== undefined && value < options.min) {
+      throw new ValidationError(path, `must be >= ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      throw new ValidationError(path, `must be <= ${options.max}`);
+    }
+    return value;
+  };
+
+export const boolean = (): Validator<boolean> => (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(path, 'expected a boolean');
+  }
+  return value;
+};
+
+/** Binary data, as IPC delivers an ArrayBuffer view sent from a renderer. */
+export const bytes = (options: { maxLength?: number } = {}): Validator<Uint8Array> =>
+  (value, path) => {
+    if (!(value instanceof Uint8Array)) {
+      throw new ValidationError(path, 'expected binary data');
+    }
+    if (options.maxLength !== undefined && value.byteLength > options.maxLength) {
+      throw new ValidationError(path, `must be at most ${options.maxLength} bytes`);
+    }
+    return value;
+  };
+
+export const isoDate = (): Validator<string> => (value, path) => {
+  const text = string()(value, path);
+  if (Number.isNaN(Date.parse(text))) {
+    throw new ValidationError(path, 'expected an ISO date string');
+  }
+  return text;
+};
+
+export const oneOf = <T extends string | number>(...choices: readonly T[]): Validator<T> =>
+  (value, path) => {
+    if (!choices.includes(value as T)) {
+      throw new ValidationError(path, `expected one of ${choices.join(', ')}`);
+    }
+    return value as T;
+  };
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> =>
+  (value, path) => (value === undefined ? undefined : inner(value, path));
+
+export const nullable = <T>(inner: Validator<T>): Validator<T | null> =>
+  (value, path) => (value === null ? null : inner(value, path));
+
+export const array = <T>(item: Validator<T>, options: { maxLength?: number } = {}): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new ValidationError(path, 'expected an array');
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(path, `must contain at most ${options.maxLength} items`);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates an object against a shape. Unknown keys are dropped so callers
+ * never receive fields they did not ask for.
+ */
+export const object = <S extends Shape>(shape: S): Validator<ShapeOutput<S>> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new ValidationError(path, 'expected an object');
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key](value[key], `${path}.${key}`);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return result as ShapeOutput<S>;
+  };
+
+/** Like `object`, but every key may be omitted. */
+export const partial = <S extends Shape>(shape: S): Validator<Partial<ShapeOutput<S>>> => {
+  const optionalShape: Shape = {};
+  for (const key of Object.keys(shape)) {
+    optionalShape[key] = optional(shape[key]);
+  }
+  return object(optionalShape) as Validator<Partial<ShapeOutput<S>>>;
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new ValidationError(path, 'expected an object');
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item(entry, `${path}.${key}`);
+    }
+    return result;
+  };
+
+type TupleOutput<V extends readonly Validator<unknown>[]> = { [K in keyof V]: Infer<V[K]> };
+
+/**
+ * Validates an argument list. Trailing optional validators accept missing
+ * arguments, extra arguments are rejected.
+ */
+export const tuple = <V extends readonly Validator<unknown>[]>(...items: V): Validator<TupleOutput<V>> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new ValidationError(path, 'expected an argument list');
+    }
+    if (value.length > items.length) {
+      throw new ValidationError(path, `expected at most ${items.length} argument(s), got ${value.length}`);
+    }
+    return items.map((item, index) => item(value[index], `${path}[${index}]`)) as TupleOutput<V>;
+  };
@@ -0,0 +1,41 @@
+// `[[Note title]]` links between notes. A link names its target by title,
+// matched without regard to case or surrounding spaces; main points links at
+// the new title when a note is renamed.
+
+const WIKI_LINK = /\[\[([^[\]\n]+)\]\]/g;
+// Code is shown as written, so links in it do not count
+const CODE = /^\s*(```|~~~)[\s\S]*?^\s*\1|`[^`]+`/gm;
+
+/** Notes are matched to links by this form of their title. */
+export const linkKey = (title: string): string => title.trim().toLowerCase();
+
+/** Titles linked from `content`, each once, as first written. */
+export function wikiLinkTitles(content: string): string[] {
+  const seen = new Set<string>();
+  const titles: string[] = [];
+  for (const [, title] of content.replace(CODE, '').matchAll(WIKI_LINK)) {
+    const key = linkKey(title);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      titles.push(title.trim());
+    }
+  }
+  return titles;
+}
+
+/** Rewrites links to the title `from` so they link to `to` instead. */
+export const renameWikiLinks = (content: string, from: string, to: string): string =>
+  content.replace(WIKI_LINK, (link, title: string) => linkKey(title) === linkKey(from) ? `[[${to.trim()}]]` : link);
+
+export interface LinkedNote {
+  id: string;
+  title: string;
+}
+
+/** Links into and out of one note. */
+export interface NoteLinks {
+  /** Notes whose content links to this one, by title. */
+  backlinks: LinkedNote[];
+  /** Titles this note links to that no note has, e.g. after the target was deleted. */
+  broken: string[];
+}
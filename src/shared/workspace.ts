@@ -0,0 +1,49 @@
+import { array, boolean, isoDate, number, object, optional, string } from './validation';
+
+/** Where one note window sits in a workspace. */
+export interface WindowPlacement {
+  noteId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  alwaysOnTop: boolean;
+  /** The display the window was on, as reported by Electron's `screen` module. */
+  displayId?: number;
+}
+
+/** A named set of open note windows and their layout. */
+export interface Workspace {
+  id: string;
+  name: string;
+  created: string;
+  updated: string;
+  windows: WindowPlacement[];
+}
+
+export interface WorkspaceList {
+  /** The workspace whose layout is shown now and restored on launch; null for none. */
+  activeId: string | null;
+  workspaces: Workspace[];
+}
+
+export const workspaceIdValidator = string({ nonEmpty: true, maxLength: 128 });
+export const workspaceNameValidator = string({ nonEmpty: true, maxLength: 100 });
+
+export const windowPlacementValidator = object({
+  noteId: string({ nonEmpty: true, maxLength: 128 }),
+  x: number({ integer: true }),
+  y: number({ integer: true }),
+  width: number({ integer: true, min: 1 }),
+  height: number({ integer: true, min: 1 }),
+  alwaysOnTop: boolean(),
+  displayId: optional(number({ integer: true }))
+});
+
+export const workspaceValidator = object({
+  id: workspaceIdValidator,
+  name: workspaceNameValidator,
+  created: isoDate(),
+  updated: isoDate(),
+  windows: array(windowPlacementValidator, { maxLength: 10_000 })
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests cover the main process and shared modules, which run in Node;
+// vite.config.ts is rooted at the renderer, so tests get their own config
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})